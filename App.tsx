@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { ViewState, Ingredient, NeuralProtocol, UserPreferences } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ViewState, Ingredient, NeuralProtocol, UserPreferences, PantrySession, ProtocolLogEntry } from './types';
 import Landing from './components/Landing';
 import Analyzer from './components/Analyzer';
 import Dashboard from './components/Dashboard';
@@ -9,11 +9,25 @@ import ExecutionMode from './components/ExecutionMode';
 import Settings from './components/Settings';
 import Header from './components/Header';
 import { STORAGE_KEYS } from './constants';
+import { registry } from './services/modelRegistry';
+import { loadCalibration, recordVerification, updateConfidenceMemory, VerificationOutcome } from './services/calibrationService';
+import { consumeForProtocol, loadPantry, loadPantryHistory, recordPantrySession, refreshExpiry, savePantry, trackExpiry } from './services/pantryService';
+import { annotateFlavours } from './services/flavourService';
+import { addScanned } from './services/inventoryService';
+import { loadProtocolLog, recordCompletedProtocol } from './services/analyticsService';
+import { dailyTargets } from './services/nutritionService';
+import { scaleProtocol } from './services/scalingService';
+
+const EXPIRY_TICK_MS = 60 * 1000;
 
 const App: React.FC = () => {
   const [viewState, setViewState] = useState<ViewState>(ViewState.LANDING);
   const [inventory, setInventory] = useState<Ingredient[]>([]);
-  const [currentProtocol, setCurrentProtocol] = useState<NeuralProtocol | null>(null);
+  const [pantryLoaded, setPantryLoaded] = useState(false);
+  const [pantryHistory, setPantryHistory] = useState<PantrySession[]>([]);
+  const [protocolLog, setProtocolLog] = useState<ProtocolLogEntry[]>([]);
+  const [currentProtocol, setCurrentProtocol] = useState<NeuralProtocol | null>(null); // As synthesised; scaled only for display
+  const [servings, setServings] = useState(0);
   const [preferences, setPreferences] = useState<UserPreferences>(() => {
     const saved = localStorage.getItem(STORAGE_KEYS.USER_PREFERENCES);
     return saved ? JSON.parse(saved) : {
@@ -25,6 +39,24 @@ const App: React.FC = () => {
     };
   });
 
+  useEffect(() => {
+    registry.loadManifest();
+    loadCalibration();
+    loadPantry().then(items => {
+      setInventory(prev => [...annotateFlavours(items), ...prev]);
+      setPantryLoaded(true);
+    });
+    loadPantryHistory().then(setPantryHistory);
+    loadProtocolLog().then(setProtocolLog);
+    const tick = setInterval(() => setInventory(prev => refreshExpiry(prev)), EXPIRY_TICK_MS);
+    return () => clearInterval(tick);
+  }, []);
+
+  // Persist only once the stored pantry is in state, so the empty initial render never overwrites it
+  useEffect(() => {
+    if (pantryLoaded) savePantry(inventory);
+  }, [inventory, pantryLoaded]);
+
   useEffect(() => {
     localStorage.setItem(STORAGE_KEYS.USER_PREFERENCES, JSON.stringify(preferences));
   }, [preferences]);
@@ -32,18 +64,40 @@ const App: React.FC = () => {
   const handleStart = () => setViewState(ViewState.UPLOAD);
   
   const handleAnalysisComplete = (newIngredients: Ingredient[]) => {
-    setInventory(prev => [...prev, ...newIngredients]);
+    const scanned = annotateFlavours(trackExpiry(newIngredients));
+    setInventory(prev => addScanned(prev, scanned));
+    recordPantrySession('scan', scanned).then(session => setPantryHistory(prev => [session, ...prev]));
     setViewState(ViewState.DASHBOARD);
   };
 
+  const handleUpdateInventory = (next: Ingredient[]) => setInventory(annotateFlavours(trackExpiry(next)));
+
+  const handleVerify = (id: string, outcome: VerificationOutcome) => {
+    const item = inventory.find(i => i.id === id);
+    if (!item || item.verificationStatus === outcome) return;
+    setInventory(prev => prev.map(i => (i.id === id ? { ...i, verificationStatus: outcome } : i)));
+    setPreferences(prev => ({ ...prev, confidenceMemory: updateConfidenceMemory(prev.confidenceMemory, item, outcome) }));
+    recordVerification(item, outcome);
+  };
+
   const handleSynthesize = () => setViewState(ViewState.SYNTHESIS);
   
-  const handleProtocolReady = (protocol: NeuralProtocol) => {
+  const scaledProtocol = useMemo(
+    () => (currentProtocol ? scaleProtocol(currentProtocol, servings, inventory).protocol : null),
+    [currentProtocol, servings, inventory]
+  );
+
+  const handleProtocolReady = (protocol: NeuralProtocol, chosenServings: number) => {
     setCurrentProtocol(protocol);
+    setServings(chosenServings);
   };
 
   const handleStartExecution = () => setViewState(ViewState.EXECUTION);
-  const handleFinishExecution = () => {
+  const handleFinishExecution = (protocol: NeuralProtocol) => {
+    const { remaining, consumed } = consumeForProtocol(inventory, protocol);
+    setInventory(remaining);
+    recordPantrySession('cooked', consumed, protocol.title).then(session => setPantryHistory(prev => [session, ...prev]));
+    recordCompletedProtocol(protocol, consumed).then(entry => setProtocolLog(prev => [...prev, entry]));
     setViewState(ViewState.DASHBOARD);
     setCurrentProtocol(null);
   };
@@ -59,7 +113,12 @@ const App: React.FC = () => {
         return (
           <Dashboard 
             inventory={inventory} 
-            protocol={currentProtocol}
+            protocol={scaledProtocol}
+            onVerify={handleVerify}
+            history={pantryHistory}
+            protocolLog={protocolLog}
+            dailyTargets={dailyTargets(preferences)}
+            onUpdateInventory={handleUpdateInventory}
             onSynthesize={handleSynthesize} 
             onAddMore={() => setViewState(ViewState.UPLOAD)}
           />
@@ -68,6 +127,7 @@ const App: React.FC = () => {
         return (
           <Synthesis 
             inventory={inventory}
+            preferences={preferences}
             onProtocolReady={handleProtocolReady}
             onExecute={handleStartExecution} 
             onBack={() => setViewState(ViewState.DASHBOARD)} 
@@ -85,6 +145,9 @@ const App: React.FC = () => {
         return currentProtocol ? (
           <ExecutionMode 
             protocol={currentProtocol} 
+            servings={servings}
+            preferences={preferences}
+            inventory={inventory}
             onComplete={handleFinishExecution} 
           />
         ) : null;
@@ -1,19 +1,30 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { refineManifestWithEnsemble, auditRecall, checkOnlineStatus } from '../services/geminiService';
-import { run_perception_pipeline, run_targeted_rescan } from '../perception/pipeline';
-import { Ingredient, AnalysisStep } from '../types';
+import { PERCEPTION_STAGES } from '../perception/pipeline';
+import { runBatchPerception, runTargetedRescan, sampleVideoFrames } from '../services/perceptionService';
+import { Ingredient, AnalysisStep, PerceptionEvent, PerceptionBatchResult, RecallHypothesis, VolumeCalibration } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Camera, ShieldCheck, Cpu, Search, Sparkles, Database, Layers, AlertTriangle, ZapOff } from 'lucide-react';
+import { Camera, ShieldCheck, Cpu, Search, Sparkles, Database, Layers, AlertTriangle, ZapOff, Ruler, X, Check, Tag, Leaf, Scale, Video } from 'lucide-react';
 import { registry } from '../services/modelRegistry';
+import LiveViewfinder from './LiveViewfinder';
 
 interface AnalyzerProps {
   onComplete: (ingredients: Ingredient[]) => void;
 }
 
+interface PendingFrame {
+  blob: Blob;
+  url: string; // Object URL for previews
+}
+
+// Perception stages are bound directly to pipeline events; the rest are cloud-side
+const PERCEPTION_SHARE = 60; // Share of the progress bar owned by the perception pipeline
+const MAX_FRAMES = 8; // Per batch, photos or sampled video stills
+const VIDEO_SAMPLES = 6;
+
 const INITIAL_STEPS: AnalysisStep[] = [
-  { id: 'detect', label: 'Optical Initialization', status: 'pending' },
-  { id: 'segment', label: 'Boundary Refinement', status: 'pending' },
+  ...PERCEPTION_STAGES.map(stage => ({ id: stage.id, label: stage.label, status: 'pending' as const })),
   { id: 'audit', label: 'Semantic Recall Audit', status: 'pending' },
   { id: 'rescan', label: 'Targeted Re-scan', status: 'pending' },
   { id: 'fuse', label: 'Manifest Fusion', status: 'pending' }
@@ -25,61 +36,235 @@ const Analyzer: React.FC<AnalyzerProps> = ({ onComplete }) => {
   const [progress, setProgress] = useState(0);
   const [statusText, setStatusText] = useState("Initializing System...");
   const [steps, setSteps] = useState<AnalysisStep[]>(INITIAL_STEPS);
+  const [pendingFrames, setPendingFrames] = useState<PendingFrame[]>([]);
+  const [activeFrame, setActiveFrame] = useState(0);
+  const [isSampling, setIsSampling] = useState(false);
+  const [isLive, setIsLive] = useState(false);
+  const [referenceKind, setReferenceKind] = useState<VolumeCalibration['kind']>('card');
+  const [referenceBox, setReferenceBox] = useState<VolumeCalibration['bbox'] | null>(null);
+  const [referenceFrame, setReferenceFrame] = useState(0);
+  const [review, setReview] = useState<{ ingredients: Ingredient[]; perception: PerceptionBatchResult; suggested: RecallHypothesis[] } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewRef = useRef<HTMLImageElement>(null);
+  const dragOriginRef = useRef<[number, number] | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const isOnline = checkOnlineStatus();
 
   const updateStep = (id: string, status: AnalysisStep['status']) => {
     setSteps(prev => prev.map(s => s.id === id ? { ...s, status } : s));
   };
 
+  // Cancel any in-flight perception when the Analyzer unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handlePerceptionEvent = (event: PerceptionEvent) => {
+    updateStep(event.stage, event.status);
+    setProgress(Math.round((event.percent / 100) * PERCEPTION_SHARE));
+    if (event.status === 'active') setStatusText(event.message);
+    if (event.stage === 'detect' && event.status === 'complete' && event.detections) {
+      setStatusText(`${event.detections.length} candidate regions in ${(event.elapsedMs / 1000).toFixed(1)}s`);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const replaceFrames = (frames: PendingFrame[]) => {
+    setPendingFrames(prev => {
+      prev.forEach(frame => URL.revokeObjectURL(frame.url));
+      return frames;
+    });
+    setActiveFrame(0);
+    setReferenceBox(null);
+  };
+
+  // Release preview URLs when the Analyzer unmounts
+  const framesRef = useRef<PendingFrame[]>([]);
+  framesRef.current = pendingFrames;
+  useEffect(() => () => framesRef.current.forEach(frame => URL.revokeObjectURL(frame.url)), []);
+
+  /**
+   * Accepts several photos, or one short clip that is sampled into stills.
+   */
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      const base64 = (event.target?.result as string).split(',')[1];
-      setIsAnalyzing(true);
-      setError(null);
-      setSteps(INITIAL_STEPS);
-      
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setError(null);
+
+    const video = files.find(f => f.type.startsWith('video/'));
+    let blobs: Blob[] = files.filter(f => f.type.startsWith('image/')).slice(0, MAX_FRAMES);
+    if (video) {
+      setIsSampling(true);
       try {
-        updateStep('detect', 'active');
-        setProgress(15);
-        const primaryManifest = await run_perception_pipeline(base64, (msg) => setStatusText(msg));
-        updateStep('detect', 'complete');
-        updateStep('segment', 'complete');
-
-        await new Promise(r => setTimeout(r, 600));
-
-        updateStep('audit', 'active');
-        setStatusText(isOnline ? "Identifying hidden items..." : "Local Edge prediction active...");
-        setProgress(55);
-        const hypotheses = await auditRecall(primaryManifest);
-        updateStep('audit', 'complete');
-
-        updateStep('rescan', 'active');
-        setStatusText("Validating inferred materials...");
-        setProgress(75);
-        const recoveredItems = await run_targeted_rescan(base64, hypotheses);
-        const aggregatedManifest = [...primaryManifest, ...recoveredItems];
-        updateStep('rescan', 'complete');
-
-        updateStep('fuse', 'active');
-        setStatusText("Consolidating inventory...");
-        setProgress(90);
-        const ensembleIngredients = await refineManifestWithEnsemble(aggregatedManifest);
-        updateStep('fuse', 'complete');
-
-        setProgress(100);
-        setStatusText("Inference Complete.");
-        setTimeout(() => onComplete(ensembleIngredients), 800);
+        blobs = await sampleVideoFrames(video, VIDEO_SAMPLES);
       } catch (err: any) {
-        setIsAnalyzing(false);
-        setError("Critical analysis failure. Check configuration.");
+        setError(err?.message || 'Video could not be decoded');
+        return;
+      } finally {
+        setIsSampling(false);
+      }
+    }
+    if (blobs.length === 0) return;
+    replaceFrames(blobs.map(blob => ({ blob, url: URL.createObjectURL(blob) })));
+  };
+
+  /**
+   * Maps a pointer position on the preview to source-image pixels.
+   */
+  const toSourcePoint = (e: React.PointerEvent<HTMLDivElement>): [number, number] | null => {
+    const img = previewRef.current;
+    if (!img) return null;
+    const rect = img.getBoundingClientRect();
+    const x = Math.min(rect.width, Math.max(0, e.clientX - rect.left));
+    const y = Math.min(rect.height, Math.max(0, e.clientY - rect.top));
+    return [x * img.naturalWidth / rect.width, y * img.naturalHeight / rect.height];
+  };
+
+  const handleMarkStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toSourcePoint(e);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragOriginRef.current = point;
+    setReferenceFrame(activeFrame);
+    setReferenceBox([point[0], point[1], point[0], point[1]]);
+  };
+
+  const handleMarkMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const origin = dragOriginRef.current;
+    const point = toSourcePoint(e);
+    if (!origin || !point) return;
+    setReferenceBox([
+      Math.min(origin[0], point[0]), Math.min(origin[1], point[1]),
+      Math.max(origin[0], point[0]), Math.max(origin[1], point[1])
+    ]);
+  };
+
+  const handleMarkEnd = () => {
+    dragOriginRef.current = null;
+    // Discard accidental clicks that produce a degenerate box
+    setReferenceBox(box => box && (box[2] - box[0] > 8 && box[3] - box[1] > 8) ? box : null);
+  };
+
+  const runAnalysis = async (frames: PendingFrame[], calibration?: VolumeCalibration) => {
+    setIsAnalyzing(true);
+    setError(null);
+    setSteps(INITIAL_STEPS);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const perception = await runBatchPerception(frames.map(frame => frame.blob), {
+        signal: controller.signal,
+        onEvent: handlePerceptionEvent,
+        calibration
+      });
+      const primaryManifest = perception.ingredients;
+
+      await new Promise(r => setTimeout(r, 600));
+
+      updateStep('audit', 'active');
+      setStatusText(isOnline ? "Identifying hidden items..." : "Local Edge prediction active...");
+      setProgress(55);
+      const hypotheses = await auditRecall(primaryManifest);
+      if (controller.signal.aborted) throw new DOMException('Perception cancelled', 'AbortError');
+      updateStep('audit', 'complete');
+
+      updateStep('rescan', 'active');
+      setStatusText("Validating inferred materials...");
+      setProgress(75);
+      // Each frame gets a look at whatever earlier frames could not confirm
+      let unconfirmed = hypotheses;
+      const recoveredItems: Ingredient[] = [];
+      for (let i = 0; i < frames.length && unconfirmed.length > 0; i++) {
+        const rescan = await runTargetedRescan(frames[i].blob, unconfirmed, {
+          regions: perception.regions.filter(r => (r.frame ?? 0) === i),
+          calibration: (calibration?.frame ?? 0) === i ? calibration : undefined,
+          signal: controller.signal
+        });
+        recoveredItems.push(...rescan.confirmed);
+        perception.regions.push(...rescan.regions.map(r => ({ ...r, frame: i })));
+        unconfirmed = rescan.rejected;
       }
+      const aggregatedManifest = [...primaryManifest, ...recoveredItems];
+      updateStep('rescan', 'complete');
+
+      updateStep('fuse', 'active');
+      setStatusText("Consolidating inventory...");
+      setProgress(90);
+      const ensembleIngredients = await refineManifestWithEnsemble(aggregatedManifest);
+      if (controller.signal.aborted) throw new DOMException('Perception cancelled', 'AbortError');
+      updateStep('fuse', 'complete');
+
+      setProgress(100);
+      setStatusText("Inference Complete.");
+      setTimeout(() => {
+        setReview({ ingredients: ensembleIngredients, perception, suggested: unconfirmed });
+        setIsAnalyzing(false);
+      }, 800);
+    } catch (err: any) {
+      setIsAnalyzing(false);
+      if (err?.name === 'AbortError') return;
+      setError(err?.message?.includes('budget')
+        ? `${err.message}. This device may need more time; try again or use a smaller photo.`
+        : "Critical analysis failure. Check configuration.");
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const handleBeginAnalysis = () => {
+    if (pendingFrames.length === 0) return;
+    const calibration = referenceBox ? { kind: referenceKind, bbox: referenceBox, frame: referenceFrame } : undefined;
+    setActiveFrame(0);
+    runAnalysis(pendingFrames, calibration);
+  };
+
+  /**
+   * A frozen viewfinder still goes straight into the full perception pass.
+   */
+  const handleLiveCapture = (blob: Blob) => {
+    const frame = { blob, url: URL.createObjectURL(blob) };
+    setIsLive(false);
+    replaceFrames([frame]);
+    runAnalysis([frame]);
+  };
+
+  const handleCommit = () => {
+    if (!review) return;
+    onComplete(review.ingredients);
+  };
+
+  const handleDiscardReview = () => {
+    setReview(null);
+    replaceFrames([]);
+  };
+
+  const frameStrip = pendingFrames.length > 1 && (
+    <div className="flex flex-wrap justify-center gap-2">
+      {pendingFrames.map((frame, i) => (
+        <button
+          key={frame.url}
+          onClick={() => setActiveFrame(i)}
+          className={`w-16 h-12 rounded-xl overflow-hidden border-2 transition-all ${activeFrame === i ? 'border-[#D4AF37]' : 'border-transparent opacity-40 hover:opacity-100'}`}
+        >
+          <img src={frame.url} alt={`Frame ${i + 1}`} className="w-full h-full object-cover" />
+        </button>
+      ))}
+    </div>
+  );
+
+  const boxStyle = (box: VolumeCalibration['bbox']): React.CSSProperties => {
+    const img = previewRef.current;
+    if (!img || !img.naturalWidth) return { display: 'none' };
+    return {
+      left: `${(box[0] / img.naturalWidth) * 100}%`,
+      top: `${(box[1] / img.naturalHeight) * 100}%`,
+      width: `${((box[2] - box[0]) / img.naturalWidth) * 100}%`,
+      height: `${((box[3] - box[1]) / img.naturalHeight) * 100}%`
     };
-    reader.readAsDataURL(file);
   };
 
   return (
@@ -111,13 +296,132 @@ const Analyzer: React.FC<AnalyzerProps> = ({ onComplete }) => {
               </motion.div>
             )}
 
-            <motion.div onClick={() => fileInputRef.current?.click()} whileHover={{ scale: 1.002, y: -2 }} className="relative aspect-video w-full max-w-2xl rounded-[3rem] glass-premium flex flex-col items-center justify-center shadow-xl border-black/[0.01] cursor-pointer group">
-              <div className="w-16 h-16 rounded-[1.5rem] bg-[#0A0A0B] flex items-center justify-center mb-4 shadow-xl transition-transform duration-700 group-hover:scale-110">
-                <Camera color="#D4AF37" size={24} strokeWidth={1.5} />
+            {review && pendingFrames.length > 0 ? (
+              <div className="w-full max-w-3xl flex flex-col items-center gap-6">
+                <div className="relative w-full rounded-[3rem] overflow-hidden shadow-xl">
+                  <img src={pendingFrames[activeFrame].url} alt="Scanned inventory" className="w-full h-auto block" />
+                  <svg
+                    viewBox={`0 0 ${review.perception.frames[activeFrame].width} ${review.perception.frames[activeFrame].height}`}
+                    preserveAspectRatio="none"
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                  >
+                    {review.perception.regions.filter(region => (region.frame ?? 0) === activeFrame).map(region => {
+                      const [x1, y1, x2, y2] = region.bbox;
+                      const frameWidth = review.perception.frames[activeFrame].width;
+                      return (
+                        <g key={region.ingredientId}>
+                          {region.mask && region.mask.polygon.length > 2 ? (
+                            <polygon
+                              points={region.mask.polygon.map(p => p.join(',')).join(' ')}
+                              fill="rgba(212, 175, 55, 0.18)"
+                              stroke="#D4AF37"
+                              strokeWidth={Math.max(2, frameWidth / 400)}
+                              strokeLinejoin="round"
+                            />
+                          ) : (
+                            <rect x={x1} y={y1} width={x2 - x1} height={y2 - y1} fill="none" stroke="#D4AF37" strokeDasharray="6 4" strokeWidth={Math.max(2, frameWidth / 400)} />
+                          )}
+                          <text x={x1 + 4} y={Math.max(y1 - 6, 14)} fill="#D4AF37" fontSize={Math.max(14, frameWidth / 60)} fontWeight={700}>
+                            {region.label}
+                          </text>
+                        </g>
+                      );
+                    })}
+                  </svg>
+                </div>
+
+                {frameStrip}
+
+                <div className="flex flex-wrap justify-center gap-2">
+                  {review.ingredients.map(item => (
+                    <span key={item.id} className="px-4 py-2 rounded-full bg-white border border-black/[0.06] text-[9px] font-bold uppercase tracking-[0.2em] text-black/60">
+                      {item.name}
+                      {pendingFrames.length > 1 && item.seenInFrames && <span className="text-black/25"> · {item.seenInFrames}/{pendingFrames.length} frames</span>}
+                    </span>
+                  ))}
+                </div>
+
+                {review.suggested.length > 0 && (
+                  <div className="flex flex-col items-center gap-3">
+                    <span className="text-[8px] uppercase tracking-[0.3em] font-bold text-black/25">Suggested, not seen</span>
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {review.suggested.map(h => (
+                        <span key={h.name} title={h.justification} className="px-4 py-2 rounded-full border border-dashed border-black/[0.12] text-[9px] font-bold uppercase tracking-[0.2em] text-black/30">{h.name}</span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex gap-4">
+                  <button onClick={handleDiscardReview} className="px-8 py-4 rounded-full border border-black/[0.08] text-[9px] uppercase tracking-[0.3em] font-bold text-black/40 hover:text-black transition-all">Discard Scan</button>
+                  <button onClick={handleCommit} className="px-10 py-4 rounded-full bg-[#0A0A0B] text-white text-[9px] uppercase tracking-[0.3em] font-bold shadow-lg hover:bg-[#D4AF37] transition-all flex items-center gap-3">
+                    <Check size={12} /> Commit {review.ingredients.length} Items
+                  </button>
+                </div>
               </div>
-              <span className="text-[9px] uppercase tracking-[0.4em] font-bold text-black/30">Initiate Optical Gateway</span>
-              <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileChange} />
-            </motion.div>
+            ) : isLive ? (
+              <LiveViewfinder onCapture={handleLiveCapture} onClose={() => setIsLive(false)} />
+            ) : pendingFrames.length > 0 ? (
+              <div className="w-full max-w-2xl flex flex-col items-center gap-6">
+                <div
+                  onPointerDown={handleMarkStart}
+                  onPointerMove={handleMarkMove}
+                  onPointerUp={handleMarkEnd}
+                  className="relative w-full rounded-[3rem] overflow-hidden shadow-xl cursor-crosshair select-none touch-none"
+                >
+                  <img ref={previewRef} src={pendingFrames[activeFrame].url} alt="Scan preview" draggable={false} className="w-full h-auto block" />
+                  {referenceBox && referenceFrame === activeFrame && (
+                    <div style={boxStyle(referenceBox)} className="absolute border-2 border-dashed border-[#D4AF37] bg-[#D4AF37]/10 rounded-md pointer-events-none" />
+                  )}
+                </div>
+
+                {frameStrip}
+
+                <div className="flex flex-wrap items-center justify-center gap-3">
+                  <Ruler size={12} className="text-[#D4AF37]" />
+                  <span className="text-[9px] uppercase tracking-[0.3em] font-bold text-black/40">
+                    {referenceBox
+                      ? pendingFrames.length > 1 ? `Reference marked on frame ${referenceFrame + 1}` : 'Reference marked'
+                      : 'Optional: drag around a reference'}
+                  </span>
+                  {(['card', 'plate'] as const).map(kind => (
+                    <button
+                      key={kind}
+                      onClick={() => setReferenceKind(kind)}
+                      className={`px-4 py-2 rounded-full border text-[8px] font-bold uppercase tracking-[0.2em] transition-all ${referenceKind === kind ? 'bg-[#0A0A0B] text-white border-black' : 'bg-white border-black/[0.06] text-black/40'}`}
+                    >
+                      {kind === 'card' ? 'Bank Card (85.6 mm)' : 'Dinner Plate (27 cm)'}
+                    </button>
+                  ))}
+                  {referenceBox && (
+                    <button onClick={() => setReferenceBox(null)} className="p-2 rounded-full bg-black/[0.03] text-black/40 hover:text-black transition-all"><X size={10} /></button>
+                  )}
+                </div>
+
+                <div className="flex gap-4">
+                  <button onClick={() => replaceFrames([])} className="px-8 py-4 rounded-full border border-black/[0.08] text-[9px] uppercase tracking-[0.3em] font-bold text-black/40 hover:text-black transition-all">Discard</button>
+                  <button onClick={handleBeginAnalysis} className="px-10 py-4 rounded-full bg-[#0A0A0B] text-white text-[9px] uppercase tracking-[0.3em] font-bold shadow-lg hover:bg-[#D4AF37] transition-all">
+                    {pendingFrames.length > 1 ? `Analyze ${pendingFrames.length} Frames` : 'Begin Analysis'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="w-full max-w-2xl flex flex-col items-center gap-6">
+                <motion.div onClick={() => !isSampling && fileInputRef.current?.click()} whileHover={{ scale: 1.002, y: -2 }} className="relative aspect-video w-full max-w-2xl rounded-[3rem] glass-premium flex flex-col items-center justify-center shadow-xl border-black/[0.01] cursor-pointer group">
+                  <div className="w-16 h-16 rounded-[1.5rem] bg-[#0A0A0B] flex items-center justify-center mb-4 shadow-xl transition-transform duration-700 group-hover:scale-110">
+                    <Camera color="#D4AF37" size={24} strokeWidth={1.5} />
+                  </div>
+                  <span className="text-[9px] uppercase tracking-[0.4em] font-bold text-black/30">
+                    {isSampling ? 'Sampling Video Frames...' : 'Initiate Optical Gateway'}
+                  </span>
+                  <span className="mt-2 text-[8px] uppercase tracking-[0.3em] font-bold text-black/15">Photos (up to {MAX_FRAMES}) or a short clip</span>
+                </motion.div>
+                <button onClick={() => { setError(null); setIsLive(true); }} className="px-8 py-4 rounded-full border border-black/[0.08] bg-white text-[9px] uppercase tracking-[0.3em] font-bold text-black/40 hover:text-black transition-all flex items-center gap-3">
+                  <Video size={12} className="text-[#D4AF37]" /> Live Viewfinder
+                </button>
+              </div>
+            )}
+            <input type="file" ref={fileInputRef} className="hidden" accept="image/*,video/*" multiple onChange={handleFileChange} />
           </motion.div>
         ) : (
           <motion.div key="analyzing" className="fixed inset-0 z-[200] flex items-center justify-center bg-white/95 backdrop-blur-3xl px-8">
@@ -137,15 +441,19 @@ const Analyzer: React.FC<AnalyzerProps> = ({ onComplete }) => {
                   <motion.div className="h-full bg-black" initial={{ width: 0 }} animate={{ width: `${progress}%` }} transition={{ duration: 0.8 }} />
                 </div>
 
-                <div className="grid grid-cols-5 gap-3">
+                <div className="grid grid-cols-4 gap-x-3 gap-y-6">
                    {steps.map((step) => (
                      <div key={step.id} className="relative flex flex-col items-center text-center">
                         <div className={`w-10 h-10 rounded-xl flex items-center justify-center mb-3 transition-all duration-700 ${
                           step.status === 'complete' ? 'bg-[#D4AF37] text-white' : 
-                          step.status === 'active' ? 'bg-black text-white shadow-lg scale-110' : 'bg-black/[0.02] text-black/10'
+                          step.status === 'active' ? 'bg-black text-white shadow-lg scale-110' :
+                          step.status === 'failed' ? 'bg-rose-50 text-rose-500' : 'bg-black/[0.02] text-black/10'
                         }`}>
                            {step.id === 'detect' && <Cpu size={14} />}
                            {step.id === 'segment' && <Layers size={14} />}
+                           {step.id === 'classify' && <Tag size={14} />}
+                           {step.id === 'freshness' && <Leaf size={14} />}
+                           {step.id === 'volume' && <Scale size={14} />}
                            {step.id === 'audit' && <Search size={14} />}
                            {step.id === 'rescan' && <Sparkles size={14} />}
                            {step.id === 'fuse' && <Database size={14} />}
@@ -156,6 +464,12 @@ const Analyzer: React.FC<AnalyzerProps> = ({ onComplete }) => {
                      </div>
                    ))}
                 </div>
+
+                <div className="flex justify-center mt-12">
+                  <button onClick={handleCancel} className="px-8 py-3 rounded-full border border-black/[0.06] text-[8px] uppercase tracking-[0.3em] font-bold text-black/30 hover:text-black transition-all">
+                    Cancel Scan
+                  </button>
+                </div>
               </div>
             </motion.div>
           </motion.div>
@@ -1,28 +1,46 @@
 
-import React from 'react';
-import { Ingredient, NeuralProtocol } from '../types';
+import React, { useState } from 'react';
+import { Ingredient, NeuralProtocol, NutrientTotals, PantrySession, ProtocolLogEntry } from '../types';
+import { VerificationOutcome, recordVerification } from '../services/calibrationService';
+import { createManualIngredient, findDuplicates, mergeInInventory, renameFreeText, renameToEntry } from '../services/inventoryService';
+import { AnalyticsPeriod, aggregateImpact, categoryBreakdown, periodWindowStart, rescueStreak, totalImpact } from '../services/analyticsService';
+import { dailyProgress } from '../services/nutritionService';
+import IngredientEditor, { IngredientEdit } from './IngredientEditor';
 import { BarChart, Bar, ResponsiveContainer, Tooltip, Cell, XAxis, PieChart, Pie } from 'recharts';
 import { motion } from 'framer-motion';
-import { AlertTriangle, Plus, ShieldCheck, Sun, Eye, PieChart as PieChartIcon } from 'lucide-react';
+import { AlertTriangle, Plus, ShieldCheck, Sun, Eye, Check, X, Pencil, Merge, History, Flame, PieChart as PieChartIcon } from 'lucide-react';
 
 interface DashboardProps {
   inventory: Ingredient[];
   protocol: NeuralProtocol | null;
+  history: PantrySession[]; // Newest first
+  protocolLog: ProtocolLogEntry[]; // Completed protocols, oldest first
+  dailyTargets: NutrientTotals;
+  onVerify: (id: string, outcome: VerificationOutcome) => void;
+  onUpdateInventory: (inventory: Ingredient[]) => void;
   onSynthesize: () => void;
   onAddMore: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ inventory, protocol, onSynthesize, onAddMore }) => {
-  const wasteData = [
-    { name: 'M', rescued: 12 }, { name: 'T', rescued: 8 }, { name: 'W', rescued: 25 },
-    { name: 'T', rescued: 15 }, { name: 'F', rescued: 42 }, { name: 'S', rescued: 30 }, { name: 'S', rescued: 18 },
-  ];
+const Dashboard: React.FC<DashboardProps> = ({ inventory, protocol, history, protocolLog, dailyTargets, onVerify, onUpdateInventory, onSynthesize, onAddMore }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [period, setPeriod] = useState<AnalyticsPeriod>('day');
+  const duplicates = findDuplicates(inventory);
 
-  const macroData = protocol ? [
-    { name: 'Protein', value: protocol.nutrition.protein, color: '#C5A028' },
-    { name: 'Carbs', value: protocol.nutrition.carbs, color: '#E2E4EB' },
-    { name: 'Fat', value: protocol.nutrition.fat, color: '#0A0A0B' },
+  const wasteData = aggregateImpact(protocolLog, period);
+  const peakRescue = Math.max(...wasteData.map(b => b.wasteAvoidedGrams));
+  const lifetime = totalImpact(protocolLog);
+  const streak = rescueStreak(protocolLog);
+  const categories = categoryBreakdown(protocolLog, periodWindowStart(period)).slice(0, 4);
+
+  const serving = protocol?.nutrition.perServing;
+  const macroData = serving ? [
+    { name: 'Protein', value: serving.protein, color: '#C5A028' },
+    { name: 'Carbs', value: serving.carbs, color: '#E2E4EB' },
+    { name: 'Fat', value: serving.fat, color: '#0A0A0B' },
   ] : [];
+  const targetProgress = serving ? dailyProgress(serving, dailyTargets).filter(p => p.key !== 'calories') : [];
 
   const getHumilityPrefix = (confidence: number) => {
     if (confidence >= 0.7) return "";
@@ -30,10 +48,38 @@ const Dashboard: React.FC<DashboardProps> = ({ inventory, protocol, onSynthesize
     return "Potential ";
   };
 
+  const formatExpiry = (days: number) => (days === 0 ? 'Today' : days === 1 ? '1 day' : `${days} days`);
+  const formatDate = (at: number) => new Date(at).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
   const scanQuality = inventory.length > 0 
     ? inventory.every(i => i.confidence > 0.6) ? 'OPTIMAL' : 'LIMITED'
     : 'IDLE';
 
+  const handleEdit = (item: Ingredient, edit: IngredientEdit) => {
+    const renamed = edit.entry ? edit.entry.id !== item.catalogueId : edit.name !== item.name;
+    let next = renamed ? (edit.entry ? renameToEntry(item, edit.entry) : renameFreeText(item, edit.name)) : item;
+
+    // A rename means the detector named the class wrongly; learn from it once
+    if (renamed && item.detectorLabel && edit.entry?.id !== item.detectorLabel) {
+      recordVerification(item, 'dismissed');
+      next = { ...next, sourceModel: undefined, sourceModelVersion: undefined, detectorLabel: undefined, detectorScore: undefined };
+    }
+
+    next = {
+      ...next,
+      mass_grams: Math.round(edit.mass),
+      mass_range_grams: edit.mass === item.mass_grams ? item.mass_range_grams : undefined,
+      expires_in_days: edit.expiresInDays
+    };
+    onUpdateInventory(inventory.map(i => (i.id === item.id ? next : i)));
+    setEditingId(null);
+  };
+
+  const handleAdd = (edit: IngredientEdit) => {
+    onUpdateInventory([...inventory, createManualIngredient(edit.entry, edit.name, edit.mass, edit.expiresInDays)]);
+    setIsAdding(false);
+  };
+
   // Dynamic Layout Logic
   const isHighDensity = inventory.length > 8;
   const gridCols = isHighDensity ? "grid-cols-1 md:grid-cols-2 xl:grid-cols-3" : "grid-cols-1 md:grid-cols-2";
@@ -121,30 +167,123 @@ const Dashboard: React.FC<DashboardProps> = ({ inventory, protocol, onSynthesize
               </div>
               <div className="flex justify-between items-center pt-6 border-t border-black/[0.03] px-1">
                  <div>
-                    <p className="text-4xl font-bold tracking-tighter text-[#0A0A0B]">{protocol.nutrition.calories}</p>
-                    <p className="text-[9px] uppercase tracking-[0.2em] text-black/40 font-bold">Net kcal</p>
+                    <p className="text-4xl font-bold tracking-tighter text-[#0A0A0B]">{protocol.nutrition.perServing.calories}</p>
+                    <p className="text-[9px] uppercase tracking-[0.2em] text-black/40 font-bold">kcal per serving · {Math.round((100 * protocol.nutrition.perServing.calories) / dailyTargets.calories)}% of target</p>
+                 </div>
+                 <div className="px-4 py-1.5 bg-black/[0.02] rounded-full text-[9px] font-bold uppercase tracking-[0.15em] text-[#C5A028]">
+                    Serves {protocol.nutrition.servings}
                  </div>
-                 <div className="px-4 py-1.5 bg-black/[0.02] rounded-full text-[9px] font-bold uppercase tracking-[0.15em] text-[#C5A028]">Bio-Mapped</div>
               </div>
+              <div className="grid grid-cols-2 gap-x-6 gap-y-3 pt-6 px-1">
+                 {targetProgress.map(p => (
+                   <div key={p.key} className="space-y-1">
+                      <div className="flex justify-between text-[8px] uppercase tracking-[0.15em] font-bold">
+                         <span className="text-black/40">{p.label}</span>
+                         <span className={p.key === 'sodium' && p.percent > 100 ? 'text-rose-600' : 'text-black/60'}>{p.amount}{p.unit} · {p.percent}%</span>
+                      </div>
+                      <div className="h-1 rounded-full bg-black/[0.03] overflow-hidden">
+                         <div className={`h-full rounded-full ${p.key === 'sodium' && p.percent > 100 ? 'bg-rose-500' : 'bg-[#C5A028]'}`} style={{ width: `${Math.min(100, p.percent)}%` }} />
+                      </div>
+                   </div>
+                 ))}
+              </div>
+              {protocol.nutrition.estimated.length > 0 && (
+                <p className="pt-4 px-1 text-[8px] text-black/30 leading-snug">Estimated amounts for {protocol.nutrition.estimated.join(', ')}.</p>
+              )}
             </motion.section>
           )}
 
           <section className="bg-white p-8 md:p-10 rounded-[2.5rem] border border-black/[0.03] shadow-sm">
-            <h3 className="text-[10px] uppercase tracking-[0.4em] text-black/50 mb-8 font-bold">Waste Minimization</h3>
+            <div className="flex justify-between items-start mb-8">
+              <h3 className="text-[10px] uppercase tracking-[0.4em] text-black/50 font-bold">Waste Minimization</h3>
+              <div className="flex gap-1">
+                {(['day', 'week', 'month'] as AnalyticsPeriod[]).map(p => (
+                  <button
+                    key={p}
+                    onClick={() => setPeriod(p)}
+                    className={`px-2.5 py-1 rounded-full text-[8px] uppercase tracking-[0.15em] font-bold transition-all ${period === p ? 'bg-[#0A0A0B] text-white' : 'text-black/30 hover:text-black'}`}
+                  >
+                    {p.charAt(0)}
+                  </button>
+                ))}
+              </div>
+            </div>
             <div className="h-40">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={wasteData}>
-                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{fontSize: 9, fill: '#0A0A0B', opacity: 0.5, fontWeight: 700}} dy={10} />
-                  <Bar dataKey="rescued" radius={[4, 4, 4, 4]} barSize={10}>
+                  <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{fontSize: 9, fill: '#0A0A0B', opacity: 0.5, fontWeight: 700}} dy={10} />
+                  <Tooltip 
+                    formatter={(value: number) => [`${value}g`, 'Rescued']}
+                    contentStyle={{borderRadius: '20px', border: 'none', boxShadow: '0 10px 30px rgba(0,0,0,0.05)', fontSize: '11px', fontWeight: 'bold'}}
+                  />
+                  <Bar dataKey="wasteAvoidedGrams" radius={[4, 4, 4, 4]} barSize={10}>
                     {wasteData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={entry.rescued > 30 ? '#C5A028' : '#F5F5F7'} />
+                      <Cell key={`cell-${index}`} fill={entry.wasteAvoidedGrams > 0 && entry.wasteAvoidedGrams === peakRescue ? '#C5A028' : '#F5F5F7'} />
                     ))}
                   </Bar>
                 </BarChart>
               </ResponsiveContainer>
             </div>
+            <div className="grid grid-cols-4 gap-3 pt-6 mt-4 border-t border-black/[0.03]">
+              {[
+                { value: `${lifetime.wasteAvoidedGrams}`, unit: 'g rescued' },
+                { value: `${lifetime.co2SavedKg}`, unit: 'kg CO2e' },
+                { value: `${lifetime.waterSavedLitres}`, unit: 'L water' },
+                { value: `${streak.current}`, unit: 'day streak', lit: streak.current > 0 }
+              ].map(tile => (
+                <div key={tile.unit}>
+                  <p className="text-xl font-bold tracking-tighter text-[#0A0A0B] flex items-center gap-1">
+                    {tile.value}
+                    {tile.lit && <Flame size={12} className="text-[#C5A028]" />}
+                  </p>
+                  <p className="text-[8px] uppercase tracking-[0.15em] text-black/40 font-bold">{tile.unit}</p>
+                </div>
+              ))}
+            </div>
+            {streak.longest > streak.current && (
+              <p className="text-[9px] text-black/40 font-medium mt-3">Longest streak: {streak.longest} days</p>
+            )}
+            {categories.length > 0 && (
+              <div className="space-y-3 pt-6 mt-6 border-t border-black/[0.03]">
+                {categories.map(c => (
+                  <div key={c.category} className="space-y-1.5">
+                    <div className="flex justify-between items-center text-[9px] uppercase font-bold tracking-[0.2em] text-black/50">
+                      <span>{c.category}</span>
+                      <span className="text-black/30">{c.wasteAvoidedGrams}g · {c.co2SavedKg}kg · {c.waterSavedLitres}L</span>
+                    </div>
+                    <div className="h-[2px] bg-black/[0.03] rounded-full overflow-hidden">
+                      <div className="h-full bg-[#C5A028]/50" style={{ width: `${(c.wasteAvoidedGrams / categories[0].wasteAvoidedGrams) * 100}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </section>
 
+          {history.length > 0 && (
+            <section className="bg-white p-8 md:p-10 rounded-[2.5rem] border border-black/[0.03] shadow-sm">
+              <div className="flex justify-between items-start mb-6">
+                 <h3 className="text-[10px] uppercase tracking-[0.4em] text-black/50 font-bold">Pantry Log</h3>
+                 <History className="text-[#C5A028]/60" size={14} />
+              </div>
+              <div className="space-y-4">
+                {history.slice(0, 6).map(session => (
+                  <div key={session.id} className="flex justify-between items-start gap-4">
+                    <div className="min-w-0">
+                      <p className="text-[11px] font-bold uppercase tracking-[0.1em] text-black/80 truncate">
+                        {session.kind === 'scan' ? `Scanned ${session.items.length} items` : session.title || 'Protocol cooked'}
+                      </p>
+                      <p className="text-[10px] text-black/50 font-medium tracking-tight truncate">
+                        {session.kind === 'cooked' ? 'Used ' : ''}{session.items.map(i => i.name).join(', ') || 'No pantry items'}
+                      </p>
+                    </div>
+                    <span className="mono text-[9px] text-black/30 uppercase tracking-[0.15em] font-bold shrink-0">{formatDate(session.at)}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
           <motion.button 
             whileHover={{ y: -3 }}
             whileTap={{ scale: 0.99 }}
@@ -163,22 +302,51 @@ const Dashboard: React.FC<DashboardProps> = ({ inventory, protocol, onSynthesize
               <span className="text-[10px] uppercase tracking-[0.5em] font-bold text-[#C5A028] mb-2 block">Molecular Ledger</span>
               <h2 className="text-5xl md:text-6xl font-bold tracking-tighter text-[#0A0A0B]">Inventory <span className="serif italic text-[#C5A028] font-normal">Manifest</span></h2>
             </div>
-            <button 
-              onClick={onAddMore}
-              className="px-8 py-3.5 bg-white/80 backdrop-blur-md border border-black/[0.08] rounded-full text-[10px] uppercase tracking-[0.3em] font-bold hover:bg-[#0A0A0B] hover:text-white transition-all shadow-sm"
-            >
-              Inject Material
-            </button>
+            <div className="flex gap-3">
+              <button 
+                onClick={() => { setIsAdding(true); setEditingId(null); }}
+                className="px-8 py-3.5 bg-white/80 backdrop-blur-md border border-black/[0.08] rounded-full text-[10px] uppercase tracking-[0.3em] font-bold hover:bg-[#0A0A0B] hover:text-white transition-all shadow-sm"
+              >
+                Add Manually
+              </button>
+              <button 
+                onClick={onAddMore}
+                className="px-8 py-3.5 bg-white/80 backdrop-blur-md border border-black/[0.08] rounded-full text-[10px] uppercase tracking-[0.3em] font-bold hover:bg-[#0A0A0B] hover:text-white transition-all shadow-sm"
+              >
+                Inject Material
+              </button>
+            </div>
           </div>
 
+          {duplicates.length > 0 && (
+            <div className="mb-8 flex flex-wrap gap-3">
+              {duplicates.map(group => (
+                <button
+                  key={group.map(i => i.id).join('-')}
+                  onClick={() => onUpdateInventory(mergeInInventory(inventory, group.map(i => i.id)))}
+                  className="px-5 py-2.5 rounded-full bg-amber-50 border border-amber-100 text-[9px] uppercase tracking-[0.2em] font-bold text-amber-800 hover:bg-amber-100 transition-all flex items-center gap-2"
+                >
+                  <Merge size={12} /> Merge {group.length}× {group[0].name}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div className={`grid ${gridCols} gap-6 md:gap-8`}>
+            {isAdding && (
+              <div className={`bg-white ${cardPadding} rounded-[2.5rem] border border-[#C5A028]/30 shadow-sm`}>
+                <IngredientEditor onSave={handleAdd} onCancel={() => setIsAdding(false)} />
+              </div>
+            )}
             {inventory.length > 0 ? inventory.map((item, i) => (
               <motion.div 
                 key={item.id} 
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: i * 0.04, duration: 0.8, ease: [0.16, 1, 0.3, 1] }}
-                className={`bg-white ${cardPadding} rounded-[2.5rem] border border-black/[0.03] shadow-sm hover:shadow-md transition-all duration-700 group relative overflow-hidden`}
+                className={`bg-white ${cardPadding} rounded-[2.5rem] border shadow-sm hover:shadow-md transition-all duration-700 group relative overflow-hidden ${
+                  item.verificationStatus === 'confirmed' ? 'border-emerald-600/20' : 'border-black/[0.03]'
+                } ${item.verificationStatus === 'dismissed' ? 'opacity-40' : ''}`}
               >
                 <div className="flex justify-between items-start mb-6">
                   <div>
@@ -187,29 +355,93 @@ const Dashboard: React.FC<DashboardProps> = ({ inventory, protocol, onSynthesize
                     </h4>
                     <span className="mono text-[9px] text-black/40 uppercase tracking-[0.15em] font-bold italic">{item.scientificName}</span>
                   </div>
-                  {item.expires_in_days <= 2 && (
-                    <div className="w-8 h-8 rounded-full bg-rose-50 flex items-center justify-center">
-                       <AlertTriangle size={12} className="text-rose-600/60" />
-                    </div>
-                  )}
+                  <div className="flex items-center gap-2">
+                    {item.expires_in_days <= 2 && (
+                      <div className="w-8 h-8 rounded-full bg-rose-50 flex items-center justify-center">
+                         <AlertTriangle size={12} className="text-rose-600/60" />
+                      </div>
+                    )}
+                    <button
+                      onClick={() => { setEditingId(item.id); setIsAdding(false); }}
+                      title="Edit item"
+                      className="w-8 h-8 rounded-full flex items-center justify-center transition-all bg-black/[0.02] text-black/30 hover:text-[#C5A028]"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={() => onVerify(item.id, 'confirmed')}
+                      title="Confirm item"
+                      className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${
+                        item.verificationStatus === 'confirmed' ? 'bg-emerald-50 text-emerald-700' : 'bg-black/[0.02] text-black/30 hover:text-emerald-700'
+                      }`}
+                    >
+                      <Check size={12} />
+                    </button>
+                    <button
+                      onClick={() => onVerify(item.id, 'dismissed')}
+                      title="Not in my kitchen"
+                      className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${
+                        item.verificationStatus === 'dismissed' ? 'bg-rose-50 text-rose-700' : 'bg-black/[0.02] text-black/30 hover:text-rose-700'
+                      }`}
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
                 </div>
 
-                <div className="space-y-4">
-                  <div className="h-[2px] bg-black/[0.03] rounded-full overflow-hidden">
-                    <motion.div 
-                      initial={{ width: 0 }}
-                      animate={{ width: `${item.vitality_score}%` }}
-                      transition={{ duration: 2, ease: [0.16, 1, 0.3, 1] }}
-                      className={`h-full transition-all duration-1000 ${item.vitality_score < 40 ? 'bg-rose-500/50' : 'bg-[#C5A028]/50'}`}
-                    />
-                  </div>
-                  <div className="flex justify-between items-center text-[9px] uppercase font-bold tracking-[0.3em] text-black/40">
-                    <span>Vitality</span>
-                    <span>{item.vitality_score}%</span>
+                {editingId === item.id ? (
+                  <IngredientEditor initial={item} onSave={edit => handleEdit(item, edit)} onCancel={() => setEditingId(null)} />
+                ) : (
+                  <div className="space-y-4">
+                    <div className="h-[2px] bg-black/[0.03] rounded-full overflow-hidden">
+                      <motion.div 
+                        initial={{ width: 0 }}
+                        animate={{ width: `${item.vitality_score}%` }}
+                        transition={{ duration: 2, ease: [0.16, 1, 0.3, 1] }}
+                        className={`h-full transition-all duration-1000 ${item.vitality_score < 40 ? 'bg-rose-500/50' : 'bg-[#C5A028]/50'}`}
+                      />
+                    </div>
+                    <div className="flex justify-between items-center text-[9px] uppercase font-bold tracking-[0.3em] text-black/40">
+                      <span>Mass</span>
+                      <span>
+                        {item.mass_grams}g
+                        {item.mass_range_grams && <span className="text-black/25"> ({item.mass_range_grams[0]}–{item.mass_range_grams[1]}g)</span>}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center text-[9px] uppercase font-bold tracking-[0.3em] text-black/40">
+                      <span>Vitality</span>
+                      <span>{item.vitality_score}%</span>
+                    </div>
+                    <div className={`flex justify-between items-center text-[9px] uppercase font-bold tracking-[0.3em] ${item.expires_in_days <= 2 ? 'text-rose-700/60' : 'text-black/40'}`}>
+                      <span>Expires</span>
+                      <span>{formatExpiry(item.expires_in_days)}</span>
+                    </div>
+                    {item.scannedAt !== undefined && (
+                      <div className="flex justify-between items-center text-[9px] uppercase font-bold tracking-[0.3em] text-black/40">
+                        <span>Stocked</span>
+                        <span>{formatDate(item.scannedAt)}</span>
+                      </div>
+                    )}
+                    {item.seenInFrames !== undefined && item.seenInFrames > 1 && (
+                      <div className="flex justify-between items-center text-[9px] uppercase font-bold tracking-[0.3em] text-black/40">
+                        <span>Evidence</span>
+                        <span>Seen in {item.seenInFrames} frames</span>
+                      </div>
+                    )}
+                    {item.vitality_note && (
+                      <p className="text-[10px] text-black/40 font-medium leading-snug">{item.vitality_note}</p>
+                    )}
+                    {item.flavorNodes && item.flavorNodes.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {item.flavorNodes.map(node => (
+                          <span key={node} className="px-2 py-0.5 rounded-full bg-[#C5A028]/10 text-[8px] uppercase tracking-[0.15em] font-bold text-[#C5A028]">{node}</span>
+                        ))}
+                      </div>
+                    )}
                   </div>
-                </div>
+                )}
               </motion.div>
-            )) : (
+            )) : !isAdding && (
               <div className="col-span-full py-32 flex flex-col items-center justify-center bg-white rounded-[3rem] border border-dashed border-black/[0.08]">
                 <p className="text-2xl font-light text-black/30 italic serif mb-8">Manifest currently void.</p>
                 <motion.button 
@@ -1,20 +1,31 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { NeuralProtocol, ChatMessage } from '../types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { NeuralProtocol, ChatMessage, Ingredient, UserPreferences } from '../types';
 import { synthesizeVoiceInstruction, verifyTechnique, askSousChef } from '../services/geminiService';
+import { allergenLabel, findAllergens } from '../knowledge/allergens';
+import { findMentions } from '../knowledge/matcher';
+import SubstitutionPicker from './SubstitutionPicker';
+import ServingsControl from './ServingsControl';
+import { scaleProtocol } from '../services/scalingService';
+import { clampServings } from '../services/nutritionService';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   ChevronLeft, ChevronRight, Volume2, Camera, X, Trophy, 
   CheckCircle2, Sparkles, AlertCircle, 
-  Play, Pause, RotateCcw, Target, MessageSquare, Send, Loader2, ArrowRight
+  Play, Pause, RotateCcw, Target, MessageSquare, Send, Loader2, ArrowRight, ShieldAlert
 } from 'lucide-react';
 
 interface ExecutionModeProps {
-  protocol: NeuralProtocol;
-  onComplete: () => void;
+  protocol: NeuralProtocol; // As synthesised; every servings change scales from it
+  servings: number; // Chosen before cooking
+  preferences: UserPreferences;
+  inventory: Ingredient[];
+  onComplete: (protocol: NeuralProtocol) => void; // The protocol as cooked, at the chosen servings
 }
 
-const ExecutionMode: React.FC<ExecutionModeProps> = ({ protocol, onComplete }) => {
+const ExecutionMode: React.FC<ExecutionModeProps> = ({ protocol: baseProtocol, servings: initialServings, preferences, inventory, onComplete }) => {
+  const [servings, setServings] = useState(initialServings);
+  const { protocol, shortfalls } = useMemo(() => scaleProtocol(baseProtocol, servings, inventory), [baseProtocol, servings, inventory]);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
@@ -28,6 +39,7 @@ const ExecutionMode: React.FC<ExecutionModeProps> = ({ protocol, onComplete }) =
   // Timer States
   const [timeLeft, setTimeLeft] = useState<number>(0);
   const [isTimerRunning, setIsTimerRunning] = useState(false);
+  const timerSecondsRef = useRef(0); // Duration timeLeft is counting down from
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -38,16 +50,26 @@ const ExecutionMode: React.FC<ExecutionModeProps> = ({ protocol, onComplete }) =
   
   const currentStep = protocol.instructions[currentStepIndex];
 
+  // Scanned live so allergies added since synthesis still warn; fusion's flags cover hidden sources it saw
+  const stepAllergens = [
+    ...findAllergens(currentStep.instruction, preferences.allergies).map(hit => ({ allergen: allergenLabel(hit), source: hit.source })),
+    ...(protocol.allergenWarnings || []).filter(w => w.step === currentStep.order)
+  ].filter((w, i, all) => all.findIndex(o => o.allergen === w.allergen) === i);
+
   useEffect(() => {
-    if (currentStep.timer_seconds) {
-      setTimeLeft(currentStep.timer_seconds);
-      setIsTimerRunning(false);
-    } else {
-      setTimeLeft(0);
-      setIsTimerRunning(false);
-    }
+    timerSecondsRef.current = currentStep.timer_seconds || 0;
+    setTimeLeft(timerSecondsRef.current);
+    setIsTimerRunning(false);
     setVerificationResult(null);
-  }, [currentStepIndex, currentStep.timer_seconds]);
+  }, [currentStepIndex]);
+
+  // A servings change retimes the step by the difference, keeping the time already counted down
+  useEffect(() => {
+    const seconds = currentStep.timer_seconds || 0;
+    const delta = seconds - timerSecondsRef.current;
+    timerSecondsRef.current = seconds;
+    if (delta !== 0) setTimeLeft(prev => Math.max(0, prev + delta));
+  }, [currentStep.timer_seconds]);
 
   useEffect(() => {
     let interval: number;
@@ -189,7 +211,7 @@ const ExecutionMode: React.FC<ExecutionModeProps> = ({ protocol, onComplete }) =
               <h2 className="text-5xl font-bold tracking-tighter text-[#0A0A0B]">Sequence <span className="serif italic text-[#C5A028] font-normal">Finalized</span></h2>
               <p className="text-[10px] uppercase tracking-[0.4em] font-bold text-black/30">Culinary Intelligence sequence complete</p>
            </div>
-           <button onClick={onComplete} className="px-10 py-4 bg-[#0A0A0B] text-white rounded-full font-bold text-[9px] uppercase tracking-[0.3em] shadow-lg hover:bg-[#C5A028] transition-all">Archive Study</button>
+           <button onClick={() => onComplete(protocol)} className="px-10 py-4 bg-[#0A0A0B] text-white rounded-full font-bold text-[9px] uppercase tracking-[0.3em] shadow-lg hover:bg-[#C5A028] transition-all">Archive Study</button>
         </motion.div>
       </div>
     );
@@ -254,6 +276,14 @@ const ExecutionMode: React.FC<ExecutionModeProps> = ({ protocol, onComplete }) =
              className="w-full min-h-[250px] flex flex-col items-center justify-center gap-6"
            >
               <div className="space-y-4">
+                 {stepAllergens.length > 0 && (
+                   <div className="mx-auto max-w-2xl px-6 py-4 rounded-2xl bg-rose-600 text-white flex items-center justify-center gap-3 shadow-lg">
+                      <ShieldAlert size={18} className="shrink-0" />
+                      <span className="text-[11px] font-bold uppercase tracking-[0.2em]">
+                        Allergen: {stepAllergens.map(w => `${w.allergen} (${w.source})`).join(', ')}
+                      </span>
+                   </div>
+                 )}
                  <div className="flex items-center justify-center gap-2">
                     <Target size={11} className="text-[#C5A028] opacity-60" />
                     <span className="text-[9px] uppercase tracking-[0.4em] font-bold text-[#C5A028]">Phase {currentStepIndex + 1} // {currentStep.technique}</span>
@@ -261,6 +291,24 @@ const ExecutionMode: React.FC<ExecutionModeProps> = ({ protocol, onComplete }) =
                  <h2 className={`${instructionFontSize} font-bold tracking-tighter leading-tight text-[#0A0A0B] serif italic transition-all duration-500 max-w-3xl mx-auto`}>
                     {currentStep.instruction}
                  </h2>
+                 {currentStep.quantities && currentStep.quantities.length > 0 && (
+                   <div className="flex flex-wrap justify-center gap-2">
+                     {currentStep.quantities.map(q => (
+                       <span key={q.ingredient} className="px-3 py-1 rounded-full bg-[#C5A028]/10 text-[9px] uppercase tracking-[0.15em] font-bold text-[#C5A028]">
+                         <span className="mono">{q.grams} g</span> {q.ingredient}
+                       </span>
+                     ))}
+                   </div>
+                 )}
+                 <div className="max-w-xl mx-auto pt-2">
+                    <SubstitutionPicker
+                      key={currentStepIndex}
+                      ingredients={findMentions(currentStep.instruction).map(entry => entry.name)}
+                      step={currentStep.instruction}
+                      inventory={inventory}
+                      preferences={{ ...preferences, dietary: protocol.dietary || preferences.dietary }}
+                    />
+                 </div>
                  {verificationResult && (
                    <div className={`mt-6 inline-flex items-center gap-2 px-5 py-2 rounded-full border text-[9px] font-bold uppercase tracking-[0.3em] ${verificationResult.success ? 'bg-emerald-50/50 border-emerald-100 text-emerald-700/70' : 'bg-amber-50/50 border-amber-100 text-amber-700/70'}`}>
                       {verificationResult.success ? <CheckCircle2 size={14} /> : <AlertCircle size={14} />}
@@ -306,6 +354,10 @@ const ExecutionMode: React.FC<ExecutionModeProps> = ({ protocol, onComplete }) =
            </motion.div>
          </AnimatePresence>
          
+         <div className="flex justify-center max-w-md">
+            <ServingsControl servings={protocol.servings} shortfalls={shortfalls} onChange={next => setServings(clampServings(next))} dark={false} />
+         </div>
+
          {/* Refined Navigation Cluster */}
          <div className="flex items-center justify-center gap-6 pt-6">
             <button onClick={() => setIsChatOpen(!isChatOpen)} className={`w-12 h-12 rounded-2xl border border-black/[0.04] flex items-center justify-center transition-all ${isChatOpen ? 'bg-[#0A0A0B] text-white shadow-lg' : 'bg-white hover:border-black/10'}`}><MessageSquare size={18} /></button>
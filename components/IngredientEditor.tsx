@@ -0,0 +1,118 @@
+
+import React, { useState } from 'react';
+import { Ingredient } from '../types';
+import { CatalogueEntry, getEntry } from '../knowledge/catalogue';
+import { matchIngredient, searchCatalogue } from '../knowledge/matcher';
+import { Check, X } from 'lucide-react';
+
+export interface IngredientEdit {
+  entry: CatalogueEntry | null; // Null when the name is not in the catalogue
+  name: string;
+  mass: number;
+  expiresInDays: number;
+}
+
+interface IngredientEditorProps {
+  initial?: Ingredient; // Omitted when adding a new item
+  onSave: (edit: IngredientEdit) => void;
+  onCancel: () => void;
+}
+
+const AUTO_MATCH_CONFIDENCE = 0.9; // Typed names this close resolve without picking a suggestion
+
+/**
+ * Inline form for renaming (to a catalogue entry or free text), re-weighing
+ * and re-dating an inventory item, or adding one by hand.
+ */
+const IngredientEditor: React.FC<IngredientEditorProps> = ({ initial, onSave, onCancel }) => {
+  const [name, setName] = useState(initial?.name || '');
+  const [picked, setPicked] = useState<CatalogueEntry | null>(initial?.catalogueId ? getEntry(initial.catalogueId) || null : null);
+  const [mass, setMass] = useState(String(initial?.mass_grams ?? 100));
+  const [expiry, setExpiry] = useState(initial ? String(initial.expires_in_days) : '');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  const suggestions = showSuggestions ? searchCatalogue(name) : [];
+
+  const resolveEntry = (): CatalogueEntry | null => {
+    if (picked && picked.name === name) return picked;
+    const match = matchIngredient(name);
+    return match && match.confidence >= AUTO_MATCH_CONFIDENCE ? match.entry : null;
+  };
+
+  const handlePick = (entry: CatalogueEntry) => {
+    setPicked(entry);
+    setName(entry.name);
+    if (!initial && !expiry) setExpiry(String(entry.shelfLifeDays));
+    setShowSuggestions(false);
+  };
+
+  const handleSave = () => {
+    const entry = resolveEntry();
+    const grams = Number(mass);
+    const days = Number(expiry);
+    if (!name.trim() || !(grams > 0)) return;
+    onSave({
+      entry,
+      name: name.trim(),
+      mass: grams,
+      expiresInDays: expiry.trim() !== '' && days >= 0 ? Math.round(days) : entry?.shelfLifeDays ?? 7
+    });
+  };
+
+  const inputClass = "w-full px-4 py-3 rounded-2xl bg-black/[0.02] border border-black/[0.06] text-sm font-bold text-[#0A0A0B] outline-none focus:border-[#C5A028]/50";
+  const labelClass = "text-[9px] uppercase font-bold tracking-[0.3em] text-black/40 mb-2 block";
+
+  return (
+    <div className="space-y-4" onKeyDown={e => { if (e.key === 'Escape') onCancel(); }}>
+      <div className="relative">
+        <label className={labelClass}>Ingredient</label>
+        <input
+          autoFocus
+          value={name}
+          onChange={e => { setName(e.target.value); setShowSuggestions(true); }}
+          onKeyDown={e => { if (e.key === 'Enter') handleSave(); }}
+          placeholder="e.g. Tomato, palak, scallion"
+          className={inputClass}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute z-10 left-0 right-0 mt-2 bg-white rounded-2xl border border-black/[0.06] shadow-lg overflow-hidden">
+            {suggestions.map(entry => (
+              <button
+                key={entry.id}
+                onClick={() => handlePick(entry)}
+                className="w-full px-4 py-3 text-left hover:bg-black/[0.02] flex justify-between items-center"
+              >
+                <span className="text-sm font-bold text-[#0A0A0B]">{entry.name}</span>
+                <span className="mono text-[9px] uppercase tracking-[0.15em] text-black/30">{entry.category}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Mass (g)</label>
+          <input type="number" min={1} value={mass} onChange={e => setMass(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Expires in (days)</label>
+          <input type="number" min={0} value={expiry} onChange={e => setExpiry(e.target.value)} placeholder="Shelf life" className={inputClass} />
+        </div>
+      </div>
+      <div className="flex gap-3 pt-2">
+        <button onClick={onCancel} className="flex-1 py-3 rounded-full border border-black/[0.08] text-[9px] uppercase tracking-[0.3em] font-bold text-black/40 hover:text-black transition-all flex items-center justify-center gap-2">
+          <X size={12} /> Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!name.trim() || !(Number(mass) > 0)}
+          className="flex-1 py-3 rounded-full bg-[#0A0A0B] text-white text-[9px] uppercase tracking-[0.3em] font-bold hover:bg-[#C5A028] transition-all flex items-center justify-center gap-2 disabled:opacity-30"
+        >
+          <Check size={12} /> Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IngredientEditor;
@@ -0,0 +1,190 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Detection } from '../types';
+import { runLiveDetection } from '../services/perceptionService';
+import { motion } from 'framer-motion';
+import { Aperture, X, AlertTriangle, Loader2 } from 'lucide-react';
+
+interface LiveViewfinderProps {
+  onCapture: (frame: Blob) => void;
+  onClose: () => void;
+}
+
+const SAMPLE_INTERVAL_MS = 600; // Minimum gap between sampled frames
+const LIVE_THRESHOLD = 0.35;
+
+/**
+ * Camera viewfinder that runs detection on sampled frames and draws the boxes live.
+ * Freezing stops sampling and hands the current still to the Analyzer for the
+ * full perception pass; sampling resumes if the still cannot be encoded.
+ */
+const LiveViewfinder: React.FC<LiveViewfinderProps> = ({ onCapture, onClose }) => {
+  const [detections, setDetections] = useState<Detection[]>([]);
+  const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(true);
+  const [fps, setFps] = useState(0);
+  const [isFrozen, setIsFrozen] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const samplingRef = useRef<AbortController | null>(null); // The running sample loop, if any
+
+  const sampleLoop = async (video: HTMLVideoElement, signal: AbortSignal) => {
+    while (!signal.aborted) {
+      const startedAt = performance.now();
+      if (video.readyState >= 2 && video.videoWidth > 0) {
+        const frame = await createImageBitmap(video);
+        const found = await runLiveDetection(frame, LIVE_THRESHOLD, signal);
+        setDetections(found);
+        const elapsed = performance.now() - startedAt;
+        setFps(Math.round(10000 / Math.max(elapsed, SAMPLE_INTERVAL_MS)) / 10);
+      }
+      const wait = Math.max(0, SAMPLE_INTERVAL_MS - (performance.now() - startedAt));
+      await new Promise(r => setTimeout(r, wait));
+    }
+  };
+
+  const startSampling = (video: HTMLVideoElement) => {
+    samplingRef.current?.abort();
+    const sampling = new AbortController();
+    samplingRef.current = sampling;
+    sampleLoop(video, sampling.signal).catch(err => {
+      if (err?.name !== 'AbortError') setError(err?.message || 'Live detection failed.');
+    });
+  };
+
+  const stopSampling = () => {
+    samplingRef.current?.abort();
+    samplingRef.current = null;
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let stream: MediaStream | null = null;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        const video = videoRef.current;
+        if (!video || controller.signal.aborted) {
+          // Unmounted while the camera was opening (StrictMode mounts twice): release it
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        video.srcObject = stream;
+        await video.play();
+        setFrameSize({ width: video.videoWidth, height: video.videoHeight });
+        setIsStarting(false);
+        startSampling(video);
+      } catch (err: any) {
+        if (err?.name === 'AbortError') return;
+        setIsStarting(false);
+        setError(err?.name === 'NotAllowedError' ? 'Camera access was denied.' : err?.message || 'Camera unavailable.');
+      }
+    };
+
+    start();
+    return () => {
+      controller.abort();
+      stopSampling();
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const resume = (video: HTMLVideoElement) => {
+    setIsFrozen(false);
+    video.play().catch(() => undefined);
+    startSampling(video);
+  };
+
+  const handleFreeze = () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || !video.videoWidth) return;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    stopSampling();
+    setIsFrozen(true);
+    ctx.drawImage(video, 0, 0);
+    video.pause();
+    canvas.toBlob(blob => (blob ? onCapture(blob) : resume(video)), 'image/jpeg', 0.92);
+  };
+
+  // Running manifest of what is currently in view
+  const counts = detections.reduce<Record<string, number>>((acc, d) => {
+    acc[d.label] = (acc[d.label] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 15 }} animate={{ opacity: 1, y: 0 }} className="w-full max-w-3xl flex flex-col items-center gap-6">
+      <div className="relative w-full rounded-[3rem] overflow-hidden shadow-xl bg-[#0A0A0B] aspect-video">
+        <video ref={videoRef} autoPlay muted playsInline className="w-full h-full object-contain block" />
+        {frameSize && (
+          <svg
+            viewBox={`0 0 ${frameSize.width} ${frameSize.height}`}
+            preserveAspectRatio="xMidYMid meet"
+            className="absolute inset-0 w-full h-full pointer-events-none"
+          >
+            {detections.map((d, i) => {
+              const [x1, y1, x2, y2] = d.bbox;
+              return (
+                <g key={`${d.label}-${i}`}>
+                  <rect x={x1} y={y1} width={x2 - x1} height={y2 - y1} fill="rgba(212, 175, 55, 0.08)" stroke="#D4AF37" strokeWidth={Math.max(2, frameSize.width / 320)} rx={6} />
+                  <text x={x1 + 4} y={Math.max(y1 - 6, 14)} fill="#D4AF37" fontSize={Math.max(14, frameSize.width / 50)} fontWeight={700}>
+                    {d.label} {Math.round(d.confidence * 100)}%
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        )}
+        {isStarting && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 size={20} className="text-[#D4AF37] animate-spin" />
+          </div>
+        )}
+        {!isStarting && !error && (
+          <span className="absolute top-6 right-8 mono text-[9px] font-bold text-white/40">{fps} fps</span>
+        )}
+      </div>
+
+      {error ? (
+        <div className="p-6 bg-rose-50 border border-rose-100 rounded-[2rem] flex items-center gap-5 text-rose-800 shadow-sm">
+          <AlertTriangle size={18} className="text-rose-500" />
+          <div className="text-[10px] font-bold uppercase tracking-widest">{error}</div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap justify-center gap-2 min-h-[2rem]">
+          {Object.entries(counts).map(([label, count]) => (
+            <span key={label} className="px-4 py-2 rounded-full bg-white border border-black/[0.06] text-[9px] font-bold uppercase tracking-[0.2em] text-black/60">
+              {label}{count > 1 && <span className="text-black/25"> ×{count}</span>}
+            </span>
+          ))}
+          {!isStarting && detections.length === 0 && (
+            <span className="text-[9px] uppercase tracking-[0.3em] font-bold text-black/25">Point the camera at your ingredients</span>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-4">
+        <button onClick={onClose} className="px-8 py-4 rounded-full border border-black/[0.08] text-[9px] uppercase tracking-[0.3em] font-bold text-black/40 hover:text-black transition-all flex items-center gap-3">
+          <X size={12} /> Close
+        </button>
+        <button
+          onClick={handleFreeze}
+          disabled={isStarting || isFrozen || !!error}
+          className="px-10 py-4 rounded-full bg-[#0A0A0B] text-white text-[9px] uppercase tracking-[0.3em] font-bold shadow-lg hover:bg-[#D4AF37] transition-all flex items-center gap-3 disabled:opacity-30"
+        >
+          <Aperture size={12} /> Freeze & Analyze
+        </button>
+      </div>
+
+      <canvas ref={canvasRef} className="hidden"></canvas>
+    </motion.div>
+  );
+};
+
+export default LiveViewfinder;
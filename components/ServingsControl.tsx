@@ -0,0 +1,49 @@
+
+import React from 'react';
+import { PantryShortfall } from '../services/scalingService';
+import { MAX_SERVINGS, MIN_SERVINGS } from '../services/nutritionService';
+import { Minus, Plus, AlertTriangle } from 'lucide-react';
+
+interface ServingsControlProps {
+  servings: number;
+  shortfalls: PantryShortfall[];
+  onChange: (servings: number) => void;
+  dark?: boolean; // Filled buttons; the execution screen uses the quieter outline
+}
+
+/**
+ * Servings stepper, with the pantry items the chosen batch runs short of.
+ */
+const ServingsControl: React.FC<ServingsControlProps> = ({ servings, shortfalls, onChange, dark = true }) => {
+  const buttonClass = `w-7 h-7 rounded-full flex items-center justify-center transition-all disabled:opacity-20 disabled:cursor-not-allowed ${
+    dark ? 'bg-[#0A0A0B] text-white hover:bg-[#C5A028]' : 'bg-black/[0.03] text-black/50 hover:bg-black/[0.08]'
+  }`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <span className="text-[8px] uppercase tracking-[0.3em] font-bold text-black/30">Servings</span>
+        <button onClick={() => onChange(servings - 1)} disabled={servings <= MIN_SERVINGS} className={buttonClass} aria-label="Fewer servings">
+          <Minus size={10} />
+        </button>
+        <span className="mono text-sm font-bold w-6 text-center text-[#0A0A0B]">{servings}</span>
+        <button onClick={() => onChange(servings + 1)} disabled={servings >= MAX_SERVINGS} className={buttonClass} aria-label="More servings">
+          <Plus size={10} />
+        </button>
+      </div>
+
+      {shortfalls.length > 0 && (
+        <div className="p-4 bg-amber-50 text-amber-700 rounded-2xl border border-amber-100 text-[10px] font-bold flex items-start gap-3 text-left">
+          <AlertTriangle size={14} className="shrink-0" />
+          <ul className="space-y-0.5">
+            {shortfalls.map(s => (
+              <li key={s.ingredient}>{s.ingredient}: needs {s.needed} g, pantry has {s.available} g</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServingsControl;
@@ -1,9 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import { UserPreferences } from '../types';
+import { NutrientTotals, UserPreferences } from '../types';
+import { DAILY_VALUES, NUTRIENT_KEYS, NUTRIENT_LABELS } from '../knowledge/nutrients';
 import { validateApiKey, ValidationResult } from '../services/geminiService';
 import { motion, AnimatePresence } from 'framer-motion';
-import { User, ShieldAlert, X, Loader2, Save, Trash2, Globe2, AlertCircle, Key, CheckCircle } from 'lucide-react';
+import { User, ShieldAlert, X, Loader2, Save, Trash2, Globe2, AlertCircle, Key, CheckCircle, Target } from 'lucide-react';
 import { STORAGE_KEYS, ERROR_MESSAGES } from '../constants';
 
 interface SettingsProps {
@@ -100,6 +101,13 @@ const Settings: React.FC<SettingsProps> = ({ preferences, onUpdate, onBack }) =>
     setLocalPrefs({ ...localPrefs, allergies: localPrefs.allergies.filter(x => x !== a) });
   };
 
+  // An empty field falls back to the reference daily value
+  const setTarget = (key: keyof NutrientTotals, value: string) => {
+    const { [key]: _, ...rest } = localPrefs.dailyTargets || {};
+    const amount = parseFloat(value);
+    setLocalPrefs({ ...localPrefs, dailyTargets: amount > 0 ? { ...rest, [key]: amount } : rest });
+  };
+
   return (
     <div className="min-h-screen pt-40 pb-20 px-6 md:px-12 lg:px-24 bg-white selection:bg-[#D4AF37]/30">
       <div className="max-w-6xl mx-auto">
@@ -167,6 +175,32 @@ const Settings: React.FC<SettingsProps> = ({ preferences, onUpdate, onBack }) =>
               </AnimatePresence>
             </section>
 
+            {/* Daily Targets Section */}
+            <section className="bg-white p-10 md:p-14 rounded-[3.5rem] border border-black/[0.06] shadow-sm space-y-10">
+              <div className="flex items-center gap-5">
+                <Target size={20} className="text-[#D4AF37]" />
+                <h3 className="text-[11px] uppercase tracking-[0.4em] font-bold text-black/50">Daily Targets</h3>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+                {NUTRIENT_KEYS.map(key => (
+                  <label key={key} className="space-y-2 block">
+                    <span className="text-[10px] uppercase tracking-widest font-bold text-black/50 block">
+                      {NUTRIENT_LABELS[key].label} <span className="text-black/30">({NUTRIENT_LABELS[key].unit})</span>
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={localPrefs.dailyTargets?.[key] ?? ''}
+                      onChange={(e) => setTarget(key, e.target.value)}
+                      placeholder={String(DAILY_VALUES[key])}
+                      className="w-full bg-black/[0.03] border border-black/[0.05] rounded-2xl px-5 py-3 text-sm font-bold placeholder:opacity-30 outline-none focus:border-[#D4AF37] transition-all"
+                    />
+                  </label>
+                ))}
+              </div>
+              <p className="text-[10px] text-black/40 leading-relaxed">Blank fields use the reference daily values. Protocol nutrition is shown per serving against these targets.</p>
+            </section>
+
             {/* AI Core Configuration Section */}
             <section className="bg-white p-10 md:p-14 rounded-[3.5rem] border border-black/[0.06] shadow-sm space-y-12">
               <div className="flex items-center gap-5">
@@ -0,0 +1,78 @@
+
+import React, { useState } from 'react';
+import { Ingredient, UserPreferences } from '../types';
+import { entryFor } from '../knowledge/catalogue';
+import { ROLE_LABELS } from '../knowledge/substitutions';
+import { findSubstitutions } from '../services/substitutionService';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Repeat, Check } from 'lucide-react';
+
+interface SubstitutionPickerProps {
+  ingredients: string[];
+  step?: string; // Instruction the ingredients are used in, when there is one
+  inventory: Ingredient[];
+  preferences: UserPreferences;
+}
+
+/**
+ * Ingredient chips that open the swaps for the chosen one, with converted
+ * amounts when the pantry says how much of the original there is.
+ */
+const SubstitutionPicker: React.FC<SubstitutionPickerProps> = ({ ingredients, step, inventory, preferences }) => {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const swappable = ingredients.filter(name => findSubstitutions(name, { step, inventory, preferences, limit: 1 }).length > 0);
+  if (swappable.length === 0) return null;
+
+  const owned = selected ? inventory.find(item => entryFor(item) && entryFor(item) === entryFor({ name: selected })) : undefined;
+  const swaps = selected && swappable.includes(selected)
+    ? findSubstitutions(selected, { step, inventory, preferences, grams: owned?.mass_grams })
+    : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[8px] uppercase tracking-[0.3em] font-bold flex items-center gap-1.5 text-black/30"><Repeat size={10} /> Swap</span>
+        {swappable.map(name => (
+          <button
+            key={name}
+            onClick={() => setSelected(selected === name ? null : name)}
+            className={`px-3 py-1 rounded-full text-[8px] uppercase tracking-[0.15em] font-bold transition-all ${
+              selected === name ? 'bg-[#0A0A0B] text-white' : 'bg-black/[0.03] text-black/50 hover:bg-black/[0.06]'
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      <AnimatePresence>
+        {swaps.length > 0 && (
+          <motion.ul initial={{ opacity: 0, y: -4 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="space-y-2 text-left">
+            {swaps.map(swap => (
+              <li key={swap.name} className="p-4 rounded-2xl bg-white border border-black/[0.04] shadow-sm">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="text-sm font-bold tracking-tight text-[#0A0A0B]">
+                    {swap.name}
+                    <span className="ml-2 text-[8px] uppercase tracking-[0.2em] text-[#C5A028]">{ROLE_LABELS[swap.role]}</span>
+                  </span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    {swap.inPantry && (
+                      <span className="flex items-center gap-1 text-[8px] uppercase tracking-[0.15em] font-bold text-emerald-700"><Check size={10} /> In pantry</span>
+                    )}
+                    <span className="mono text-[10px] font-bold text-black/50">
+                      {swap.amount !== undefined ? `${swap.amount} g` : `×${swap.ratio}`}
+                    </span>
+                  </span>
+                </div>
+                <p className="text-[10px] text-black/40 leading-snug mt-1">{swap.note}</p>
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default SubstitutionPicker;
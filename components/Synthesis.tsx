@@ -1,16 +1,21 @@
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { NeuralProtocol, Ingredient, UserPreferences, AnalysisStep } from '../types';
 import { synthesizeProtocol, generatePlatingVisual, generateDrinkVisual, generateIngredientVisual, generateSchematic, checkOnlineStatus, generateVisualBlueprint, VisualBlueprint } from '../services/geminiService';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, ShoppingCart, Wine, ChevronRight, LayoutTemplate, Sparkles, Check, Zap, ZapOff, Layers, Loader2, Droplets, Leaf, AlertTriangle, Eye } from 'lucide-react';
+import { ArrowLeft, ShoppingCart, Wine, ChevronRight, LayoutTemplate, Sparkles, Check, Zap, ZapOff, Layers, Loader2, Droplets, Leaf, AlertTriangle, Eye, ShieldAlert } from 'lucide-react';
 import { ERROR_MESSAGES } from '../constants';
+import SubstitutionPicker from './SubstitutionPicker';
+import ServingsControl from './ServingsControl';
+import { scaleProtocol } from '../services/scalingService';
+import { clampServings } from '../services/nutritionService';
 
 interface SynthesisProps {
   inventory: Ingredient[];
+  preferences: UserPreferences;
   onExecute: () => void;
   onBack: () => void;
-  onProtocolReady: (protocol: NeuralProtocol) => void;
+  onProtocolReady: (protocol: NeuralProtocol, servings: number) => void; // The protocol as synthesised, and the servings chosen for it
 }
 
 const CUISINES = [
@@ -32,12 +37,16 @@ const SYNTHESIS_STEPS: AnalysisStep[] = [
   { id: 'procurement', label: 'Procurement', status: 'pending' }
 ];
 
-const Synthesis: React.FC<SynthesisProps> = ({ inventory, onExecute, onBack, onProtocolReady }) => {
+const Synthesis: React.FC<SynthesisProps> = ({ inventory, preferences, onExecute, onBack, onProtocolReady }) => {
   const [phase, setPhase] = useState<'CALIBRATION' | 'VERIFICATION' | 'PROCESSING' | 'RESULTS'>('CALIBRATION');
   const [localInventory] = useState<Ingredient[]>(inventory);
-  const [selectedCuisine, setSelectedCuisine] = useState<string | null>(null);
-  const [dietary, setDietary] = useState<typeof DIETARY[number]>('None');
-  const [protocol, setProtocol] = useState<NeuralProtocol | null>(null);
+  const activeInventory = useMemo(() => localInventory.filter(i => i.verificationStatus !== 'dismissed'), [localInventory]);
+  const [selectedCuisine, setSelectedCuisine] = useState<string | null>(
+    CUISINES.find(c => c.name === preferences.cuisinePreference)?.name || null
+  );
+  const [dietary, setDietary] = useState<typeof DIETARY[number]>(preferences.dietary);
+  const [baseProtocol, setBaseProtocol] = useState<NeuralProtocol | null>(null);
+  const [servings, setServings] = useState(0);
   const [visualUrl, setVisualUrl] = useState<string | null>(null);
   const [drinkUrl, setDrinkUrl] = useState<string | null>(null);
   const [schematicUrl, setSchematicUrl] = useState<string | null>(null);
@@ -46,15 +55,29 @@ const Synthesis: React.FC<SynthesisProps> = ({ inventory, onExecute, onBack, onP
   const [statusLog, setStatusLog] = useState("Initializing Core...");
   const [steps, setSteps] = useState<AnalysisStep[]>(SYNTHESIS_STEPS);
   const [errorMessage, setErrorMessage] = useState('');
+  const [allergenAcknowledged, setAllergenAcknowledged] = useState(false);
   const isOnline = checkOnlineStatus();
 
+  const scaled = useMemo(
+    () => (baseProtocol ? scaleProtocol(baseProtocol, servings, activeInventory) : null),
+    [baseProtocol, servings, activeInventory]
+  );
+  const protocol = scaled?.protocol || null;
+
+  const handleServingsChange = (next: number) => {
+    if (!baseProtocol) return;
+    const chosen = clampServings(next);
+    setServings(chosen);
+    onProtocolReady(baseProtocol, chosen);
+  };
+
   const updateStep = (id: string, status: AnalysisStep['status']) => {
     setSteps(prev => prev.map(s => s.id === id ? { ...s, status } : s));
   };
 
   const handleStartSynthesis = async () => {
     // Check if inventory has items
-    if (localInventory.length === 0) {
+    if (activeInventory.length === 0) {
       setErrorMessage(`${ERROR_MESSAGES.ANALYZE_IMAGE_FIRST} to detect ingredients.`);
       return;
     }
@@ -67,18 +90,18 @@ const Synthesis: React.FC<SynthesisProps> = ({ inventory, onExecute, onBack, onP
     updateStep('manifest', 'active');
 
     const prefs: UserPreferences = {
+      ...preferences,
       dietary: dietary,
-      allergies: [],
-      cuisinePreference: selectedCuisine || 'Global Modern',
-      instamartSync: true,
-      highFidelityVisuals: true
+      cuisinePreference: selectedCuisine || 'Global Modern'
     };
 
     try {
       setStatusLog("Invoking Intelligence Node...");
       setProgress(20);
-      const generatedProtocol = await synthesizeProtocol(localInventory, prefs);
-      setProtocol(generatedProtocol);
+      const generatedProtocol = await synthesizeProtocol(activeInventory, prefs);
+      setBaseProtocol(generatedProtocol);
+      setServings(generatedProtocol.servings);
+      setAllergenAcknowledged(false);
       updateStep('manifest', 'complete');
       updateStep('plating', 'active');
       setProgress(40);
@@ -126,12 +149,16 @@ const Synthesis: React.FC<SynthesisProps> = ({ inventory, onExecute, onBack, onP
       updateStep('procurement', 'complete');
 
       setProgress(100);
-      onProtocolReady(generatedProtocol);
+      onProtocolReady(generatedProtocol, generatedProtocol.servings);
       setTimeout(() => setPhase('RESULTS'), 800);
     } catch (err: unknown) {
       const errorMsg = err instanceof Error ? err.message : '';
       if (errorMsg.includes(ERROR_MESSAGES.API_KEY_NOT_CONFIGURED)) {
         setErrorMessage(`${ERROR_MESSAGES.API_KEY_NOT_CONFIGURED}. Please add your API key in Settings.`);
+      } else if (errorMsg.includes(ERROR_MESSAGES.PREFERENCES_VIOLATED) || errorMsg.includes(ERROR_MESSAGES.NO_LOCAL_RECIPE)) {
+        setErrorMessage(errorMsg);
+      } else if (errorMsg.includes(ERROR_MESSAGES.PROTOCOL_INVALID)) {
+        setErrorMessage(`${errorMsg}. Please retry.`);
       } else {
         setErrorMessage(ERROR_MESSAGES.AI_SYNTHESIS_FAILED);
       }
@@ -186,6 +213,16 @@ const Synthesis: React.FC<SynthesisProps> = ({ inventory, onExecute, onBack, onP
                       ))}
                     </div>
                  </div>
+                 {preferences.allergies.length > 0 && (
+                   <div className="space-y-4">
+                      <h3 className="text-[9px] uppercase tracking-[0.4em] font-bold text-black/20">Allergen Exclusions</h3>
+                      <div className="flex flex-wrap gap-2">
+                        {preferences.allergies.map(a => (
+                          <span key={a} className="px-3 py-1.5 rounded-xl bg-rose-50 text-[8px] font-bold uppercase tracking-[0.15em] text-rose-700">{a}</span>
+                        ))}
+                      </div>
+                   </div>
+                 )}
               </div>
 
               <motion.button 
@@ -257,6 +294,7 @@ const Synthesis: React.FC<SynthesisProps> = ({ inventory, onExecute, onBack, onP
   }
 
   if (phase === 'RESULTS' && protocol) {
+    const isBlocked = protocol.substitutionRisk === 'BLOCKED' && !!protocol.allergenWarnings?.length;
     return (
       <div className="min-h-screen pt-28 pb-12 px-12 lg:px-24 max-w-[1600px] mx-auto overflow-hidden">
         {protocol.isOffline && (
@@ -269,6 +307,26 @@ const Synthesis: React.FC<SynthesisProps> = ({ inventory, onExecute, onBack, onP
           </motion.div>
         )}
 
+        {isBlocked && (
+          <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} className="mb-8 p-6 bg-rose-50 text-rose-800 rounded-3xl border border-rose-200 flex items-start gap-4 shadow-sm">
+            <div className="w-8 h-8 rounded-lg bg-rose-100 flex items-center justify-center shrink-0"><ShieldAlert size={14} /></div>
+            <div className="space-y-2 flex-1">
+              <h3 className="text-sm font-bold tracking-tight uppercase">Allergen Block</h3>
+              <ul className="space-y-1">
+                {protocol.allergenWarnings!.map((w, i) => (
+                  <li key={i} className="text-[10px] font-bold">
+                    {w.allergen} via {w.source}{w.step !== undefined ? ` (step ${w.step})` : ''}
+                  </li>
+                ))}
+              </ul>
+              <label className="flex items-center gap-2 pt-2 text-[9px] uppercase tracking-[0.2em] font-bold cursor-pointer">
+                <input type="checkbox" checked={allergenAcknowledged} onChange={e => setAllergenAcknowledged(e.target.checked)} />
+                I will substitute or omit these before cooking
+              </label>
+            </div>
+          </motion.div>
+        )}
+
         <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }} className="grid grid-cols-1 lg:grid-cols-12 gap-12 items-start">
           <div className="lg:col-span-7 space-y-10">
             <div className="relative aspect-video rounded-[3rem] overflow-hidden shadow-2xl bg-white border border-black/[0.015] flex items-center justify-center">
@@ -325,7 +383,12 @@ const Synthesis: React.FC<SynthesisProps> = ({ inventory, onExecute, onBack, onP
                   </div>
                   <div><p className="text-3xl font-bold tracking-tighter">{protocol.impactMetrics?.co2SavedKg}</p><p className="text-[7px] uppercase tracking-[0.2em] text-black/30 font-bold mt-0.5">kg CO2e</p></div>
                </div>
-               <motion.button onClick={onExecute} whileHover={{ y: -3 }} className="bg-[#0A0A0B] text-white rounded-[2.8rem] flex flex-col items-center justify-center gap-3 text-lg font-bold group shadow-xl h-36">
+               <motion.button
+                  onClick={onExecute}
+                  disabled={isBlocked && !allergenAcknowledged}
+                  whileHover={isBlocked && !allergenAcknowledged ? {} : { y: -3 }}
+                  className="bg-[#0A0A0B] text-white rounded-[2.8rem] flex flex-col items-center justify-center gap-3 text-lg font-bold group shadow-xl h-36 disabled:opacity-20 disabled:cursor-not-allowed"
+               >
                   <span>Execute</span><ChevronRight size={18} className="group-hover:translate-x-1 transition-transform text-[#C5A028]" />
                </motion.button>
             </div>
@@ -336,6 +399,32 @@ const Synthesis: React.FC<SynthesisProps> = ({ inventory, onExecute, onBack, onP
               <button onClick={() => setPhase('CALIBRATION')} className="flex items-center gap-2 text-[8px] uppercase tracking-[0.3em] text-[#C5A028] font-bold hover:opacity-60 transition-all"><ArrowLeft size={10} /> Re-Align</button>
               <h1 className="text-5xl font-bold tracking-tighter text-[#0A0A0B] leading-[0.9]">{protocol.title}</h1>
               <p className="text-lg text-black/40 italic serif leading-relaxed tracking-tight">{protocol.description}</p>
+              {protocol.rescuedItems && protocol.rescuedItems.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 pt-2">
+                  <span className="text-[8px] uppercase tracking-[0.3em] font-bold text-emerald-700/60 flex items-center gap-1.5"><Leaf size={10} /> Rescues</span>
+                  {protocol.rescuedItems.map(name => (
+                    <span key={name} className="px-3 py-1 rounded-full bg-emerald-50 text-[8px] uppercase tracking-[0.15em] font-bold text-emerald-800">{name}</span>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-2 pt-1">
+                <span className="text-[8px] uppercase tracking-[0.3em] font-bold text-[#C5A028] flex items-center gap-1.5"><Sparkles size={10} /> Affinity {protocol.molecularAffinity}%</span>
+                {protocol.pairingSuggestions?.map(s => (
+                  <span key={s.name} title={`Pairs with ${s.partner}${s.shared.length ? ` (${s.shared.join(', ')})` : ''}, +${s.gain}`} className="px-3 py-1 rounded-full bg-[#C5A028]/10 text-[8px] uppercase tracking-[0.15em] font-bold text-[#C5A028]">
+                    + {s.name} <span className="opacity-50">with {s.partner}</span>
+                  </span>
+                ))}
+              </div>
+              <div className="pt-2">
+                <ServingsControl servings={protocol.servings} shortfalls={scaled!.shortfalls} onChange={handleServingsChange} />
+              </div>
+              <div className="pt-2">
+                <SubstitutionPicker
+                  ingredients={[...protocol.ingredients_used, ...(protocol.missing_ingredients || [])]}
+                  inventory={activeInventory}
+                  preferences={{ ...preferences, dietary }}
+                />
+              </div>
             </div>
             
             <div className="space-y-6">
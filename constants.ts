@@ -13,4 +13,7 @@ export const ERROR_MESSAGES = {
   API_KEY_NOT_CONFIGURED: 'Gemini API key not configured',
   ANALYZE_IMAGE_FIRST: 'Analyze an image first',
   AI_SYNTHESIS_FAILED: 'AI synthesis failed, please retry',
+  PROTOCOL_INVALID: 'Gemini returned an incomplete protocol',
+  PREFERENCES_VIOLATED: 'No protocol fits your diet and allergies',
+  NO_LOCAL_RECIPE: 'No offline recipe fits your pantry',
 } as const;
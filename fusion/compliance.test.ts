@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { NeuralProtocol, UserPreferences } from '../types';
+import { checkCompliance, ingredientConflict } from './compliance';
+
+const prefs = (dietary: UserPreferences['dietary']): UserPreferences => ({
+  dietary,
+  allergies: [],
+  instamartSync: false,
+  highFidelityVisuals: false
+});
+
+const protocol = (steps: string[], ingredients: string[]): NeuralProtocol => ({
+  id: 'p',
+  title: 'Greens',
+  description: '',
+  complexity: 'Low',
+  duration_minutes: 20,
+  servings: 2,
+  ingredients_used: ingredients,
+  molecularAffinity: 50,
+  instructions: steps.map((instruction, i) => ({ order: i + 1, instruction, technique: 'sauté' })),
+  platingTips: [],
+  drinkPairing: { name: 'Water', description: '' },
+  nutrition: {} as NeuralProtocol['nutrition'],
+  groundingSources: []
+});
+
+describe('ingredientConflict', () => {
+  it.each([
+    'chicken', 'salmon', 'milk', 'egg', 'honey',
+    'fish sauce', 'oyster sauce', 'lard', 'gelatin', 'buttermilk', 'bacon',
+    'egg noodles', 'egg pasta', 'milk chocolate', 'honey mustard'
+  ])('rejects %s for a vegan', name => {
+    expect(ingredientConflict(name, prefs('Vegan'))).not.toBeNull();
+  });
+
+  it.each(['chicken', 'salmon', 'bacon', 'lard', 'gelatin', 'fish sauce', 'chicken stock'])('rejects %s for a vegetarian', name => {
+    expect(ingredientConflict(name, prefs('Vegetarian'))).not.toBeNull();
+  });
+
+  it.each(['milk', 'egg', 'paneer', 'buttermilk', 'egg noodles', 'honey mustard'])('allows %s for a vegetarian', name => {
+    expect(ingredientConflict(name, prefs('Vegetarian'))).toBeNull();
+  });
+
+  it.each(['tofu', 'spinach', 'coconut milk', 'almond milk', 'peanut butter', 'butter beans'])('allows %s for a vegan', name => {
+    expect(ingredientConflict(name, prefs('Vegan'))).toBeNull();
+  });
+});
+
+describe('checkCompliance', () => {
+  it('drops a conflicting ingredient and reports the step that uses it', () => {
+    const { protocol: checked, violations } = checkCompliance(
+      protocol(['Sear the chicken, then wilt the spinach'], ['chicken', 'spinach']),
+      prefs('Vegetarian')
+    );
+    expect(violations.map(v => v.ingredient.toLowerCase())).toContain('chicken');
+    expect(checked.ingredients_used).toEqual(['spinach']);
+  });
+
+  it('passes a protocol that fits the diet', () => {
+    const { violations } = checkCompliance(protocol(['Wilt the spinach'], ['spinach']), prefs('Vegan'));
+    expect(violations).toEqual([]);
+  });
+
+  it('reports uncatalogued meat and fish in a vegetarian step', () => {
+    const { protocol: checked, violations } = checkCompliance(
+      protocol(
+        ['Fry the bacon lardons, then season the greens with fish sauce and a splash of worcestershire sauce'],
+        ['bacon', 'spinach']
+      ),
+      prefs('Vegetarian')
+    );
+    expect(violations.map(v => v.ingredient)).toEqual(expect.arrayContaining(['bacon', 'fish sauce', 'worcestershire']));
+    expect(checked.ingredients_used).toEqual(['spinach']);
+  });
+
+  it('reports gelatin in a vegetarian dessert', () => {
+    const { violations } = checkCompliance(protocol(['Set the panna cotta with gelatin'], []), prefs('Vegetarian'));
+    expect(violations.map(v => v.ingredient)).toContain('gelatin');
+  });
+
+  it('does not repeat a catalogued ingredient the word scan also finds', () => {
+    const { violations } = checkCompliance(protocol(['Warm the milk'], []), prefs('Vegan'));
+    expect(violations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,252 @@
+
+
+import { AllergenWarning, NeuralProtocol, UserPreferences } from '../types';
+import { CatalogueEntry, DietTag } from '../knowledge/catalogue';
+import { IDENTITY_CONFIDENCE, findMentions, matchIngredient } from '../knowledge/matcher';
+import { AllergenHit, allergenLabel, entryAllergens, findAllergens } from '../knowledge/allergens';
+
+/**
+ * Checks a synthesized protocol against the user's diet and allergies.
+ * Offending items that are only listed (never cooked with) are repaired away;
+ * offending items a step or tip actually uses are reported as violations.
+ */
+
+export interface ComplianceViolation {
+  ingredient: string;
+  rule: 'diet' | 'allergy';
+  reason: string;
+}
+
+export interface ComplianceResult {
+  protocol: NeuralProtocol;
+  repairs: string[];
+  violations: ComplianceViolation[];
+}
+
+/**
+ * Catalogue diet tags each dietary mode excludes.
+ */
+const DIET_EXCLUSIONS: Record<UserPreferences['dietary'], DietTag[]> = {
+  None: [],
+  Vegan: ['animal'],
+  Vegetarian: ['meat', 'poultry', 'seafood'],
+  Keto: ['grain', 'starchy', 'sweetener', 'legume'],
+  Paleo: ['grain', 'legume', 'dairy']
+};
+
+/**
+ * Animal products outside the catalogue, with the diet tags they carry; the
+ * diet counterpart of allergens.ts HIDDEN_SOURCES.
+ */
+const HIDDEN_ANIMAL_PRODUCTS: Record<string, DietTag[]> = {
+  'bacon': ['animal', 'meat'],
+  'lardon': ['animal', 'meat'],
+  'lard': ['animal', 'meat'],
+  'pancetta': ['animal', 'meat'],
+  'prosciutto': ['animal', 'meat'],
+  'ham': ['animal', 'meat'],
+  'salami': ['animal', 'meat'],
+  'chorizo': ['animal', 'meat'],
+  'sausage': ['animal', 'meat'],
+  'pepperoni': ['animal', 'meat'],
+  'suet': ['animal', 'meat'],
+  'tallow': ['animal', 'meat'],
+  'gelatin': ['animal', 'meat'],
+  'gelatine': ['animal', 'meat'],
+  'beef stock': ['animal', 'meat'],
+  'bone broth': ['animal', 'meat'],
+  'chicken stock': ['animal', 'poultry'],
+  'chicken broth': ['animal', 'poultry'],
+  'fish sauce': ['animal', 'seafood'],
+  'fish stock': ['animal', 'seafood'],
+  'oyster sauce': ['animal', 'seafood'],
+  'shrimp paste': ['animal', 'seafood'],
+  'anchovy paste': ['animal', 'seafood'],
+  'worcestershire': ['animal', 'seafood'],
+  'dashi': ['animal', 'seafood'],
+  'bonito': ['animal', 'seafood'],
+  'isinglass': ['animal', 'seafood'],
+  'caviar': ['animal', 'seafood'],
+  'buttermilk': ['animal', 'dairy'],
+  'whey': ['animal', 'dairy'],
+  'casein': ['animal', 'dairy'],
+  'rennet': ['animal', 'meat'],
+  'carmine': ['animal']
+};
+
+/**
+ * Words that make any name an animal product, even when its head noun is a
+ * plant entry ("egg noodles", "milk chocolate", "honey mustard").
+ */
+const ANIMAL_WORDS: Record<string, DietTag[]> = {
+  'egg': ['animal', 'egg'],
+  'milk': ['animal', 'dairy'],
+  'honey': ['animal', 'sweetener'],
+  'butter': ['animal', 'dairy'],
+  'cream': ['animal', 'dairy'],
+  'cheese': ['animal', 'dairy']
+};
+
+/**
+ * Plant products named after what they replace; masked before the scan.
+ */
+const PLANT_BASED = [
+  'coconut milk', 'almond milk', 'oat milk', 'soy milk', 'soya milk', 'rice milk', 'cashew milk',
+  'coconut cream', 'butter bean', 'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'cocoa butter',
+  'vegan cheese', 'vegan butter', 'flax egg', 'chia egg', 'cream of tartar'
+];
+
+const wordPattern = (phrase: string, flags = 'iu') =>
+  new RegExp(`(^|[^\\p{L}])${phrase}(e?s)?(?=[^\\p{L}]|$)`, flags);
+
+const HIDDEN_PATTERNS = [...Object.entries(HIDDEN_ANIMAL_PRODUCTS), ...Object.entries(ANIMAL_WORDS)]
+  .map(([source, tags]) => ({ source, tags, pattern: wordPattern(source) }));
+const PLANT_PATTERNS = PLANT_BASED.map(phrase => wordPattern(phrase, 'giu'));
+
+const maskPlantBased = (text: string): string =>
+  PLANT_PATTERNS.reduce((masked, pattern) => masked.replace(pattern, (_, lead: string) => lead), text);
+
+/**
+ * Animal products `text` names outside the catalogue.
+ */
+const hiddenAnimalProducts = (text: string): { source: string; tags: DietTag[] }[] => {
+  const masked = maskPlantBased(text);
+  return HIDDEN_PATTERNS.filter(h => h.pattern.test(masked)).map(({ source, tags }) => ({ source, tags }));
+};
+
+const DIET_RULES: Record<UserPreferences['dietary'], string> = {
+  None: '',
+  Vegan: 'no animal products of any kind (meat, fish, seafood, dairy, eggs, honey)',
+  Vegetarian: 'no meat, poultry, fish or seafood',
+  Keto: 'no grains, starchy vegetables, sugars or legumes',
+  Paleo: 'no grains, legumes or dairy'
+};
+
+const allergyViolation = (hit: AllergenHit): ComplianceViolation => ({
+  ingredient: hit.source,
+  rule: 'allergy',
+  reason: hit.allergen ? `contains ${allergenLabel(hit).toLowerCase()} (${hit.allergy} allergy)` : `${hit.allergy} allergy`
+});
+
+const dietConflict = (source: { name: string; tags: DietTag[] }, preferences: UserPreferences): ComplianceViolation | null => {
+  const excluded = DIET_EXCLUSIONS[preferences.dietary] || [];
+  const tag = excluded.find(t => source.tags.includes(t));
+  return tag ? { ingredient: source.name, rule: 'diet', reason: `not ${preferences.dietary} (${tag})` } : null;
+};
+
+const hiddenConflicts = (text: string, preferences: UserPreferences): ComplianceViolation[] =>
+  hiddenAnimalProducts(text)
+    .map(({ source, tags }) => dietConflict({ name: source, tags }, preferences))
+    .filter((v): v is ComplianceViolation => v !== null);
+
+// A partial match of a plant product ("almond milk" ends in milk) says nothing about its diet
+const catalogueEntryOf = (name: string): CatalogueEntry | null => {
+  const match = matchIngredient(name);
+  if (!match || match.confidence < 0.6) return null;
+  if (match.confidence < IDENTITY_CONFIDENCE && maskPlantBased(name) !== name) return null;
+  return match.entry;
+};
+
+/**
+ * Preference conflict for a free-text ingredient name (inventory or protocol).
+ * Names outside the catalogue conflict when they name an allergy outright or
+ * an animal product the diet excludes.
+ */
+export const ingredientConflict = (name: string, preferences: UserPreferences): ComplianceViolation | null => {
+  const entry = catalogueEntryOf(name);
+  const hit = (entry ? entryAllergens(entry, preferences.allergies) : [])[0] || findAllergens(name, preferences.allergies)[0];
+  if (hit) return allergyViolation(hit);
+  return (entry && dietConflict(entry, preferences)) || hiddenConflicts(name, preferences)[0] || null;
+};
+
+/**
+ * Screens catalogue entries offered as additions (pairings, substitutes).
+ */
+export const allowedByPreferences = (preferences?: UserPreferences) => (entry: CatalogueEntry): boolean =>
+  !preferences || !ingredientConflict(entry.name, preferences);
+
+/**
+ * The preferences as prompt constraints.
+ */
+export const describeConstraints = (preferences: UserPreferences): string => {
+  const parts = [`Cuisine style: ${preferences.cuisinePreference || 'Global Modern'}.`];
+  if (preferences.dietary !== 'None') parts.push(`Diet: ${preferences.dietary}, ${DIET_RULES[preferences.dietary]}.`);
+  if (preferences.allergies.length > 0) {
+    parts.push(`Allergies, strictly excluded including as hidden ingredients: ${preferences.allergies.join(', ')}.`);
+  }
+  return parts.join(' ');
+};
+
+const textConflicts = (text: string, preferences: UserPreferences): ComplianceViolation[] => {
+  const mentions = findMentions(text);
+  const named = new Set(mentions.map(entry => entry.name.toLowerCase()));
+  return [
+    ...findAllergens(text, preferences.allergies).map(allergyViolation),
+    ...mentions
+      .map(entry => dietConflict(entry, preferences))
+      .filter((v): v is ComplianceViolation => v !== null),
+    ...hiddenConflicts(text, preferences).filter(v => !named.has(v.ingredient))
+  ];
+};
+
+/**
+ * Repairs what can be dropped without changing the dish (listed but unused
+ * ingredients, plating tips) and reports what cannot (steps that cook with
+ * an excluded ingredient).
+ */
+export const checkCompliance = (protocol: NeuralProtocol, preferences: UserPreferences): ComplianceResult => {
+  const repairs: string[] = [];
+  const violations: ComplianceViolation[] = [];
+
+  protocol.instructions.forEach(step => {
+    textConflicts(step.instruction, preferences).forEach(v => {
+      if (!violations.some(existing => existing.ingredient === v.ingredient)) violations.push(v);
+    });
+  });
+
+  const dropListed = (names: string[]) =>
+    names.filter(name => {
+      const conflict = ingredientConflict(name, preferences);
+      if (!conflict) return true;
+      if (!violations.some(v => v.ingredient === conflict.ingredient)) repairs.push(`dropped ${name} (${conflict.reason})`);
+      return false;
+    });
+
+  const platingTips = protocol.platingTips.filter(tip => {
+    const conflicts = textConflicts(tip, preferences);
+    if (conflicts.length > 0) repairs.push(`dropped plating tip using ${conflicts[0].ingredient} (${conflicts[0].reason})`);
+    return conflicts.length === 0;
+  });
+
+  return {
+    protocol: {
+      ...protocol,
+      ingredients_used: dropListed(protocol.ingredients_used),
+      missing_ingredients: dropListed(protocol.missing_ingredients || []),
+      platingTips,
+      dietary: preferences.dietary,
+      allergensAvoided: preferences.allergies
+    },
+    repairs,
+    violations
+  };
+};
+
+/**
+ * Every place a protocol touches the user's allergies, hidden sources
+ * included. Any warning blocks the protocol (substitutionRisk 'BLOCKED').
+ */
+export const flagAllergens = (protocol: NeuralProtocol, allergies: string[]): AllergenWarning[] => {
+  const warnings: AllergenWarning[] = [];
+  const scan = (text: string, step?: number) =>
+    findAllergens(text, allergies).forEach(hit => {
+      const allergen = allergenLabel(hit);
+      if (!warnings.some(w => w.allergen === allergen && w.source === hit.source && (step === undefined || w.step === step))) {
+        warnings.push({ allergen, source: hit.source, ...(step !== undefined && { step }) });
+      }
+    });
+  protocol.instructions.forEach(step => scan(step.instruction, step.order));
+  [...protocol.ingredients_used, ...(protocol.missing_ingredients || []), ...protocol.platingTips].forEach(text => scan(text));
+  scan(`${protocol.drinkPairing.name}. ${protocol.drinkPairing.description}`);
+  return warnings;
+};
@@ -1,6 +1,7 @@
 
 import { Ingredient, NeuralProtocol } from '../types';
 import { STORAGE_KEYS } from '../constants';
+import { normalizeName } from './validator';
 
 /**
  * Computes a Composite Confidence Score (CCS).
@@ -24,8 +25,8 @@ export const calculateCompositeConfidence = (
       score = Math.max(score, 0.85);
     }
 
-    // Apply memory bias (max +0.10)
-    const bias = Math.min((memory[curr.name.toLowerCase()] || 0) * 0.02, 0.10);
+    // Apply memory bias (±0.10): past confirmations raise it, dismissals lower it
+    const bias = Math.max(-0.10, Math.min((memory[normalizeName(curr.name)] || 0) * 0.02, 0.10));
     return acc + Math.min(score + bias, 1.0);
   }, 0) / mlInventory.length || 1;
 
@@ -33,8 +34,8 @@ export const calculateCompositeConfidence = (
   const geminiCoherence = protocol.instructions.length > 3 ? 1.0 : 0.7;
 
   // 3. Constraint Satisfaction (No hallucinations)
-  const mlNames = new Set(mlInventory.map(i => i.name.toLowerCase()));
-  const hallucinations = protocol.ingredients_used.filter(ing => !mlNames.has(ing.toLowerCase())).length;
+  const mlNames = new Set(mlInventory.map(i => normalizeName(i.name)));
+  const hallucinations = protocol.ingredients_used.filter(ing => !mlNames.has(normalizeName(ing))).length;
   const constraintSatisfaction = Math.max(0, 1 - (hallucinations / protocol.ingredients_used.length));
 
   const composite = (0.5 * mlConfidence) + (0.3 * geminiCoherence) + (0.2 * constraintSatisfaction);
@@ -1,9 +1,11 @@
 
 import { Ingredient, NeuralProtocol, ProtocolStep } from '../types';
 import { normalizeName } from './validator';
+import { assignQuantities } from '../services/scalingService';
 
 /**
- * Injects ML truth (mass, freshness) into the Gemini narrative steps.
+ * Injects ML truth into the Gemini narrative steps: weighed masses become
+ * step quantities (where Gemini measured none), low freshness a directive.
  */
 export const mergeMetadata = (
   mlInventory: Ingredient[],
@@ -17,13 +19,9 @@ export const mergeMetadata = (
 
     // Search for ingredient mentions in the instruction to inject ML data
     mlInventory.forEach(ing => {
-      if (step.instruction.toLowerCase().includes(ing.name.toLowerCase())) {
-        technicalNote += ` [Utilize ${ing.mass_grams}g]`;
-        
-        // Adjust technique if vitality is low (Freshness < 50%)
-        if (ing.vitality_score < 50) {
-          technicalNote += ` (Bio-Vitality Alert: Increase heat intensity for safety)`;
-        }
+      // Adjust technique if vitality is low (Freshness < 50%)
+      if (step.instruction.toLowerCase().includes(ing.name.toLowerCase()) && ing.vitality_score < 50) {
+        technicalNote += ` (Bio-Vitality Alert: Increase heat intensity for safety)`;
       }
     });
 
@@ -33,8 +31,13 @@ export const mergeMetadata = (
     };
   });
 
+  const used = new Set(protocol.ingredients_used.map(normalizeName));
+  const weighed = mlInventory
+    .filter(ing => used.has(normalizeName(ing.name)))
+    .map(ing => ({ ingredient: ing.name, grams: ing.mass_grams }));
+
   return {
     ...protocol,
-    instructions: mergedInstructions
+    instructions: assignQuantities(mergedInstructions, weighed)
   };
 };
@@ -1,9 +1,23 @@
 
-import { Ingredient, NeuralProtocol } from '../types';
-import { validateIngredients, performSanityCheck, normalizeName } from './validator';
+import { Ingredient, NeuralProtocol, UserPreferences } from '../types';
+import { validateIngredients, performSanityCheck } from './validator';
 import { mergeMetadata } from './merger';
 import { calculateCompositeConfidence } from './confidence';
 import { calculateEnvironmentalImpact } from '../services/impactService';
+import { findRescuedItems } from '../services/prioritisationService';
+import { allowedByPreferences, flagAllergens } from './compliance';
+import { flavourAffinity, suggestPairings } from '../services/flavourService';
+
+/**
+ * Allergen guard. Runs on every path out of the fusion layer, fallbacks
+ * included, and overrides any other risk level.
+ */
+export const guardAllergens = (protocol: NeuralProtocol, allergies: string[] = []): NeuralProtocol => {
+  const warnings = flagAllergens(protocol, allergies);
+  if (warnings.length === 0) return protocol;
+  console.warn(`[Fusion] Protocol touches user allergens: ${warnings.map(w => `${w.allergen} via ${w.source}`).join('; ')}`);
+  return { ...protocol, allergenWarnings: warnings, substitutionRisk: 'BLOCKED' };
+};
 
 /**
  * Fusion Layer Entry Point.
@@ -11,7 +25,14 @@ import { calculateEnvironmentalImpact } from '../services/impactService';
  */
 export const fuseResults = (
   mlInventory: Ingredient[],
-  geminiProtocol: NeuralProtocol
+  geminiProtocol: NeuralProtocol,
+  preferences?: UserPreferences
+): NeuralProtocol => guardAllergens(fuse(mlInventory, geminiProtocol, preferences), preferences?.allergies);
+
+const fuse = (
+  mlInventory: Ingredient[],
+  geminiProtocol: NeuralProtocol,
+  preferences?: UserPreferences
 ): NeuralProtocol => {
   try {
     // 1. Validation Phase
@@ -37,8 +58,15 @@ export const fuseResults = (
     fusedProtocol = mergeMetadata(activeInventory, fusedProtocol);
 
     // 2. Intelligence Metrics
-    fusedProtocol.molecularAffinity = calculateCompositeConfidence(activeInventory, fusedProtocol);
-    fusedProtocol.impactMetrics = calculateEnvironmentalImpact(activeInventory.filter(i => validatedUsed.map(v => normalizeName(v)).includes(normalizeName(i.name))));
+    fusedProtocol.confidence = calculateCompositeConfidence(activeInventory, fusedProtocol);
+    // Missing ingredients are part of the dish's flavour too
+    const dish = [...validatedUsed, ...(fusedProtocol.missing_ingredients || [])];
+    fusedProtocol.molecularAffinity = flavourAffinity(dish);
+    fusedProtocol.pairingSuggestions = suggestPairings(dish, allowedByPreferences(preferences));
+    // Only at-risk items count as saved; fresh ones would have been eaten anyway
+    const rescued = findRescuedItems(activeInventory, validatedUsed);
+    fusedProtocol.rescuedItems = rescued.map(i => i.name);
+    fusedProtocol.impactMetrics = calculateEnvironmentalImpact(rescued);
 
     // 3. Risk Awareness (Heuristic based on hallucination count)
     if (identifiedHallucinations.length === 0) {
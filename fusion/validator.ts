@@ -1,11 +1,13 @@
 
 import { Ingredient, NeuralProtocol } from '../types';
+import { ingredientKey } from '../knowledge/matcher';
 
 /**
  * Normalizes ingredient names for reliable comparison.
+ * Synonyms, regional names, plurals and modifiers resolve to one catalogue id
+ * ("Tomatoes", "2 cherry tomatoes" and "tamatar" all become "tomato").
  */
-export const normalizeName = (name: string): string => 
-  name.toLowerCase().trim().replace(/s$/, ''); // Basic plural normalization
+export const normalizeName = (name: string): string => ingredientKey(name);
 
 /**
  * Validates Gemini's ingredient usage against ML ground truth.
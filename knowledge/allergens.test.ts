@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { AllergenTag } from './catalogue';
+import { findAllergens } from './allergens';
+
+const allergensIn = (text: string, allergies: string[]): AllergenTag[] =>
+  findAllergens(text, allergies).map(hit => hit.allergen!).filter(Boolean);
+
+// One step per group that names the allergen through an alias or an uncatalogued carrier
+const GROUP_CASES: [AllergenTag, string, string][] = [
+  ['gluten', 'gluten', 'Dust the fish with semolina before frying'],
+  ['crustacean', 'shellfish', 'Fold in the crab meat and lobster'],
+  ['egg', 'egg', 'Brush the pastry with beaten eggs'],
+  ['fish', 'fish', 'Pan-sear the trout fillets'],
+  ['peanut', 'peanuts', 'Spoon over the satay sauce'],
+  ['soy', 'soy', 'Glaze with tamari'],
+  ['milk', 'dairy', 'Crumble feta over the salad'],
+  ['tree-nut', 'tree nuts', 'Scatter toasted pistachios and hazelnuts'],
+  ['celery', 'celery', 'Season with celery salt'],
+  ['mustard', 'mustard', 'Whisk in a spoon of dijon'],
+  ['sesame', 'sesame', 'Serve with hummus'],
+  ['sulphite', 'sulphites', 'Deglaze with white wine'],
+  ['lupin', 'lupin', 'Thicken with lupin flour'],
+  ['mollusc', 'shellfish', 'Add the mussels and clams']
+];
+
+describe('findAllergens', () => {
+  it.each(GROUP_CASES)('flags %s for a "%s" allergy', (allergen, allergy, step) => {
+    expect(allergensIn(step, [allergy])).toContain(allergen);
+  });
+
+  it('matches group aliases in recipe text', () => {
+    expect(allergensIn('Stir through the prawns', ['crustaceans'])).toEqual(['crustacean']);
+    expect(allergensIn('Top with chopped nuts', ['nuts'])).toContain('tree-nut');
+  });
+
+  it('does not read plant milks as dairy', () => {
+    expect(allergensIn('Simmer in coconut milk', ['dairy'])).toEqual([]);
+    expect(allergensIn('Simmer in coconut milk, then finish with milk', ['dairy'])).toEqual(['milk']);
+  });
+
+  it('ignores allergens inside longer words', () => {
+    expect(allergensIn('Roast the eggplant with nutmeg and buckwheat', ['egg', 'nuts', 'gluten'])).toEqual([]);
+  });
+});
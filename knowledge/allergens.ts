@@ -0,0 +1,223 @@
+import { AllergenTag, CatalogueEntry } from './catalogue';
+import { cleanIngredientName, findMentions, matchIngredient } from './matcher';
+
+/**
+ * allergens.ts
+ * Allergen model: the major allergen groups, how users write them, and
+ * which ingredients carry them. Catalogue entries carry their own allergen
+ * tags; HIDDEN_SOURCES covers ingredients and prepared foods the catalogue
+ * does not list (fish sauce, pesto, feta, pistachios) whose allergens are
+ * easy to miss, and the group aliases are matched in recipe text as well.
+ */
+
+export interface AllergenGroup {
+  label: string;
+  aliases: string[]; // How users write the allergy in Settings
+}
+
+export const ALLERGEN_GROUPS: Record<AllergenTag, AllergenGroup> = {
+  'gluten': { label: 'Gluten', aliases: ['gluten', 'wheat', 'coeliac', 'celiac', 'barley', 'rye'] },
+  'crustacean': { label: 'Crustaceans', aliases: ['crustacean', 'crustaceans', 'prawn', 'prawns', 'shrimp', 'crab', 'lobster'] },
+  'egg': { label: 'Egg', aliases: ['egg', 'eggs'] },
+  'fish': { label: 'Fish', aliases: ['fish'] },
+  'peanut': { label: 'Peanut', aliases: ['peanut', 'peanuts', 'groundnut', 'groundnuts'] },
+  'soy': { label: 'Soy', aliases: ['soy', 'soya', 'soybean', 'soybeans'] },
+  'milk': { label: 'Milk', aliases: ['milk', 'dairy', 'lactose', 'casein', 'whey'] },
+  'tree-nut': { label: 'Tree nuts', aliases: ['tree nut', 'tree nuts', 'tree-nut', 'tree-nuts'] },
+  'celery': { label: 'Celery', aliases: ['celery', 'celeriac'] },
+  'mustard': { label: 'Mustard', aliases: ['mustard'] },
+  'sesame': { label: 'Sesame', aliases: ['sesame'] },
+  'sulphite': { label: 'Sulphites', aliases: ['sulphite', 'sulphites', 'sulfite', 'sulfites'] },
+  'lupin': { label: 'Lupin', aliases: ['lupin', 'lupine'] },
+  'mollusc': { label: 'Molluscs', aliases: ['mollusc', 'molluscs', 'mollusk', 'mollusks', 'oyster', 'mussel', 'clam', 'squid'] }
+};
+
+/**
+ * "Nuts" usually means peanuts too; "shellfish" covers crustaceans as well as molluscs.
+ */
+const BROAD_ALIASES: Record<string, AllergenTag[]> = {
+  'nut': ['tree-nut', 'peanut'],
+  'nuts': ['tree-nut', 'peanut'],
+  'shellfish': ['crustacean', 'mollusc']
+};
+
+/**
+ * Prepared foods and ingredients outside the catalogue, with what they hide.
+ */
+const HIDDEN_SOURCES: Record<string, AllergenTag[]> = {
+  'fish sauce': ['fish'],
+  'worcestershire sauce': ['fish'],
+  'worcestershire': ['fish'],
+  'dashi': ['fish'],
+  'bonito': ['fish'],
+  'caesar dressing': ['fish', 'egg', 'milk'],
+  'trout': ['fish'],
+  'mackerel': ['fish'],
+  'sardine': ['fish'],
+  'herring': ['fish'],
+  'haddock': ['fish'],
+  'halibut': ['fish'],
+  'sea bass': ['fish'],
+  'tilapia': ['fish'],
+  'swordfish': ['fish'],
+  'oyster sauce': ['mollusc'],
+  'scallop': ['mollusc'],
+  'calamari': ['mollusc'],
+  'octopus': ['mollusc'],
+  'cuttlefish': ['mollusc'],
+  'langoustine': ['crustacean'],
+  'crayfish': ['crustacean'],
+  'shrimp paste': ['crustacean'],
+  'prawn crackers': ['crustacean', 'gluten'],
+  'tamari': ['soy'],
+  'teriyaki': ['soy', 'gluten'],
+  'hoisin': ['soy', 'gluten', 'sesame'],
+  'edamame': ['soy'],
+  'seitan': ['gluten'],
+  'breadcrumbs': ['gluten'],
+  'panko': ['gluten'],
+  'couscous': ['gluten'],
+  'semolina': ['gluten'],
+  'bulgur': ['gluten'],
+  'noodles': ['gluten'],
+  'beer': ['gluten', 'sulphite'],
+  'brioche': ['gluten', 'egg', 'milk'],
+  'pesto': ['tree-nut', 'milk'],
+  'marzipan': ['tree-nut'],
+  'praline': ['tree-nut'],
+  'nougat': ['tree-nut', 'egg'],
+  'frangipane': ['tree-nut', 'egg', 'milk'],
+  'satay': ['peanut'],
+  'hummus': ['sesame'],
+  'halva': ['sesame'],
+  'mayonnaise': ['egg'],
+  'aioli': ['egg'],
+  'meringue': ['egg'],
+  'hollandaise': ['egg', 'milk'],
+  'bearnaise': ['egg', 'milk'],
+  'béarnaise': ['egg', 'milk'],
+  'custard': ['egg', 'milk'],
+  'bechamel': ['milk', 'gluten'],
+  'béchamel': ['milk', 'gluten'],
+  'pistachio': ['tree-nut'],
+  'hazelnut': ['tree-nut'],
+  'pecan': ['tree-nut'],
+  'pine nut': ['tree-nut'],
+  'macadamia': ['tree-nut'],
+  'brazil nut': ['tree-nut'],
+  'feta': ['milk'],
+  'ricotta': ['milk'],
+  'halloumi': ['milk'],
+  'mozzarella': ['milk'],
+  'gouda': ['milk'],
+  'brie': ['milk'],
+  'camembert': ['milk'],
+  'gruyere': ['milk'],
+  'gruyère': ['milk'],
+  'pecorino': ['milk'],
+  'ghee': ['milk'],
+  'mascarpone': ['milk'],
+  'buttermilk': ['milk'],
+  'whey': ['milk'],
+  'dijon': ['mustard'],
+  'wine': ['sulphite'],
+  'prosecco': ['sulphite'],
+  'dried apricot': ['sulphite'],
+  'celery salt': ['celery']
+};
+
+/**
+ * Phrases that contain a group alias without carrying the allergen
+ * ("coconut milk" is not dairy); masked before aliases are matched.
+ */
+const FALSE_FRIENDS = ['coconut milk', 'oat milk', 'rice milk', 'almond milk', 'cashew milk', 'soy milk', 'soya milk'];
+
+const ALLERGY_AS_INGREDIENT = 0.8; // Allergies outside the groups must name a catalogue entry this clearly
+
+export interface AllergenHit {
+  allergy: string;         // As the user wrote it
+  allergen?: AllergenTag;  // Unset for allergies outside the major groups
+  source: string;          // Ingredient or preparation that carries it
+}
+
+const phrasePattern = (phrase: string) =>
+  new RegExp(`(^|[^\\p{L}])${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(e?s)?(?=[^\\p{L}]|$)`, 'iu');
+
+const HIDDEN_PATTERNS = Object.entries(HIDDEN_SOURCES).map(([source, tags]) => ({ source, tags, pattern: phrasePattern(source) }));
+
+// Group aliases name their allergen in recipe text too ("crab meat", "the nuts")
+const ALIAS_PATTERNS = [
+  ...(Object.keys(ALLERGEN_GROUPS) as AllergenTag[]).flatMap(tag => ALLERGEN_GROUPS[tag].aliases.map(alias => ({ source: alias, tags: [tag] }))),
+  ...Object.entries(BROAD_ALIASES).map(([source, tags]) => ({ source, tags }))
+].map(alias => ({ ...alias, pattern: phrasePattern(alias.source) }));
+
+const FALSE_FRIEND_PATTERNS = FALSE_FRIENDS.map(phrase => new RegExp(phrasePattern(phrase).source, 'giu'));
+
+const maskFalseFriends = (text: string): string =>
+  FALSE_FRIEND_PATTERNS.reduce((masked, pattern) => masked.replace(pattern, (_, lead: string) => lead), text);
+
+/**
+ * Allergen groups a written allergy refers to; empty for allergies outside
+ * the major groups (e.g. "kiwi"), which are then matched as ingredients.
+ */
+export const resolveAllergy = (allergy: string): AllergenTag[] => {
+  const cleaned = cleanIngredientName(allergy);
+  if (BROAD_ALIASES[cleaned]) return BROAD_ALIASES[cleaned];
+  return (Object.keys(ALLERGEN_GROUPS) as AllergenTag[]).filter(tag => ALLERGEN_GROUPS[tag].aliases.includes(cleaned));
+};
+
+export const allergenLabel = (hit: AllergenHit): string =>
+  hit.allergen ? ALLERGEN_GROUPS[hit.allergen].label : hit.allergy;
+
+const allergyEntry = (allergy: string): CatalogueEntry | null => {
+  const match = matchIngredient(allergy);
+  return match && match.confidence >= ALLERGY_AS_INGREDIENT ? match.entry : null;
+};
+
+/**
+ * The user's allergies a catalogue entry triggers.
+ */
+export const entryAllergens = (entry: CatalogueEntry, allergies: string[]): AllergenHit[] =>
+  allergies.flatMap(allergy => {
+    const tags = resolveAllergy(allergy);
+    if (tags.length === 0) return allergyEntry(allergy) === entry ? [{ allergy, source: entry.name }] : [];
+    const allergen = tags.find(tag => entry.allergens.includes(tag));
+    return allergen ? [{ allergy, allergen, source: entry.name }] : [];
+  });
+
+/**
+ * Every way `text` (an ingredient name, a step, a tip) touches the user's
+ * allergies: catalogue ingredients it mentions, hidden sources, and
+ * allergies outside the major groups named outright.
+ */
+export const findAllergens = (text: string, allergies: string[]): AllergenHit[] => {
+  if (allergies.length === 0 || !text.trim()) return [];
+  const hits: AllergenHit[] = [];
+  // One hit per allergy and group; the first source found names it
+  const add = (hit: AllergenHit) => {
+    const seen = hits.some(h => h.allergy === hit.allergy && (hit.allergen ? h.allergen === hit.allergen : h.source === hit.source));
+    if (!seen) hits.push(hit);
+  };
+
+  findMentions(text).forEach(entry => entryAllergens(entry, allergies).forEach(add));
+
+  const masked = maskFalseFriends(text);
+  [
+    ...HIDDEN_PATTERNS.filter(h => h.pattern.test(text)),
+    ...ALIAS_PATTERNS.filter(a => a.pattern.test(masked))
+  ].forEach(({ source, tags }) => {
+    allergies.forEach(allergy => {
+      const allergen = resolveAllergy(allergy).find(tag => tags.includes(tag));
+      if (allergen) add({ allergy, allergen, source });
+    });
+  });
+
+  allergies
+    .filter(allergy => resolveAllergy(allergy).length === 0 && !allergyEntry(allergy))
+    .forEach(allergy => {
+      const name = cleanIngredientName(allergy);
+      if (name && phrasePattern(name).test(text)) add({ allergy, source: name });
+    });
+
+  return hits;
+};
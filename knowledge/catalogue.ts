@@ -0,0 +1,234 @@
+import { Ingredient } from '../types';
+
+/**
+ * catalogue.ts
+ * Typed ingredient knowledge base shared by perception, fusion and synthesis.
+ * Nutrition is per 100 g edible portion (raw unless noted), approximated from
+ * USDA FoodData Central. CO2e (kg per kg, farm to retail) follows Poore &
+ * Nemecek (2018) category means; water (litres per kg) follows the Water
+ * Footprint Network. Density is the apparent density of the item as it sits,
+ * i.e. bulk density for leaves, piles and dry goods.
+ */
+
+export type IngredientCategory =
+  | 'fruit' | 'vegetable' | 'herb' | 'spice'
+  | 'meat' | 'poultry' | 'seafood' | 'dairy' | 'egg' | 'plant-protein' | 'legume'
+  | 'grain' | 'nut-seed' | 'oil-fat' | 'condiment' | 'sweetener' | 'beverage';
+
+export const INGREDIENT_CATEGORIES: IngredientCategory[] = [
+  'fruit', 'vegetable', 'herb', 'spice',
+  'meat', 'poultry', 'seafood', 'dairy', 'egg', 'plant-protein', 'legume',
+  'grain', 'nut-seed', 'oil-fat', 'condiment', 'sweetener', 'beverage'
+];
+
+/**
+ * The fourteen allergen groups regulated in the EU/UK (FIC Annex II).
+ */
+export type AllergenTag =
+  | 'gluten' | 'crustacean' | 'egg' | 'fish' | 'peanut' | 'soy' | 'milk'
+  | 'tree-nut' | 'celery' | 'mustard' | 'sesame' | 'sulphite' | 'lupin' | 'mollusc';
+
+/**
+ * Composition tags consumed by dietary rules (vegan, keto, paleo, ...).
+ */
+export type DietTag =
+  | 'animal' | 'meat' | 'poultry' | 'seafood' | 'dairy' | 'egg'
+  | 'grain' | 'legume' | 'starchy' | 'sweetener' | 'nut' | 'seed' | 'leafy';
+
+export interface Nutrition {
+  kcal: number;
+  protein: number; // g
+  carbs: number;   // g
+  fat: number;     // g
+  fibre: number;   // g
+}
+
+export interface CatalogueEntry {
+  id: string;             // Canonical, singular, lowercase; doubles as the detector label
+  name: string;           // Display name
+  synonyms: string[];     // Plurals, regional and alternate names
+  scientificName: string; // Source organism; processed foods name what they are made from
+  category: IngredientCategory;
+  density: number;        // g/cm³
+  shelfLifeDays: number;  // Typical storage life when bought fresh
+  allergens: AllergenTag[];
+  nutrition: Nutrition;
+  co2PerKg: number;
+  waterPerKg: number;
+  tags: DietTag[];
+  detectable?: boolean;   // Part of the on-device detector's vocabulary
+  pale?: boolean;         // Sound surface is white, cream or grey; defaults from the category
+}
+
+const n = (kcal: number, protein: number, carbs: number, fat: number, fibre: number): Nutrition =>
+  ({ kcal, protein, carbs, fat, fibre });
+
+/**
+ * Detectable entries come first and their relative order is the detector's
+ * class order (output index N = N-th detectable entry). Append new classes only.
+ */
+export const CATALOGUE: CatalogueEntry[] = [
+  // Fruit
+  { id: 'apple', name: 'Apple', synonyms: ['apples'], scientificName: 'Malus domestica', category: 'fruit', density: 0.8, shelfLifeDays: 28, allergens: [], nutrition: n(52, 0.3, 13.8, 0.2, 2.4), co2PerKg: 0.4, waterPerKg: 822, tags: [], detectable: true },
+  { id: 'banana', name: 'Banana', synonyms: ['bananas'], scientificName: 'Musa acuminata', category: 'fruit', density: 0.95, shelfLifeDays: 5, allergens: [], nutrition: n(89, 1.1, 22.8, 0.3, 2.6), co2PerKg: 0.9, waterPerKg: 790, tags: ['starchy'], detectable: true },
+  { id: 'orange', name: 'Orange', synonyms: ['oranges'], scientificName: 'Citrus × sinensis', category: 'fruit', density: 0.87, shelfLifeDays: 21, allergens: [], nutrition: n(47, 0.9, 11.8, 0.1, 2.4), co2PerKg: 0.4, waterPerKg: 560, tags: [], detectable: true },
+  { id: 'pear', name: 'Pear', synonyms: ['pears'], scientificName: 'Pyrus communis', category: 'fruit', density: 0.85, shelfLifeDays: 10, allergens: [], nutrition: n(57, 0.4, 15.2, 0.1, 3.1), co2PerKg: 0.4, waterPerKg: 922, tags: [], detectable: true },
+  { id: 'strawberry', name: 'Strawberry', synonyms: ['strawberries'], scientificName: 'Fragaria × ananassa', category: 'fruit', density: 0.6, shelfLifeDays: 4, allergens: [], nutrition: n(32, 0.7, 7.7, 0.3, 2.0), co2PerKg: 1.5, waterPerKg: 347, tags: [], detectable: true },
+  { id: 'blueberry', name: 'Blueberry', synonyms: ['blueberries'], scientificName: 'Vaccinium corymbosum', category: 'fruit', density: 0.6, shelfLifeDays: 10, allergens: [], nutrition: n(57, 0.7, 14.5, 0.3, 2.4), co2PerKg: 1.5, waterPerKg: 845, tags: [], detectable: true },
+  { id: 'raspberry', name: 'Raspberry', synonyms: ['raspberries'], scientificName: 'Rubus idaeus', category: 'fruit', density: 0.5, shelfLifeDays: 3, allergens: [], nutrition: n(52, 1.2, 11.9, 0.7, 6.5), co2PerKg: 1.5, waterPerKg: 413, tags: [], detectable: true },
+  { id: 'mango', name: 'Mango', synonyms: ['mangoes', 'mangos'], scientificName: 'Mangifera indica', category: 'fruit', density: 0.95, shelfLifeDays: 6, allergens: [], nutrition: n(60, 0.8, 15.0, 0.4, 1.6), co2PerKg: 0.8, waterPerKg: 1800, tags: [], detectable: true },
+  { id: 'pineapple', name: 'Pineapple', synonyms: ['pineapples'], scientificName: 'Ananas comosus', category: 'fruit', density: 0.9, shelfLifeDays: 5, allergens: [], nutrition: n(50, 0.5, 13.1, 0.1, 1.4), co2PerKg: 0.5, waterPerKg: 255, tags: [], detectable: true },
+  { id: 'grape', name: 'Grape', synonyms: ['grapes'], scientificName: 'Vitis vinifera', category: 'fruit', density: 0.6, shelfLifeDays: 10, allergens: [], nutrition: n(69, 0.7, 18.1, 0.2, 0.9), co2PerKg: 1.4, waterPerKg: 608, tags: [], detectable: true },
+  { id: 'lemon', name: 'Lemon', synonyms: ['lemons'], scientificName: 'Citrus × limon', category: 'fruit', density: 0.95, shelfLifeDays: 21, allergens: [], nutrition: n(29, 1.1, 9.3, 0.3, 2.8), co2PerKg: 0.4, waterPerKg: 642, tags: [], detectable: true },
+  { id: 'lime', name: 'Lime', synonyms: ['limes'], scientificName: 'Citrus × aurantiifolia', category: 'fruit', density: 0.95, shelfLifeDays: 21, allergens: [], nutrition: n(30, 0.7, 10.5, 0.2, 2.8), co2PerKg: 0.4, waterPerKg: 642, tags: [], detectable: true },
+  { id: 'avocado', name: 'Avocado', synonyms: ['avocados'], scientificName: 'Persea americana', category: 'fruit', density: 0.95, shelfLifeDays: 4, allergens: [], nutrition: n(160, 2.0, 8.5, 14.7, 6.7), co2PerKg: 1.3, waterPerKg: 1981, tags: [], detectable: true },
+  { id: 'pomegranate', name: 'Pomegranate', synonyms: ['pomegranates'], scientificName: 'Punica granatum', category: 'fruit', density: 0.9, shelfLifeDays: 30, allergens: [], nutrition: n(83, 1.7, 18.7, 1.2, 4.0), co2PerKg: 0.6, waterPerKg: 1000, tags: [], detectable: true },
+  { id: 'kiwi', name: 'Kiwi', synonyms: ['kiwis', 'kiwifruit'], scientificName: 'Actinidia deliciosa', category: 'fruit', density: 1.0, shelfLifeDays: 14, allergens: [], nutrition: n(61, 1.1, 14.7, 0.5, 3.0), co2PerKg: 0.6, waterPerKg: 514, tags: [], detectable: true },
+  { id: 'peach', name: 'Peach', synonyms: ['peaches'], scientificName: 'Prunus persica', category: 'fruit', density: 0.9, shelfLifeDays: 5, allergens: [], nutrition: n(39, 0.9, 9.5, 0.3, 1.5), co2PerKg: 0.5, waterPerKg: 910, tags: [], detectable: true },
+  { id: 'plum', name: 'Plum', synonyms: ['plums'], scientificName: 'Prunus domestica', category: 'fruit', density: 0.95, shelfLifeDays: 5, allergens: [], nutrition: n(46, 0.7, 11.4, 0.3, 1.4), co2PerKg: 0.5, waterPerKg: 2180, tags: [], detectable: true },
+
+  // Vegetables
+  { id: 'spinach', name: 'Spinach', synonyms: ['baby spinach'], scientificName: 'Spinacia oleracea', category: 'vegetable', density: 0.08, shelfLifeDays: 5, allergens: [], nutrition: n(23, 2.9, 3.6, 0.4, 2.2), co2PerKg: 0.5, waterPerKg: 292, tags: ['leafy'], detectable: true },
+  { id: 'kale', name: 'Kale', synonyms: ['cavolo nero'], scientificName: 'Brassica oleracea var. sabellica', category: 'vegetable', density: 0.07, shelfLifeDays: 7, allergens: [], nutrition: n(49, 4.3, 8.8, 0.9, 3.6), co2PerKg: 0.5, waterPerKg: 237, tags: ['leafy'], detectable: true },
+  { id: 'lettuce', name: 'Lettuce', synonyms: ['lettuces', 'romaine', 'iceberg'], scientificName: 'Lactuca sativa', category: 'vegetable', density: 0.25, shelfLifeDays: 7, allergens: [], nutrition: n(15, 1.4, 2.9, 0.2, 1.3), co2PerKg: 0.6, waterPerKg: 237, tags: ['leafy'], detectable: true },
+  { id: 'tomato', name: 'Tomato', synonyms: ['tomatoes', 'cherry tomatoes'], scientificName: 'Solanum lycopersicum', category: 'vegetable', density: 0.95, shelfLifeDays: 7, allergens: [], nutrition: n(18, 0.9, 3.9, 0.2, 1.2), co2PerKg: 2.1, waterPerKg: 214, tags: [], detectable: true },
+  { id: 'carrot', name: 'Carrot', synonyms: ['carrots'], scientificName: 'Daucus carota subsp. sativus', category: 'vegetable', density: 1.03, shelfLifeDays: 21, allergens: [], nutrition: n(41, 0.9, 9.6, 0.2, 2.8), co2PerKg: 0.4, waterPerKg: 195, tags: [], detectable: true },
+  { id: 'broccoli', name: 'Broccoli', synonyms: ['broccolini', 'calabrese'], scientificName: 'Brassica oleracea var. italica', category: 'vegetable', density: 0.35, shelfLifeDays: 5, allergens: [], nutrition: n(34, 2.8, 6.6, 0.4, 2.6), co2PerKg: 0.5, waterPerKg: 285, tags: ['leafy'], detectable: true },
+  { id: 'onion', name: 'Onion', synonyms: ['onions', 'red onion', 'yellow onion'], scientificName: 'Allium cepa', category: 'vegetable', density: 0.95, shelfLifeDays: 30, allergens: [], nutrition: n(40, 1.1, 9.3, 0.1, 1.7), co2PerKg: 0.5, waterPerKg: 272, tags: [], detectable: true, pale: true },
+  { id: 'garlic', name: 'Garlic', synonyms: ['garlic clove', 'garlic cloves'], scientificName: 'Allium sativum', category: 'vegetable', density: 0.7, shelfLifeDays: 60, allergens: [], nutrition: n(149, 6.4, 33.1, 0.5, 2.1), co2PerKg: 0.5, waterPerKg: 589, tags: [], detectable: true, pale: true },
+  { id: 'shallot', name: 'Shallot', synonyms: ['shallots'], scientificName: 'Allium cepa var. aggregatum', category: 'vegetable', density: 0.95, shelfLifeDays: 30, allergens: [], nutrition: n(72, 2.5, 16.8, 0.1, 3.2), co2PerKg: 0.5, waterPerKg: 272, tags: [], detectable: true, pale: true },
+  { id: 'leek', name: 'Leek', synonyms: ['leeks'], scientificName: 'Allium ampeloprasum var. porrum', category: 'vegetable', density: 0.6, shelfLifeDays: 10, allergens: [], nutrition: n(61, 1.5, 14.2, 0.3, 1.8), co2PerKg: 0.5, waterPerKg: 272, tags: ['leafy'], detectable: true },
+  { id: 'bell pepper', name: 'Bell Pepper', synonyms: ['bell peppers', 'peppers', 'capsicum', 'sweet pepper', 'red pepper', 'green pepper', 'yellow pepper'], scientificName: 'Capsicum annuum', category: 'vegetable', density: 0.5, shelfLifeDays: 10, allergens: [], nutrition: n(31, 1.0, 6.0, 0.3, 2.1), co2PerKg: 1.0, waterPerKg: 379, tags: [], detectable: true },
+  { id: 'chili', name: 'Chili', synonyms: ['chilies', 'chilli', 'chillies', 'chile', 'green chili', 'chili pepper', 'chilli pepper', 'chili flakes', 'chilli flakes', 'red pepper flakes', 'pepper flakes', 'crushed red pepper'], scientificName: 'Capsicum annuum', category: 'vegetable', density: 0.7, shelfLifeDays: 14, allergens: [], nutrition: n(40, 1.9, 8.8, 0.4, 1.5), co2PerKg: 1.0, waterPerKg: 379, tags: [], detectable: true },
+  { id: 'zucchini', name: 'Zucchini', synonyms: ['zucchinis', 'courgette', 'courgettes'], scientificName: 'Cucurbita pepo', category: 'vegetable', density: 0.95, shelfLifeDays: 5, allergens: [], nutrition: n(17, 1.2, 3.1, 0.3, 1.0), co2PerKg: 0.5, waterPerKg: 336, tags: [], detectable: true },
+  { id: 'eggplant', name: 'Eggplant', synonyms: ['eggplants', 'aubergine', 'aubergines', 'brinjal'], scientificName: 'Solanum melongena', category: 'vegetable', density: 0.6, shelfLifeDays: 7, allergens: [], nutrition: n(25, 1.0, 5.9, 0.2, 3.0), co2PerKg: 0.5, waterPerKg: 362, tags: [], detectable: true },
+  { id: 'cucumber', name: 'Cucumber', synonyms: ['cucumbers'], scientificName: 'Cucumis sativus', category: 'vegetable', density: 0.95, shelfLifeDays: 7, allergens: [], nutrition: n(15, 0.7, 3.6, 0.1, 0.5), co2PerKg: 0.5, waterPerKg: 353, tags: [], detectable: true },
+  { id: 'potato', name: 'Potato', synonyms: ['potatoes'], scientificName: 'Solanum tuberosum', category: 'vegetable', density: 1.08, shelfLifeDays: 30, allergens: [], nutrition: n(77, 2.0, 17.5, 0.1, 2.2), co2PerKg: 0.5, waterPerKg: 287, tags: ['starchy'], detectable: true, pale: true },
+  { id: 'sweet potato', name: 'Sweet Potato', synonyms: ['sweet potatoes', 'yam', 'kumara'], scientificName: 'Ipomoea batatas', category: 'vegetable', density: 1.05, shelfLifeDays: 21, allergens: [], nutrition: n(86, 1.6, 20.1, 0.1, 3.0), co2PerKg: 0.5, waterPerKg: 383, tags: ['starchy'], detectable: true },
+  { id: 'ginger', name: 'Ginger', synonyms: ['ginger root'], scientificName: 'Zingiber officinale', category: 'vegetable', density: 0.9, shelfLifeDays: 21, allergens: [], nutrition: n(80, 1.8, 17.8, 0.8, 2.0), co2PerKg: 0.9, waterPerKg: 1660, tags: [], detectable: true },
+  { id: 'celery', name: 'Celery', synonyms: ['celery stalk', 'celery stalks'], scientificName: 'Apium graveolens var. dulce', category: 'vegetable', density: 0.6, shelfLifeDays: 14, allergens: ['celery'], nutrition: n(16, 0.7, 3.0, 0.2, 1.6), co2PerKg: 0.5, waterPerKg: 200, tags: ['leafy'], detectable: true },
+  { id: 'asparagus', name: 'Asparagus', synonyms: ['asparagus spears'], scientificName: 'Asparagus officinalis', category: 'vegetable', density: 0.4, shelfLifeDays: 4, allergens: [], nutrition: n(20, 2.2, 3.9, 0.1, 2.1), co2PerKg: 1.0, waterPerKg: 2150, tags: ['leafy'], detectable: true },
+  { id: 'cauliflower', name: 'Cauliflower', synonyms: ['cauliflowers'], scientificName: 'Brassica oleracea var. botrytis', category: 'vegetable', density: 0.4, shelfLifeDays: 7, allergens: [], nutrition: n(25, 1.9, 5.0, 0.3, 2.0), co2PerKg: 0.5, waterPerKg: 285, tags: [], detectable: true, pale: true },
+  { id: 'mushroom', name: 'Mushroom', synonyms: ['mushrooms', 'button mushroom', 'champignon'], scientificName: 'Agaricus bisporus', category: 'vegetable', density: 0.45, shelfLifeDays: 5, allergens: [], nutrition: n(22, 3.1, 3.3, 0.3, 1.0), co2PerKg: 1.0, waterPerKg: 320, tags: [], detectable: true, pale: true },
+
+  // Protein and dairy (detector group "protein")
+  { id: 'chicken', name: 'Chicken', synonyms: ['chicken breast', 'chicken thigh', 'chicken thighs'], scientificName: 'Gallus gallus domesticus', category: 'poultry', density: 1.05, shelfLifeDays: 2, allergens: [], nutrition: n(120, 22.5, 0, 2.6, 0), co2PerKg: 6.1, waterPerKg: 4325, tags: ['animal', 'poultry'], detectable: true },
+  { id: 'beef', name: 'Beef', synonyms: ['steak', 'ground beef', 'minced beef', 'beef mince'], scientificName: 'Bos taurus', category: 'meat', density: 1.05, shelfLifeDays: 4, allergens: [], nutrition: n(217, 18.6, 0, 15.0, 0), co2PerKg: 60, waterPerKg: 15415, tags: ['animal', 'meat'], detectable: true },
+  { id: 'pork', name: 'Pork', synonyms: ['pork chop', 'pork chops', 'pork loin'], scientificName: 'Sus scrofa domesticus', category: 'meat', density: 1.05, shelfLifeDays: 4, allergens: [], nutrition: n(211, 18.5, 0, 14.7, 0), co2PerKg: 7.2, waterPerKg: 5988, tags: ['animal', 'meat'], detectable: true },
+  { id: 'lamb', name: 'Lamb', synonyms: ['mutton', 'lamb chops'], scientificName: 'Ovis aries', category: 'meat', density: 1.05, shelfLifeDays: 4, allergens: [], nutrition: n(282, 16.6, 0, 23.4, 0), co2PerKg: 24.5, waterPerKg: 10412, tags: ['animal', 'meat'], detectable: true },
+  { id: 'egg', name: 'Egg', synonyms: ['eggs'], scientificName: 'Gallus gallus domesticus (egg)', category: 'egg', density: 1.03, shelfLifeDays: 28, allergens: ['egg'], nutrition: n(143, 12.6, 0.7, 9.5, 0), co2PerKg: 4.5, waterPerKg: 3265, tags: ['animal', 'egg'], detectable: true },
+  { id: 'tofu', name: 'Tofu', synonyms: ['bean curd'], scientificName: 'Glycine max (coagulated soy milk)', category: 'plant-protein', density: 1.0, shelfLifeDays: 5, allergens: ['soy'], nutrition: n(76, 8.1, 1.9, 4.8, 0.3), co2PerKg: 3.0, waterPerKg: 2500, tags: ['legume'], detectable: true },
+  { id: 'salmon', name: 'Salmon', synonyms: ['salmon fillet', 'salmon fillets'], scientificName: 'Salmo salar', category: 'seafood', density: 1.05, shelfLifeDays: 2, allergens: ['fish'], nutrition: n(208, 20.4, 0, 13.4, 0), co2PerKg: 6.0, waterPerKg: 2000, tags: ['animal', 'seafood'], detectable: true },
+  { id: 'shrimp', name: 'Shrimp', synonyms: ['shrimps', 'prawn', 'prawns'], scientificName: 'Penaeus vannamei', category: 'seafood', density: 0.6, shelfLifeDays: 2, allergens: ['crustacean'], nutrition: n(85, 20.1, 0, 0.5, 0), co2PerKg: 26.9, waterPerKg: 3500, tags: ['animal', 'seafood'], detectable: true, pale: true },
+  { id: 'cheese', name: 'Cheese', synonyms: ['cheddar', 'cheeses'], scientificName: 'Bos taurus (cultured, coagulated milk)', category: 'dairy', density: 1.1, shelfLifeDays: 21, allergens: ['milk'], nutrition: n(403, 24.9, 1.3, 33.1, 0), co2PerKg: 21.2, waterPerKg: 5060, tags: ['animal', 'dairy'], detectable: true },
+  { id: 'yogurt', name: 'Yogurt', synonyms: ['yoghurt', 'curd', 'greek yogurt'], scientificName: 'Bos taurus (milk fermented by Lactobacillus delbrueckii subsp. bulgaricus)', category: 'dairy', density: 1.05, shelfLifeDays: 14, allergens: ['milk'], nutrition: n(61, 3.5, 4.7, 3.3, 0), co2PerKg: 2.5, waterPerKg: 1100, tags: ['animal', 'dairy'], detectable: true },
+  { id: 'milk', name: 'Milk', synonyms: ['whole milk', 'cow milk', "cow's milk"], scientificName: 'Bos taurus (milk)', category: 'dairy', density: 1.03, shelfLifeDays: 7, allergens: ['milk'], nutrition: n(61, 3.2, 4.8, 3.3, 0), co2PerKg: 3.2, waterPerKg: 1020, tags: ['animal', 'dairy'], detectable: true },
+  { id: 'tempeh', name: 'Tempeh', synonyms: [], scientificName: 'Glycine max (fermented by Rhizopus oligosporus)', category: 'plant-protein', density: 0.95, shelfLifeDays: 10, allergens: ['soy'], nutrition: n(192, 20.3, 7.6, 10.8, 0), co2PerKg: 2.5, waterPerKg: 2500, tags: ['legume'], detectable: true },
+  { id: 'beans', name: 'Beans', synonyms: ['bean', 'kidney beans', 'black beans', 'rajma'], scientificName: 'Phaseolus vulgaris', category: 'legume', density: 0.75, shelfLifeDays: 5, allergens: [], nutrition: n(127, 8.7, 22.8, 0.5, 6.4), co2PerKg: 2.0, waterPerKg: 5053, tags: ['legume', 'starchy'], detectable: true },
+  { id: 'lentils', name: 'Lentils', synonyms: ['lentil', 'dal', 'dhal'], scientificName: 'Lens culinaris', category: 'legume', density: 0.8, shelfLifeDays: 5, allergens: [], nutrition: n(116, 9.0, 20.1, 0.4, 7.9), co2PerKg: 0.9, waterPerKg: 5874, tags: ['legume', 'starchy'], detectable: true },
+
+  // Condiments (detector group "condiment")
+  { id: 'butter', name: 'Butter', synonyms: ['unsalted butter', 'salted butter'], scientificName: 'Bos taurus (churned milk fat)', category: 'dairy', density: 0.91, shelfLifeDays: 60, allergens: ['milk'], nutrition: n(717, 0.9, 0.1, 81.1, 0), co2PerKg: 12.0, waterPerKg: 5553, tags: ['animal', 'dairy'], detectable: true },
+  { id: 'mayo', name: 'Mayonnaise', synonyms: ['mayonnaise'], scientificName: 'Gallus gallus domesticus (egg yolk) emulsified with plant oil', category: 'condiment', density: 0.91, shelfLifeDays: 60, allergens: ['egg', 'mustard'], nutrition: n(680, 1.0, 0.6, 75.0, 0), co2PerKg: 3.0, waterPerKg: 2500, tags: ['animal', 'egg'], detectable: true, pale: true },
+  { id: 'ketchup', name: 'Ketchup', synonyms: ['tomato ketchup', 'catsup', 'tomato sauce'], scientificName: 'Solanum lycopersicum (concentrated, sweetened)', category: 'condiment', density: 1.1, shelfLifeDays: 180, allergens: [], nutrition: n(101, 1.0, 27.4, 0.1, 0.3), co2PerKg: 1.5, waterPerKg: 530, tags: ['sweetener'], detectable: true },
+  { id: 'soy sauce', name: 'Soy Sauce', synonyms: ['soya sauce', 'shoyu'], scientificName: 'Glycine max & Triticum aestivum (fermented by Aspergillus oryzae)', category: 'condiment', density: 1.15, shelfLifeDays: 365, allergens: ['soy', 'gluten'], nutrition: n(53, 8.1, 4.9, 0.6, 0.8), co2PerKg: 1.5, waterPerKg: 2100, tags: ['legume', 'grain'], detectable: true },
+  { id: 'mustard', name: 'Mustard', synonyms: ['dijon', 'dijon mustard'], scientificName: 'Sinapis alba & Brassica juncea (ground seed)', category: 'condiment', density: 1.05, shelfLifeDays: 365, allergens: ['mustard'], nutrition: n(60, 3.7, 5.8, 3.3, 4.0), co2PerKg: 1.0, waterPerKg: 1200, tags: ['seed'], detectable: true },
+  { id: 'olive oil', name: 'Olive Oil', synonyms: ['extra virgin olive oil', 'evoo'], scientificName: 'Olea europaea (pressed fruit oil)', category: 'oil-fat', density: 0.91, shelfLifeDays: 365, allergens: [], nutrition: n(884, 0, 0, 100, 0), co2PerKg: 5.4, waterPerKg: 14430, tags: [], detectable: true },
+  { id: 'vinegar', name: 'Vinegar', synonyms: ['white vinegar', 'wine vinegar', 'balsamic'], scientificName: 'Acetic fermentation by Acetobacter aceti', category: 'condiment', density: 1.01, shelfLifeDays: 730, allergens: ['sulphite'], nutrition: n(18, 0, 0.04, 0, 0), co2PerKg: 0.8, waterPerKg: 600, tags: [], detectable: true },
+  { id: 'honey', name: 'Honey', synonyms: [], scientificName: 'Apis mellifera (honey)', category: 'sweetener', density: 1.42, shelfLifeDays: 730, allergens: [], nutrition: n(304, 0.3, 82.4, 0, 0.2), co2PerKg: 1.5, waterPerKg: 1500, tags: ['animal', 'sweetener'], detectable: true },
+  { id: 'maple syrup', name: 'Maple Syrup', synonyms: ['maple'], scientificName: 'Acer saccharum (reduced sap)', category: 'sweetener', density: 1.33, shelfLifeDays: 365, allergens: [], nutrition: n(260, 0, 67.0, 0.1, 0), co2PerKg: 2.0, waterPerKg: 1000, tags: ['sweetener'], detectable: true },
+  { id: 'miso', name: 'Miso', synonyms: ['miso paste'], scientificName: 'Glycine max (fermented by Aspergillus oryzae)', category: 'condiment', density: 1.15, shelfLifeDays: 270, allergens: ['soy'], nutrition: n(199, 12.8, 25.4, 6.0, 5.4), co2PerKg: 2.0, waterPerKg: 2100, tags: ['legume'], detectable: true },
+  { id: 'tahini', name: 'Tahini', synonyms: ['tahina', 'sesame paste'], scientificName: 'Sesamum indicum (ground seed)', category: 'nut-seed', density: 1.05, shelfLifeDays: 180, allergens: ['sesame'], nutrition: n(595, 17.0, 21.2, 53.8, 9.3), co2PerKg: 2.0, waterPerKg: 9000, tags: ['seed'], detectable: true },
+
+  // Herbs
+  { id: 'basil', name: 'Basil', synonyms: ['thai basil', 'sweet basil'], scientificName: 'Ocimum basilicum', category: 'herb', density: 0.05, shelfLifeDays: 5, allergens: [], nutrition: n(23, 3.2, 2.7, 0.6, 1.6), co2PerKg: 1.0, waterPerKg: 300, tags: ['leafy'], detectable: true },
+  { id: 'cilantro', name: 'Cilantro', synonyms: ['coriander', 'coriander leaves', 'fresh coriander'], scientificName: 'Coriandrum sativum', category: 'herb', density: 0.05, shelfLifeDays: 7, allergens: [], nutrition: n(23, 2.1, 3.7, 0.5, 2.8), co2PerKg: 1.0, waterPerKg: 300, tags: ['leafy'], detectable: true },
+  { id: 'parsley', name: 'Parsley', synonyms: ['flat-leaf parsley', 'curly parsley'], scientificName: 'Petroselinum crispum', category: 'herb', density: 0.05, shelfLifeDays: 10, allergens: [], nutrition: n(36, 3.0, 6.3, 0.8, 3.3), co2PerKg: 1.0, waterPerKg: 300, tags: ['leafy'], detectable: true },
+  { id: 'thyme', name: 'Thyme', synonyms: [], scientificName: 'Thymus vulgaris', category: 'herb', density: 0.05, shelfLifeDays: 14, allergens: [], nutrition: n(101, 5.6, 24.5, 1.7, 14.0), co2PerKg: 1.0, waterPerKg: 300, tags: ['leafy'], detectable: true },
+  { id: 'rosemary', name: 'Rosemary', synonyms: [], scientificName: 'Salvia rosmarinus', category: 'herb', density: 0.05, shelfLifeDays: 14, allergens: [], nutrition: n(131, 3.3, 20.7, 5.9, 14.1), co2PerKg: 1.0, waterPerKg: 300, tags: ['leafy'], detectable: true },
+  { id: 'oregano', name: 'Oregano', synonyms: [], scientificName: 'Origanum vulgare', category: 'herb', density: 0.05, shelfLifeDays: 10, allergens: [], nutrition: n(66, 2.5, 11.0, 1.5, 6.5), co2PerKg: 1.0, waterPerKg: 300, tags: ['leafy'], detectable: true },
+  { id: 'mint', name: 'Mint', synonyms: ['spearmint', 'pudina leaves'], scientificName: 'Mentha spicata', category: 'herb', density: 0.05, shelfLifeDays: 7, allergens: [], nutrition: n(70, 3.8, 14.9, 0.9, 8.0), co2PerKg: 1.0, waterPerKg: 300, tags: ['leafy'], detectable: true },
+  { id: 'dill', name: 'Dill', synonyms: [], scientificName: 'Anethum graveolens', category: 'herb', density: 0.05, shelfLifeDays: 7, allergens: [], nutrition: n(43, 3.5, 7.0, 1.1, 2.1), co2PerKg: 1.0, waterPerKg: 300, tags: ['leafy'], detectable: true },
+  { id: 'chives', name: 'Chives', synonyms: ['chive'], scientificName: 'Allium schoenoprasum', category: 'herb', density: 0.05, shelfLifeDays: 7, allergens: [], nutrition: n(30, 3.3, 4.4, 0.7, 2.5), co2PerKg: 1.0, waterPerKg: 300, tags: ['leafy'], detectable: true },
+  { id: 'sage', name: 'Sage', synonyms: [], scientificName: 'Salvia officinalis', category: 'herb', density: 0.05, shelfLifeDays: 10, allergens: [], nutrition: n(50, 2.5, 9.0, 1.5, 6.0), co2PerKg: 1.0, waterPerKg: 300, tags: ['leafy'], detectable: true },
+
+  // Pantry staples and common recipe ingredients (not detected visually)
+  { id: 'rice', name: 'Rice', synonyms: ['white rice', 'basmati', 'basmati rice', 'jasmine rice'], scientificName: 'Oryza sativa', category: 'grain', density: 0.85, shelfLifeDays: 365, allergens: [], nutrition: n(365, 7.1, 80.0, 0.7, 1.3), co2PerKg: 4.5, waterPerKg: 2497, tags: ['grain', 'starchy'] },
+  { id: 'pasta', name: 'Pasta', synonyms: ['spaghetti', 'penne', 'noodles', 'macaroni'], scientificName: 'Triticum durum (dried dough)', category: 'grain', density: 0.6, shelfLifeDays: 730, allergens: ['gluten'], nutrition: n(371, 13.0, 75.0, 1.5, 3.2), co2PerKg: 1.6, waterPerKg: 1849, tags: ['grain', 'starchy'] },
+  { id: 'flour', name: 'Flour', synonyms: ['wheat flour', 'plain flour', 'all-purpose flour', 'atta', 'maida'], scientificName: 'Triticum aestivum (milled grain)', category: 'grain', density: 0.55, shelfLifeDays: 240, allergens: ['gluten'], nutrition: n(364, 10.3, 76.3, 1.0, 2.7), co2PerKg: 1.4, waterPerKg: 1827, tags: ['grain', 'starchy'] },
+  { id: 'bread', name: 'Bread', synonyms: ['loaf', 'toast', 'sourdough'], scientificName: 'Triticum aestivum (leavened, baked)', category: 'grain', density: 0.25, shelfLifeDays: 5, allergens: ['gluten'], nutrition: n(265, 9.0, 49.0, 3.2, 2.7), co2PerKg: 1.6, waterPerKg: 1608, tags: ['grain', 'starchy'] },
+  { id: 'oats', name: 'Oats', synonyms: ['oat', 'rolled oats', 'oatmeal', 'porridge oats'], scientificName: 'Avena sativa', category: 'grain', density: 0.4, shelfLifeDays: 365, allergens: ['gluten'], nutrition: n(389, 16.9, 66.3, 6.9, 10.6), co2PerKg: 2.5, waterPerKg: 1788, tags: ['grain', 'starchy'] },
+  { id: 'quinoa', name: 'Quinoa', synonyms: [], scientificName: 'Chenopodium quinoa', category: 'grain', density: 0.75, shelfLifeDays: 365, allergens: [], nutrition: n(368, 14.1, 64.2, 6.1, 7.0), co2PerKg: 1.5, waterPerKg: 1500, tags: ['starchy'] },
+  { id: 'chickpeas', name: 'Chickpeas', synonyms: ['chickpea', 'garbanzo', 'garbanzo beans', 'chana'], scientificName: 'Cicer arietinum', category: 'legume', density: 0.75, shelfLifeDays: 4, allergens: [], nutrition: n(164, 8.9, 27.4, 2.6, 7.6), co2PerKg: 0.9, waterPerKg: 4177, tags: ['legume', 'starchy'] },
+  { id: 'peas', name: 'Peas', synonyms: ['pea', 'green peas', 'garden peas', 'matar'], scientificName: 'Pisum sativum', category: 'legume', density: 0.7, shelfLifeDays: 4, allergens: [], nutrition: n(81, 5.4, 14.5, 0.4, 5.7), co2PerKg: 0.9, waterPerKg: 595, tags: ['legume', 'starchy'] },
+  { id: 'corn', name: 'Sweet Corn', synonyms: ['sweetcorn', 'corn on the cob', 'maize'], scientificName: 'Zea mays convar. saccharata', category: 'vegetable', density: 0.7, shelfLifeDays: 3, allergens: [], nutrition: n(86, 3.3, 19.0, 1.4, 2.0), co2PerKg: 1.0, waterPerKg: 1222, tags: ['grain', 'starchy'] },
+  { id: 'cabbage', name: 'Cabbage', synonyms: ['cabbages', 'red cabbage'], scientificName: 'Brassica oleracea var. capitata', category: 'vegetable', density: 0.45, shelfLifeDays: 30, allergens: [], nutrition: n(25, 1.3, 5.8, 0.1, 2.5), co2PerKg: 0.5, waterPerKg: 237, tags: ['leafy'] },
+  { id: 'spring onion', name: 'Spring Onion', synonyms: ['spring onions', 'scallion', 'scallions', 'green onion', 'green onions'], scientificName: 'Allium fistulosum', category: 'vegetable', density: 0.3, shelfLifeDays: 7, allergens: [], nutrition: n(32, 1.8, 7.3, 0.2, 2.6), co2PerKg: 0.5, waterPerKg: 272, tags: ['leafy'] },
+  { id: 'pumpkin', name: 'Pumpkin', synonyms: ['squash', 'butternut squash'], scientificName: 'Cucurbita maxima', category: 'vegetable', density: 0.75, shelfLifeDays: 60, allergens: [], nutrition: n(26, 1.0, 6.5, 0.1, 0.5), co2PerKg: 0.5, waterPerKg: 336, tags: ['starchy'] },
+  { id: 'beetroot', name: 'Beetroot', synonyms: ['beet', 'beets'], scientificName: 'Beta vulgaris', category: 'vegetable', density: 1.0, shelfLifeDays: 21, allergens: [], nutrition: n(43, 1.6, 9.6, 0.2, 2.8), co2PerKg: 0.4, waterPerKg: 132, tags: ['starchy'] },
+  { id: 'coconut', name: 'Coconut', synonyms: ['coconut flesh', 'desiccated coconut'], scientificName: 'Cocos nucifera', category: 'fruit', density: 0.6, shelfLifeDays: 7, allergens: [], nutrition: n(354, 3.3, 15.2, 33.5, 9.0), co2PerKg: 1.0, waterPerKg: 2687, tags: [], pale: true },
+  { id: 'turkey', name: 'Turkey', synonyms: ['turkey breast'], scientificName: 'Meleagris gallopavo', category: 'poultry', density: 1.05, shelfLifeDays: 2, allergens: [], nutrition: n(114, 23.7, 0, 1.5, 0), co2PerKg: 6.1, waterPerKg: 4325, tags: ['animal', 'poultry'] },
+  { id: 'cod', name: 'Cod', synonyms: ['white fish', 'cod fillet'], scientificName: 'Gadus morhua', category: 'seafood', density: 1.05, shelfLifeDays: 2, allergens: ['fish'], nutrition: n(82, 17.8, 0, 0.7, 0), co2PerKg: 5.4, waterPerKg: 2000, tags: ['animal', 'seafood'], pale: true },
+  { id: 'tuna', name: 'Tuna', synonyms: ['tuna steak', 'canned tuna'], scientificName: 'Thunnus albacares', category: 'seafood', density: 1.05, shelfLifeDays: 2, allergens: ['fish'], nutrition: n(109, 24.4, 0, 0.5, 0), co2PerKg: 6.1, waterPerKg: 2000, tags: ['animal', 'seafood'] },
+  { id: 'anchovy', name: 'Anchovy', synonyms: ['anchovies'], scientificName: 'Engraulis encrasicolus', category: 'seafood', density: 1.0, shelfLifeDays: 60, allergens: ['fish'], nutrition: n(131, 20.4, 0, 4.8, 0), co2PerKg: 3.5, waterPerKg: 2000, tags: ['animal', 'seafood'] },
+  { id: 'paneer', name: 'Paneer', synonyms: ['cottage cheese', 'chhena'], scientificName: 'Bos taurus / Bubalus bubalis (acid-set milk curd)', category: 'dairy', density: 1.05, shelfLifeDays: 5, allergens: ['milk'], nutrition: n(296, 20.0, 3.0, 23.0, 0), co2PerKg: 12.0, waterPerKg: 5060, tags: ['animal', 'dairy'] },
+  { id: 'mozzarella', name: 'Mozzarella', synonyms: ['buffalo mozzarella', 'burrata'], scientificName: 'Bubalus bubalis / Bos taurus (pasta filata curd)', category: 'dairy', density: 1.0, shelfLifeDays: 7, allergens: ['milk'], nutrition: n(300, 22.2, 2.2, 22.4, 0), co2PerKg: 21.2, waterPerKg: 5060, tags: ['animal', 'dairy'] },
+  { id: 'parmesan', name: 'Parmesan', synonyms: ['parmigiano', 'parmigiano-reggiano', 'pecorino'], scientificName: 'Bos taurus (hard-aged cultured milk)', category: 'dairy', density: 1.1, shelfLifeDays: 60, allergens: ['milk'], nutrition: n(392, 35.8, 3.2, 25.8, 0), co2PerKg: 21.2, waterPerKg: 5060, tags: ['animal', 'dairy'] },
+  { id: 'cream', name: 'Cream', synonyms: ['heavy cream', 'double cream', 'whipping cream', 'malai'], scientificName: 'Bos taurus (separated milk fat)', category: 'dairy', density: 1.0, shelfLifeDays: 7, allergens: ['milk'], nutrition: n(340, 2.8, 2.7, 36.0, 0), co2PerKg: 7.6, waterPerKg: 2500, tags: ['animal', 'dairy'] },
+  { id: 'ghee', name: 'Ghee', synonyms: ['clarified butter'], scientificName: 'Bos taurus (clarified milk fat)', category: 'oil-fat', density: 0.91, shelfLifeDays: 270, allergens: ['milk'], nutrition: n(900, 0, 0, 99.5, 0), co2PerKg: 12.0, waterPerKg: 5553, tags: ['animal', 'dairy'] },
+  { id: 'coconut milk', name: 'Coconut Milk', synonyms: ['coconut cream'], scientificName: 'Cocos nucifera (pressed flesh)', category: 'beverage', density: 0.97, shelfLifeDays: 4, allergens: [], nutrition: n(230, 2.3, 5.5, 23.8, 2.2), co2PerKg: 1.2, waterPerKg: 2000, tags: [], pale: true },
+  { id: 'soy milk', name: 'Soy Milk', synonyms: ['soya milk'], scientificName: 'Glycine max (aqueous extract)', category: 'beverage', density: 1.03, shelfLifeDays: 7, allergens: ['soy'], nutrition: n(54, 3.3, 6.3, 1.8, 0.6), co2PerKg: 1.0, waterPerKg: 297, tags: ['legume'], pale: true },
+  { id: 'oat milk', name: 'Oat Milk', synonyms: [], scientificName: 'Avena sativa (aqueous extract)', category: 'beverage', density: 1.03, shelfLifeDays: 7, allergens: ['gluten'], nutrition: n(48, 1.0, 7.0, 1.5, 0.8), co2PerKg: 0.9, waterPerKg: 480, tags: ['grain'], pale: true },
+  { id: 'coconut oil', name: 'Coconut Oil', synonyms: [], scientificName: 'Cocos nucifera (pressed kernel oil)', category: 'oil-fat', density: 0.92, shelfLifeDays: 730, allergens: [], nutrition: n(862, 0, 0, 100, 0), co2PerKg: 3.5, waterPerKg: 4490, tags: [] },
+  { id: 'sugar', name: 'Sugar', synonyms: ['white sugar', 'caster sugar', 'brown sugar', 'jaggery'], scientificName: 'Saccharum officinarum / Beta vulgaris (refined sucrose)', category: 'sweetener', density: 0.85, shelfLifeDays: 730, allergens: [], nutrition: n(387, 0, 100, 0, 0), co2PerKg: 3.2, waterPerKg: 1782, tags: ['sweetener'], pale: true },
+  { id: 'salt', name: 'Salt', synonyms: ['sea salt', 'table salt'], scientificName: 'Sodium chloride (mineral)', category: 'spice', density: 1.2, shelfLifeDays: 1825, allergens: [], nutrition: n(0, 0, 0, 0, 0), co2PerKg: 0.2, waterPerKg: 10, tags: [], pale: true },
+  { id: 'black pepper', name: 'Black Pepper', synonyms: ['pepper', 'peppercorns', 'kali mirch'], scientificName: 'Piper nigrum', category: 'spice', density: 0.5, shelfLifeDays: 730, allergens: [], nutrition: n(251, 10.4, 64.0, 3.3, 25.3), co2PerKg: 2.0, waterPerKg: 7611, tags: [] },
+  { id: 'cumin', name: 'Cumin', synonyms: ['cumin seeds', 'jeera'], scientificName: 'Cuminum cyminum', category: 'spice', density: 0.5, shelfLifeDays: 730, allergens: [], nutrition: n(375, 17.8, 44.2, 22.3, 10.5), co2PerKg: 2.0, waterPerKg: 7000, tags: ['seed'] },
+  { id: 'turmeric', name: 'Turmeric', synonyms: ['haldi'], scientificName: 'Curcuma longa', category: 'spice', density: 0.5, shelfLifeDays: 730, allergens: [], nutrition: n(312, 9.7, 67.1, 3.3, 22.7), co2PerKg: 2.0, waterPerKg: 7000, tags: [] },
+  { id: 'paprika', name: 'Paprika', synonyms: ['smoked paprika', 'chili powder', 'red chili powder'], scientificName: 'Capsicum annuum (dried, ground)', category: 'spice', density: 0.5, shelfLifeDays: 730, allergens: [], nutrition: n(282, 14.1, 54.0, 12.9, 34.9), co2PerKg: 2.0, waterPerKg: 7000, tags: [] },
+  { id: 'cinnamon', name: 'Cinnamon', synonyms: ['dalchini'], scientificName: 'Cinnamomum verum', category: 'spice', density: 0.5, shelfLifeDays: 730, allergens: [], nutrition: n(247, 4.0, 80.6, 1.2, 53.1), co2PerKg: 2.0, waterPerKg: 7000, tags: [] },
+  { id: 'almond', name: 'Almond', synonyms: ['almonds', 'badam'], scientificName: 'Prunus dulcis', category: 'nut-seed', density: 0.6, shelfLifeDays: 180, allergens: ['tree-nut'], nutrition: n(579, 21.2, 21.6, 49.9, 12.5), co2PerKg: 2.3, waterPerKg: 16095, tags: ['nut'] },
+  { id: 'walnut', name: 'Walnut', synonyms: ['walnuts'], scientificName: 'Juglans regia', category: 'nut-seed', density: 0.6, shelfLifeDays: 180, allergens: ['tree-nut'], nutrition: n(654, 15.2, 13.7, 65.2, 6.7), co2PerKg: 2.3, waterPerKg: 9280, tags: ['nut'] },
+  { id: 'cashew', name: 'Cashew', synonyms: ['cashews', 'cashew nuts', 'kaju'], scientificName: 'Anacardium occidentale', category: 'nut-seed', density: 0.6, shelfLifeDays: 180, allergens: ['tree-nut'], nutrition: n(553, 18.2, 30.2, 43.9, 3.3), co2PerKg: 2.3, waterPerKg: 14218, tags: ['nut'] },
+  { id: 'peanut', name: 'Peanut', synonyms: ['peanuts', 'groundnut', 'groundnuts'], scientificName: 'Arachis hypogaea', category: 'legume', density: 0.6, shelfLifeDays: 180, allergens: ['peanut'], nutrition: n(567, 25.8, 16.1, 49.2, 8.5), co2PerKg: 3.2, waterPerKg: 2782, tags: ['legume'] },
+  { id: 'peanut butter', name: 'Peanut Butter', synonyms: [], scientificName: 'Arachis hypogaea (ground seed)', category: 'condiment', density: 1.1, shelfLifeDays: 180, allergens: ['peanut'], nutrition: n(588, 25.0, 20.0, 50.0, 6.0), co2PerKg: 3.2, waterPerKg: 2782, tags: ['legume'] },
+  { id: 'sesame seeds', name: 'Sesame Seeds', synonyms: ['sesame', 'til'], scientificName: 'Sesamum indicum', category: 'nut-seed', density: 0.6, shelfLifeDays: 180, allergens: ['sesame'], nutrition: n(573, 17.7, 23.4, 49.7, 11.8), co2PerKg: 2.0, waterPerKg: 9371, tags: ['seed'] },
+  { id: 'dark chocolate', name: 'Dark Chocolate', synonyms: ['chocolate', 'cocoa'], scientificName: 'Theobroma cacao (fermented, roasted bean)', category: 'sweetener', density: 1.2, shelfLifeDays: 365, allergens: ['milk'], nutrition: n(598, 7.8, 45.9, 42.6, 10.9), co2PerKg: 18.7, waterPerKg: 17196, tags: ['sweetener'] },
+  { id: 'white wine', name: 'White Wine', synonyms: ['dry white wine', 'wine'], scientificName: 'Vitis vinifera (fermented juice)', category: 'beverage', density: 0.99, shelfLifeDays: 5, allergens: ['sulphite'], nutrition: n(82, 0.1, 2.6, 0, 0), co2PerKg: 1.8, waterPerKg: 870, tags: [] }
+];
+
+const BY_ID = new Map(CATALOGUE.map(entry => [entry.id, entry]));
+
+const normalise = (name: string) => name.toLowerCase().trim().replace(/\s+/g, ' ');
+
+const BY_NAME = new Map<string, CatalogueEntry>();
+CATALOGUE.forEach(entry => {
+  [entry.id, entry.name, ...entry.synonyms].forEach(alias => {
+    const key = normalise(alias);
+    if (!BY_NAME.has(key)) BY_NAME.set(key, entry);
+  });
+});
+
+/**
+ * Entries the detector can emit, in its output class order.
+ */
+export const DETECTABLE_ENTRIES: CatalogueEntry[] = CATALOGUE.filter(entry => entry.detectable);
+
+export const getEntry = (id: string): CatalogueEntry | undefined => BY_ID.get(id);
+
+/**
+ * Exact lookup by canonical id, display name or synonym (case-insensitive),
+ * with simple English plural stripping as a last resort.
+ */
+export const lookupIngredient = (name: string): CatalogueEntry | undefined => {
+  const key = normalise(name);
+  return BY_NAME.get(key)
+    || BY_NAME.get(key.replace(/ies$/, 'y'))
+    || BY_NAME.get(key.replace(/(es|s)$/, ''));
+};
+
+/**
+ * Catalogue entry for an inventory item: its recorded id first, then its name.
+ */
+export const entryFor = (ingredient: Pick<Ingredient, 'name'> & { catalogueId?: string }): CatalogueEntry | undefined =>
+  (ingredient.catalogueId && BY_ID.get(ingredient.catalogueId)) || lookupIngredient(ingredient.name);
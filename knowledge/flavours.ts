@@ -0,0 +1,261 @@
+import { CATALOGUE, CatalogueEntry } from './catalogue';
+
+/**
+ * flavours.ts
+ * Flavour-compound graph over the catalogue. Each entry carries the
+ * intensity (0–1) of the compound families that dominate its aroma and
+ * taste; two ingredients pair as strongly as their profiles overlap (cosine
+ * similarity), with a boost for classic pairings that the shared-compound
+ * rule misses (tomato and basil share little, yet belong together).
+ * Intensities are editorial estimates guided by Ahn et al. (2011), "Flavor
+ * network and the principles of food pairing".
+ */
+
+export type FlavourFamily =
+  | 'sulfurous' | 'citrus' | 'green' | 'roasted' | 'umami' | 'creamy'
+  | 'fruity' | 'floral' | 'warm-spice' | 'herbaceous' | 'pungent'
+  | 'earthy' | 'marine' | 'sour' | 'caramel' | 'anise' | 'fatty';
+
+export interface FlavourFamilyInfo {
+  label: string;
+  compounds: string[]; // Representative compounds, strongest first
+}
+
+export const FLAVOUR_FAMILIES: Record<FlavourFamily, FlavourFamilyInfo> = {
+  'sulfurous': { label: 'Sulfurous', compounds: ['allicin', 'diallyl disulfide', 'dimethyl trisulfide'] },
+  'citrus': { label: 'Citrus', compounds: ['limonene', 'citral', 'octanal'] },
+  'green': { label: 'Green', compounds: ['hexanal', '(Z)-3-hexenol', 'nonadienal'] },
+  'roasted': { label: 'Roasted', compounds: ['pyrazines', 'furfural', '2-acetyl-1-pyrroline'] },
+  'umami': { label: 'Umami', compounds: ['glutamate', 'inosinate', 'guanylate'] },
+  'creamy': { label: 'Creamy', compounds: ['δ-decalactone', 'diacetyl', 'γ-lactones'] },
+  'fruity': { label: 'Fruity', compounds: ['ethyl butanoate', 'isoamyl acetate', 'hexyl acetate'] },
+  'floral': { label: 'Floral', compounds: ['linalool', 'geraniol', 'β-ionone'] },
+  'warm-spice': { label: 'Warm Spice', compounds: ['cinnamaldehyde', 'eugenol', 'vanillin'] },
+  'herbaceous': { label: 'Herbaceous', compounds: ['thymol', 'carvacrol', '1,8-cineole'] },
+  'pungent': { label: 'Pungent', compounds: ['capsaicin', 'piperine', 'gingerol', 'allyl isothiocyanate'] },
+  'earthy': { label: 'Earthy', compounds: ['geosmin', '1-octen-3-ol', 'methoxypyrazines'] },
+  'marine': { label: 'Marine', compounds: ['trimethylamine', 'bromophenols', 'dimethyl sulfide'] },
+  'sour': { label: 'Sour', compounds: ['citric acid', 'acetic acid', 'lactic acid'] },
+  'caramel': { label: 'Caramel', compounds: ['furaneol', 'maltol', 'sotolon'] },
+  'anise': { label: 'Anise', compounds: ['anethole', 'carvone', 'estragole'] },
+  'fatty': { label: 'Nutty-Fatty', compounds: ['nonanal', '(E,E)-2,4-decadienal', 'oleic acid'] }
+};
+
+type FlavourProfile = Partial<Record<FlavourFamily, number>>;
+
+/**
+ * Per catalogue id. Entries without a profile (salt, flour) carry no aroma
+ * of their own and sit outside the graph.
+ */
+const FLAVOUR_PROFILES: Record<string, FlavourProfile> = {
+  // Fruit
+  'apple': { fruity: 0.9, green: 0.5, sour: 0.3, floral: 0.2, 'warm-spice': 0.2 },
+  'banana': { fruity: 1, creamy: 0.3, caramel: 0.4, 'warm-spice': 0.3 },
+  'orange': { citrus: 0.9, fruity: 0.5, floral: 0.4, sour: 0.4 },
+  'pear': { fruity: 0.9, green: 0.3, floral: 0.2, 'warm-spice': 0.2 },
+  'strawberry': { fruity: 0.9, caramel: 0.6, creamy: 0.3, floral: 0.3, sour: 0.3 },
+  'blueberry': { fruity: 0.6, floral: 0.5, green: 0.2, sour: 0.3 },
+  'raspberry': { fruity: 0.7, floral: 0.6, sour: 0.5 },
+  'mango': { fruity: 0.6, creamy: 0.5, citrus: 0.3, floral: 0.4, caramel: 0.4 },
+  'pineapple': { fruity: 1, caramel: 0.5, sour: 0.4, creamy: 0.3 },
+  'grape': { fruity: 0.8, floral: 0.5, green: 0.3, sour: 0.3 },
+  'lemon': { citrus: 1, sour: 0.8, floral: 0.3, herbaceous: 0.2 },
+  'lime': { citrus: 1, sour: 0.8, floral: 0.3, green: 0.2 },
+  'avocado': { fatty: 0.7, green: 0.5, creamy: 0.4 },
+  'pomegranate': { fruity: 0.6, sour: 0.6, floral: 0.3 },
+  'kiwi': { fruity: 0.6, green: 0.6, sour: 0.5 },
+  'peach': { creamy: 1, fruity: 0.5, floral: 0.4 },
+  'plum': { fruity: 0.6, sour: 0.4, floral: 0.4, 'warm-spice': 0.2 },
+  'coconut': { creamy: 1, caramel: 0.3, fatty: 0.4 },
+
+  // Vegetables
+  'spinach': { green: 0.5, umami: 0.3, earthy: 0.3 },
+  'kale': { green: 0.5, sulfurous: 0.4, earthy: 0.2 },
+  'lettuce': { green: 0.8 },
+  'tomato': { umami: 0.8, green: 0.5, sour: 0.5, fruity: 0.2, caramel: 0.2 },
+  'carrot': { earthy: 0.5, caramel: 0.4, green: 0.2, floral: 0.2 },
+  'broccoli': { sulfurous: 0.5, green: 0.4, umami: 0.3 },
+  'onion': { sulfurous: 0.9, caramel: 0.3, roasted: 0.3, pungent: 0.3, umami: 0.3 },
+  'garlic': { sulfurous: 1, pungent: 0.4, roasted: 0.2, umami: 0.2 },
+  'shallot': { sulfurous: 0.8, caramel: 0.3, fruity: 0.2 },
+  'leek': { sulfurous: 0.7, green: 0.3, caramel: 0.2 },
+  'bell pepper': { green: 0.6, earthy: 0.4, caramel: 0.3, fruity: 0.2 },
+  'chili': { pungent: 1, green: 0.3, fruity: 0.3, roasted: 0.2 },
+  'zucchini': { green: 0.6, creamy: 0.2 },
+  'eggplant': { earthy: 0.4, roasted: 0.4, creamy: 0.3, green: 0.2 },
+  'cucumber': { green: 1, fruity: 0.2 },
+  'potato': { earthy: 0.6, roasted: 0.4, umami: 0.2, fatty: 0.2 },
+  'sweet potato': { caramel: 0.6, roasted: 0.4, creamy: 0.3, earthy: 0.3, 'warm-spice': 0.3 },
+  'ginger': { pungent: 0.8, citrus: 0.5, floral: 0.4, herbaceous: 0.3 },
+  'celery': { green: 0.6, earthy: 0.3, herbaceous: 0.2 },
+  'asparagus': { green: 0.6, sulfurous: 0.3, earthy: 0.3, marine: 0.2 },
+  'cauliflower': { sulfurous: 0.5, creamy: 0.2, roasted: 0.3 },
+  'mushroom': { earthy: 1, umami: 0.9, roasted: 0.4 },
+  'corn': { caramel: 0.5, roasted: 0.5, umami: 0.4, creamy: 0.3, marine: 0.2 },
+  'cabbage': { sulfurous: 0.5, green: 0.4, umami: 0.2 },
+  'spring onion': { sulfurous: 0.7, green: 0.3, pungent: 0.3 },
+  'pumpkin': { caramel: 0.5, creamy: 0.4, 'warm-spice': 0.5, earthy: 0.3 },
+  'beetroot': { earthy: 1, caramel: 0.3, sour: 0.2 },
+
+  // Meat, fish, eggs and dairy
+  'chicken': { roasted: 0.6, umami: 0.6, fatty: 0.4, sulfurous: 0.2 },
+  'turkey': { roasted: 0.5, umami: 0.5, fatty: 0.3 },
+  'beef': { roasted: 1, umami: 0.7, fatty: 0.5, sulfurous: 0.2 },
+  'pork': { roasted: 0.7, umami: 0.5, fatty: 0.4, creamy: 0.2 },
+  'lamb': { roasted: 0.8, fatty: 0.4, herbaceous: 0.3, umami: 0.4 },
+  'egg': { sulfurous: 0.5, umami: 0.4, fatty: 0.5, creamy: 0.3, roasted: 0.2 },
+  'salmon': { marine: 0.7, fatty: 0.6, umami: 0.5, roasted: 0.3 },
+  'shrimp': { marine: 0.8, umami: 0.6, caramel: 0.3 },
+  'cod': { marine: 0.6, umami: 0.4, creamy: 0.2 },
+  'tuna': { marine: 0.7, umami: 0.6, roasted: 0.3 },
+  'anchovy': { marine: 1, umami: 1, fatty: 0.3 },
+  'cheese': { umami: 0.6, creamy: 0.6, sour: 0.3, fatty: 0.3, fruity: 0.2 },
+  'mozzarella': { creamy: 0.7, sour: 0.2 },
+  'parmesan': { umami: 1, creamy: 0.4, fruity: 0.3, roasted: 0.2 },
+  'paneer': { creamy: 0.7, sour: 0.2 },
+  'yogurt': { sour: 0.7, creamy: 0.6, fruity: 0.2 },
+  'milk': { creamy: 0.8, caramel: 0.2 },
+  'cream': { creamy: 1, fatty: 0.3 },
+  'butter': { creamy: 1, fatty: 0.4, roasted: 0.3 },
+  'ghee': { creamy: 0.8, roasted: 0.6, fatty: 0.5 },
+
+  // Plant proteins and legumes
+  'tofu': { earthy: 0.3, creamy: 0.3, umami: 0.2 },
+  'tempeh': { earthy: 0.6, roasted: 0.4, umami: 0.4 },
+  'beans': { earthy: 0.4, creamy: 0.3, umami: 0.2 },
+  'lentils': { earthy: 0.5, umami: 0.2, roasted: 0.2 },
+  'chickpeas': { earthy: 0.4, fatty: 0.3, roasted: 0.3 },
+  'peas': { green: 0.6, caramel: 0.3, umami: 0.4, earthy: 0.3 },
+  'peanut': { roasted: 0.9, fatty: 0.5, caramel: 0.2 },
+  'peanut butter': { roasted: 0.9, fatty: 0.5, caramel: 0.3 },
+
+  // Condiments, oils and sweeteners
+  'mayo': { creamy: 0.6, fatty: 0.6, sour: 0.4 },
+  'ketchup': { umami: 0.6, caramel: 0.6, sour: 0.4, 'warm-spice': 0.2 },
+  'soy sauce': { umami: 1, roasted: 0.5, caramel: 0.3 },
+  'miso': { umami: 1, earthy: 0.4, roasted: 0.3, sour: 0.2 },
+  'mustard': { pungent: 1, sour: 0.4, earthy: 0.2 },
+  'olive oil': { fatty: 0.6, green: 0.6, pungent: 0.2 },
+  'coconut oil': { creamy: 0.8, fatty: 0.4 },
+  'vinegar': { sour: 1, fruity: 0.2 },
+  'honey': { caramel: 0.8, floral: 0.7, fruity: 0.3, 'warm-spice': 0.3 },
+  'maple syrup': { caramel: 1, 'warm-spice': 0.6, roasted: 0.5 },
+  'sugar': { caramel: 1 },
+  'tahini': { roasted: 0.8, fatty: 0.5, earthy: 0.2 },
+  'dark chocolate': { roasted: 1, 'warm-spice': 0.5, fruity: 0.3, caramel: 0.5 },
+  'white wine': { fruity: 0.8, sour: 0.6, floral: 0.5, citrus: 0.2 },
+  'coconut milk': { creamy: 1, caramel: 0.3, fatty: 0.3 },
+  'soy milk': { creamy: 0.3, earthy: 0.3 },
+  'oat milk': { creamy: 0.4, caramel: 0.3 },
+
+  // Grains
+  'rice': { roasted: 0.2, creamy: 0.2 },
+  'pasta': { roasted: 0.2 },
+  'bread': { roasted: 0.8, caramel: 0.3, sour: 0.2 },
+  'oats': { roasted: 0.4, creamy: 0.3, 'warm-spice': 0.3, caramel: 0.3 },
+  'quinoa': { earthy: 0.4, roasted: 0.3 },
+
+  // Herbs and spices
+  'basil': { floral: 0.6, anise: 0.4, 'warm-spice': 0.5, herbaceous: 0.4, green: 0.3 },
+  'cilantro': { floral: 0.7, citrus: 0.4, green: 0.5 },
+  'parsley': { green: 0.6, herbaceous: 0.3, earthy: 0.2 },
+  'thyme': { herbaceous: 1, floral: 0.3, citrus: 0.2 },
+  'rosemary': { herbaceous: 1, 'warm-spice': 0.2, green: 0.2 },
+  'oregano': { herbaceous: 1, pungent: 0.2, floral: 0.2 },
+  'mint': { anise: 0.6, herbaceous: 0.6, green: 0.3, floral: 0.2 },
+  'dill': { anise: 0.7, green: 0.4, citrus: 0.3, herbaceous: 0.3 },
+  'chives': { sulfurous: 0.7, green: 0.3 },
+  'sage': { herbaceous: 1, earthy: 0.2, 'warm-spice': 0.2 },
+  'black pepper': { pungent: 0.8, herbaceous: 0.3, citrus: 0.2, 'warm-spice': 0.2 },
+  'cumin': { earthy: 0.6, roasted: 0.4, 'warm-spice': 0.3, pungent: 0.2 },
+  'turmeric': { earthy: 0.8, pungent: 0.3, citrus: 0.2 },
+  'paprika': { roasted: 0.4, pungent: 0.5, caramel: 0.3, earthy: 0.3 },
+  'cinnamon': { 'warm-spice': 1, caramel: 0.3, floral: 0.2 },
+
+  // Nuts and seeds
+  'almond': { roasted: 0.6, fatty: 0.4, creamy: 0.3, 'warm-spice': 0.2 },
+  'walnut': { roasted: 0.6, fatty: 0.6, earthy: 0.3 },
+  'cashew': { creamy: 0.4, fatty: 0.5, roasted: 0.5, caramel: 0.2 },
+  'sesame seeds': { roasted: 0.8, fatty: 0.5 }
+};
+
+/**
+ * Pairings cooks rely on whether or not they share compounds; they get
+ * CLASSIC_BOOST on top of their profile similarity.
+ */
+const CLASSIC_PAIRINGS: [string, string][] = [
+  ['tomato', 'basil'], ['tomato', 'mozzarella'], ['tomato', 'olive oil'], ['tomato', 'garlic'], ['tomato', 'anchovy'],
+  ['apple', 'cinnamon'], ['apple', 'pork'], ['apple', 'walnut'], ['apple', 'cheese'], ['apple', 'maple syrup'],
+  ['pear', 'cheese'], ['pear', 'dark chocolate'], ['pear', 'honey'], ['pear', 'rosemary'], ['pear', 'walnut'],
+  ['spinach', 'garlic'], ['spinach', 'lemon'], ['spinach', 'egg'], ['spinach', 'cream'],
+  ['cheese', 'honey'], ['chicken', 'lemon'], ['chicken', 'rosemary'], ['chicken', 'thyme'], ['chicken', 'garlic'],
+  ['mushroom', 'thyme'], ['mushroom', 'butter'], ['mushroom', 'parsley'], ['mushroom', 'soy sauce'],
+  ['lemon', 'honey'], ['lemon', 'mint'], ['lemon', 'salmon'], ['lemon', 'cod'], ['lemon', 'ginger'],
+  ['thyme', 'potato'], ['lamb', 'rosemary'], ['lamb', 'mint'], ['beef', 'mushroom'], ['pork', 'sage'],
+  ['salmon', 'dill'], ['potato', 'butter'], ['carrot', 'ginger'], ['carrot', 'cumin'], ['beetroot', 'cheese'],
+  ['pumpkin', 'sage'], ['egg', 'chives'], ['avocado', 'lime'], ['lime', 'cilantro'], ['chili', 'lime'],
+  ['strawberry', 'basil'], ['strawberry', 'cream'], ['mango', 'lime'], ['banana', 'peanut butter'],
+  ['chickpeas', 'tahini'], ['chickpeas', 'cumin'], ['lentils', 'cumin'], ['cauliflower', 'turmeric'],
+  ['coconut milk', 'lime'], ['coconut milk', 'chili'], ['paneer', 'spinach'], ['tofu', 'soy sauce'],
+  ['tofu', 'ginger'], ['shrimp', 'garlic'], ['cucumber', 'yogurt'], ['cucumber', 'dill'], ['peas', 'mint'],
+  ['corn', 'butter'], ['zucchini', 'parmesan'], ['eggplant', 'miso'], ['asparagus', 'egg'], ['broccoli', 'garlic'],
+  ['sweet potato', 'maple syrup'], ['dark chocolate', 'raspberry'], ['peach', 'basil'], ['pasta', 'parmesan']
+];
+
+const CLASSIC_BOOST = 0.5;
+
+const classics = new Set(CLASSIC_PAIRINGS.flatMap(([a, b]) => [`${a}|${b}`, `${b}|${a}`]));
+
+const norm = (profile: FlavourProfile) =>
+  Math.sqrt(Object.values(profile).reduce((sum, v) => sum + (v || 0) ** 2, 0));
+
+const weights = new Map<string, number>();
+
+export const hasFlavourProfile = (id: string): boolean => id in FLAVOUR_PROFILES;
+
+/**
+ * Edge weight between two catalogue ids, 0–1. Zero for ids outside the graph.
+ */
+export const pairingWeight = (a: string, b: string): number => {
+  if (a === b) return 0;
+  const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+  const cached = weights.get(key);
+  if (cached !== undefined) return cached;
+
+  const pa = FLAVOUR_PROFILES[a];
+  const pb = FLAVOUR_PROFILES[b];
+  let weight = 0;
+  if (pa && pb) {
+    const dot = (Object.keys(pa) as FlavourFamily[]).reduce((sum, f) => sum + (pa[f] || 0) * (pb[f] || 0), 0);
+    weight = Math.min(1, dot / (norm(pa) * norm(pb)) + (classics.has(key) ? CLASSIC_BOOST : 0));
+  }
+  weights.set(key, weight);
+  return weight;
+};
+
+/**
+ * Families two ingredients both carry noticeably, strongest shared first.
+ */
+export const sharedFamilies = (a: string, b: string): FlavourFamily[] => {
+  const pa = FLAVOUR_PROFILES[a] || {};
+  const pb = FLAVOUR_PROFILES[b] || {};
+  return (Object.keys(pa) as FlavourFamily[])
+    .filter(f => (pa[f] || 0) >= 0.3 && (pb[f] || 0) >= 0.3)
+    .sort((x, y) => (pb[y]! * pa[y]!) - (pb[x]! * pa[x]!));
+};
+
+/**
+ * An entry's dominant families, strongest first.
+ */
+export const dominantFamilies = (id: string, limit: number = 3): FlavourFamily[] => {
+  const profile = FLAVOUR_PROFILES[id] || {};
+  return (Object.keys(profile) as FlavourFamily[])
+    .filter(f => (profile[f] || 0) >= 0.4)
+    .sort((x, y) => profile[y]! - profile[x]!)
+    .slice(0, limit);
+};
+
+/**
+ * Catalogue entries inside the graph, for pairing suggestions.
+ */
+export const FLAVOUR_ENTRIES: CatalogueEntry[] = CATALOGUE.filter(entry => hasFlavourProfile(entry.id));
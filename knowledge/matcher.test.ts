@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { IDENTITY_CONFIDENCE, findMentions, ingredientKey, matchIngredient } from './matcher';
+
+const idOf = (name: string) => matchIngredient(name)?.entry.id;
+
+describe('matchIngredient', () => {
+  it('matches catalogue names and regional aliases exactly', () => {
+    expect(matchIngredient('Tomato')).toMatchObject({ entry: { id: 'tomato' }, confidence: 1, method: 'exact' });
+    expect(matchIngredient('aloo')).toMatchObject({ entry: { id: 'potato' }, method: 'exact', locale: 'hi' });
+    expect(matchIngredient('टमाटर')).toMatchObject({ entry: { id: 'tomato' }, locale: 'hi' });
+  });
+
+  it('strips quantities and preparation words', () => {
+    expect(matchIngredient('2 cloves garlic, minced')).toMatchObject({ entry: { id: 'garlic' }, confidence: 0.95 });
+  });
+
+  it('singularises plurals', () => {
+    expect(matchIngredient('Pumpkins')).toMatchObject({ entry: { id: 'pumpkin' }, confidence: 0.9, method: 'plural' });
+  });
+
+  it('tolerates small typos in longer names', () => {
+    expect(matchIngredient('brocoli')).toMatchObject({ entry: { id: 'broccoli' }, method: 'fuzzy' });
+  });
+
+  it('returns null for unknown names', () => {
+    expect(matchIngredient('dragonfruit')).toBeNull();
+  });
+
+  it('resolves coriander and cilantro to the same entry', () => {
+    expect(idOf('coriander')).toBe('cilantro');
+    expect(idOf('chopped fresh coriander')).toBe('cilantro');
+    expect(idOf('Cilantro')).toBe('cilantro');
+  });
+
+  it('tells peppercorn pepper from vegetable peppers and chilli flakes', () => {
+    expect(idOf('pepper')).toBe('black pepper');
+    expect(idOf('freshly ground pepper')).toBe('black pepper');
+    expect(idOf('peppers')).toBe('bell pepper');
+    expect(idOf('2 red peppers, sliced')).toBe('bell pepper');
+    expect(idOf('red pepper flakes')).toBe('chili');
+    expect(idOf('chilli flakes')).toBe('chili');
+  });
+});
+
+describe('compound names', () => {
+  it('does not match a qualifier when the head noun is something else', () => {
+    for (const name of ['chicken stock', 'peanut oil', 'coconut water', 'tomato paste']) {
+      expect(matchIngredient(name), name).toBeNull();
+    }
+  });
+
+  it('matches the head noun, below identity confidence', () => {
+    const cases: [string, string][] = [['butter beans', 'beans'], ['almond milk', 'milk'], ['milk chocolate', 'dark chocolate']];
+    for (const [name, id] of cases) {
+      const match = matchIngredient(name);
+      expect(match?.entry.id, name).toBe(id);
+      expect(match!.confidence, name).toBeLessThan(IDENTITY_CONFIDENCE);
+    }
+  });
+
+  it('keeps compound names apart from their qualifier as pantry keys', () => {
+    expect(ingredientKey('chicken stock')).not.toBe(ingredientKey('Chicken'));
+    expect(ingredientKey('almond milk')).not.toBe(ingredientKey('Almond'));
+    expect(ingredientKey('almond milk')).not.toBe(ingredientKey('Milk'));
+  });
+});
+
+describe('ingredientKey', () => {
+  it('keys matched names by catalogue id and the rest by their cleaned singular', () => {
+    expect(ingredientKey('Tomatoes')).toBe('tomato');
+    expect(ingredientKey('2 cloves garlic, minced')).toBe(ingredientKey('Garlic'));
+    expect(ingredientKey('Dragonfruits')).toBe('dragonfruit');
+  });
+});
+
+describe('findMentions', () => {
+  it('reads peppers and pepper flakes in running text', () => {
+    const ids = findMentions('Roast the peppers, then season with salt, pepper and red pepper flakes').map(e => e.id);
+    expect(ids).toEqual(expect.arrayContaining(['bell pepper', 'black pepper', 'chili']));
+  });
+});
@@ -0,0 +1,291 @@
+import { CATALOGUE, CatalogueEntry } from './catalogue';
+
+/**
+ * matcher.ts
+ * Resolves free-text ingredient names ("2 cloves garlic, minced", "Tomatoes",
+ * "hara dhaniya") to catalogue entries with a confidence, so names coming from
+ * perception, Gemini and the user can be compared reliably.
+ */
+
+export type MatchMethod = 'exact' | 'plural' | 'partial' | 'fuzzy';
+
+export interface IngredientMatch {
+  entry: CatalogueEntry;
+  confidence: number; // 0-1
+  method: MatchMethod;
+  locale?: string;    // Set when a regional alias matched
+}
+
+/**
+ * Regional names by locale, in romanised and native script.
+ * Kept apart from the catalogue synonyms so each locale can be reviewed on its own.
+ */
+const REGIONAL_ALIASES: Record<string, Record<string, string[]>> = {
+  hi: {
+    'tomato': ['tamatar', 'टमाटर'],
+    'onion': ['pyaz', 'pyaaz', 'kanda', 'प्याज़', 'प्याज'],
+    'potato': ['aloo', 'aalu', 'batata', 'आलू'],
+    'garlic': ['lahsun', 'lehsun', 'लहसुन'],
+    'ginger': ['adrak', 'अदरक'],
+    'spinach': ['palak', 'पालक'],
+    'cilantro': ['dhania', 'dhaniya', 'hara dhania', 'hara dhaniya', 'धनिया'],
+    'mint': ['pudina', 'पुदीना'],
+    'chili': ['mirch', 'hari mirch', 'lal mirch', 'मिर्च', 'हरी मिर्च'],
+    'bell pepper': ['shimla mirch', 'शिमला मिर्च'],
+    'cauliflower': ['gobi', 'phool gobi', 'phoolgobi', 'फूलगोभी', 'गोभी'],
+    'cabbage': ['patta gobi', 'band gobi', 'पत्ता गोभी'],
+    'eggplant': ['baingan', 'बैंगन'],
+    'cucumber': ['kheera', 'khira', 'खीरा'],
+    'carrot': ['gajar', 'गाजर'],
+    'sweet potato': ['shakarkandi', 'शकरकंदी'],
+    'pumpkin': ['kaddu', 'कद्दू'],
+    'mushroom': ['khumb', 'कुकुरमुत्ता'],
+    'peas': ['मटर'],
+    'corn': ['makka', 'bhutta', 'मक्का'],
+    'lemon': ['nimbu', 'nimboo', 'नींबू'],
+    'banana': ['kela', 'केला'],
+    'apple': ['seb', 'सेब'],
+    'mango': ['aam', 'आम'],
+    'pomegranate': ['anar', 'anaar', 'अनार'],
+    'grape': ['angoor', 'अंगूर'],
+    'coconut': ['nariyal', 'नारियल'],
+    'egg': ['anda', 'ande', 'अंडा', 'अंडे'],
+    'chicken': ['murgh', 'murgi', 'मुर्गी', 'मुर्ग'],
+    'lamb': ['gosht', 'गोश्त'],
+    'shrimp': ['jhinga', 'झींगा'],
+    'milk': ['doodh', 'दूध'],
+    'yogurt': ['dahi', 'दही'],
+    'butter': ['makhan', 'makkhan', 'मक्खन'],
+    'ghee': ['घी'],
+    'paneer': ['पनीर'],
+    'cream': ['मलाई'],
+    'rice': ['chawal', 'चावल'],
+    'flour': ['आटा', 'मैदा'],
+    'lentils': ['masoor', 'toor dal', 'moong dal', 'दाल'],
+    'chickpeas': ['chole', 'kabuli chana', 'छोले', 'चना'],
+    'beans': ['राजमा'],
+    'peanut': ['moongphali', 'mungfali', 'मूंगफली'],
+    'almond': ['बादाम'],
+    'cashew': ['काजू'],
+    'sesame seeds': ['तिल'],
+    'sugar': ['cheeni', 'chini', 'shakkar', 'चीनी', 'गुड़'],
+    'salt': ['namak', 'नमक'],
+    'turmeric': ['हल्दी'],
+    'cumin': ['जीरा'],
+    'black pepper': ['काली मिर्च'],
+    'cinnamon': ['दालचीनी'],
+    'honey': ['shahad', 'शहद'],
+    'mustard': ['sarson', 'rai', 'सरसों'],
+    'oats': ['जई']
+  }
+};
+
+/**
+ * Words that describe preparation, state or quantity rather than the ingredient.
+ */
+const MODIFIERS = new Set([
+  'fresh', 'freshly', 'chopped', 'diced', 'sliced', 'minced', 'grated', 'crushed', 'shredded', 'peeled',
+  'ripe', 'raw', 'cooked', 'boiled', 'roasted', 'toasted', 'frozen', 'dried', 'canned', 'tinned', 'organic',
+  'large', 'medium', 'small', 'whole', 'halved', 'quartered', 'finely', 'roughly', 'thinly', 'boneless',
+  'skinless', 'trimmed', 'washed', 'leftover', 'some', 'few', 'handful', 'pinch', 'dash', 'of', 'a', 'an', 'the',
+  'to', 'taste', 'optional', 'about', 'approx', 'extra', 'cold', 'warm', 'soft', 'firm', 'bunch', 'sprig', 'sprigs',
+  'piece', 'pieces', 'leaf', 'leaves', 'clove', 'cloves', 'head', 'heads', 'stalk', 'stalks', 'slice', 'slices', 'can', 'cans', 'tin',
+  'tins', 'jar', 'pack', 'packet', 'cup', 'cups', 'tbsp', 'tsp', 'tablespoon', 'tablespoons', 'teaspoon', 'teaspoons',
+  'g', 'gram', 'grams', 'kg', 'ml', 'l', 'litre', 'liter', 'oz', 'lb', 'lbs'
+]);
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  'leaves': 'leaf', 'loaves': 'loaf', 'halves': 'half', 'knives': 'knife', 'geese': 'goose', 'mice': 'mouse'
+};
+
+const MIN_FUZZY_LENGTH = 5;
+
+/**
+ * Confidence a match needs to count as the same ingredient (pantry keys,
+ * hallucination checks, nutrition). Exact and plural matches clear it;
+ * partial and fuzzy matches only suggest what a name probably is.
+ */
+export const IDENTITY_CONFIDENCE = 0.9;
+
+const normalise = (text: string): string => text.toLowerCase().normalize('NFC').replace(/\s+/g, ' ').trim();
+
+/**
+ * Reduces a name to its ingredient words: drops quantities, units, preparation
+ * words, bracketed notes and anything after a comma.
+ */
+export const cleanIngredientName = (name: string): string => {
+  const text = normalise(name)
+    .replace(/\(.*?\)/g, ' ')
+    .split(',')[0]
+    .replace(/[\d½¼¾⅓⅔.\/-]+(?:\s*(?:g|kg|ml|l|oz|lb)\b)?/g, ' ')
+    .replace(/[^\p{L}\p{M}\s']/gu, ' ');
+  const words = text.split(' ').filter(w => w && !MODIFIERS.has(w));
+  return words.join(' ') || normalise(name);
+};
+
+/**
+ * Singular forms to try for an English plural, most specific rule first.
+ */
+const singularForms = (text: string): string[] => {
+  const words = text.split(' ');
+  const last = words.pop() || '';
+  const forms = IRREGULAR_PLURALS[last]
+    ? [IRREGULAR_PLURALS[last]]
+    : [
+        last.replace(/ies$/, 'y'),
+        last.replace(/oes$/, 'o'),
+        last.replace(/ves$/, 'f'),
+        last.replace(/(ch|sh|x|ss)es$/, '$1'),
+        last.replace(/([^s])s$/, '$1')
+      ];
+  return Array.from(new Set(forms.filter(f => f !== last && f.length > 1))).map(f => [...words, f].join(' '));
+};
+
+interface Alias {
+  entry: CatalogueEntry;
+  locale?: string;
+}
+
+const ALIASES = new Map<string, Alias>();
+CATALOGUE.forEach(entry => {
+  [entry.id, entry.name, ...entry.synonyms].forEach(alias => {
+    const key = normalise(alias);
+    if (!ALIASES.has(key)) ALIASES.set(key, { entry });
+  });
+});
+Object.entries(REGIONAL_ALIASES).forEach(([locale, table]) => {
+  Object.entries(table).forEach(([id, names]) => {
+    const entry = CATALOGUE.find(e => e.id === id);
+    if (!entry) return;
+    names.forEach(alias => {
+      const key = normalise(alias);
+      if (!ALIASES.has(key)) ALIASES.set(key, { entry, locale });
+    });
+  });
+});
+
+const editDistance = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+/**
+ * True when `alias` ends `text` as a run of whole words, i.e. covers its head
+ * noun: "roma tomato" is a tomato, "tomato paste" and "chicken stock" are not.
+ */
+const endsWithWords = (text: string[], alias: string[]): boolean => {
+  const start = text.length - alias.length;
+  return start >= 0 && alias.every((word, k) => text[start + k] === word);
+};
+
+const result = (alias: Alias, confidence: number, method: MatchMethod): IngredientMatch =>
+  ({ entry: alias.entry, confidence: Math.round(confidence * 100) / 100, method, ...(alias.locale && { locale: alias.locale }) });
+
+/**
+ * Best catalogue match for a free-text name, or null.
+ * Confidence: exact alias 1.0 (0.95 once modifiers were stripped), plural
+ * 0.9, alias ending a longer name (its head noun) 0.6-0.85 by coverage,
+ * one or two typos 0.7/0.6. A name whose head noun is not an alias
+ * ("chicken stock", "tomato paste") does not match partially.
+ */
+export const matchIngredient = (name: string): IngredientMatch | null => {
+  const raw = normalise(name);
+  const exact = ALIASES.get(raw);
+  if (exact) return result(exact, 1, 'exact');
+
+  const cleaned = cleanIngredientName(name);
+  const stripped = ALIASES.get(cleaned);
+  if (stripped) return result(stripped, 0.95, 'exact');
+
+  for (const form of singularForms(cleaned)) {
+    const alias = ALIASES.get(form);
+    if (alias) return result(alias, 0.9, 'plural');
+  }
+
+  // "roma tomato" -> tomato; longest alias covering the head noun wins
+  const words = cleaned.split(' ');
+  const candidates = [cleaned, ...singularForms(cleaned)].map(t => t.split(' '));
+  let partial: { alias: Alias; length: number } | null = null;
+  for (const [key, alias] of ALIASES) {
+    if (partial && key.length <= partial.length) continue;
+    if (candidates.some(c => endsWithWords(c, key.split(' ')))) partial = { alias, length: key.length };
+  }
+  if (partial) return result(partial.alias, 0.6 + 0.25 * Math.min(1, partial.length / cleaned.length), 'partial');
+
+  // Typos: "brocoli", "zuchini"
+  if (cleaned.length >= MIN_FUZZY_LENGTH && words.length <= 3) {
+    let best: { alias: Alias; distance: number } | null = null;
+    for (const [key, alias] of ALIASES) {
+      if (Math.abs(key.length - cleaned.length) > 2) continue;
+      const distance = editDistance(cleaned, key);
+      const allowed = cleaned.length >= 8 ? 2 : 1;
+      if (distance <= allowed && (!best || distance < best.distance)) best = { alias, distance };
+    }
+    if (best) return result(best.alias, best.distance === 1 ? 0.7 : 0.6, 'fuzzy');
+  }
+
+  return null;
+};
+
+/**
+ * Stable comparison key: the catalogue id when the name resolves with at
+ * least `minConfidence`, else the cleaned singular text.
+ */
+export const ingredientKey = (name: string, minConfidence: number = IDENTITY_CONFIDENCE): string => {
+  const match = matchIngredient(name);
+  if (match && match.confidence >= minConfidence) return match.entry.id;
+  const cleaned = cleanIngredientName(name);
+  return singularForms(cleaned)[0] || cleaned;
+};
+
+/**
+ * Catalogue entries for a partly typed name, for pickers. Aliases starting
+ * with the query rank first, then aliases containing it.
+ */
+export const searchCatalogue = (query: string, limit: number = 6): CatalogueEntry[] => {
+  const q = normalise(query);
+  if (!q) return [];
+  const ranked = new Map<CatalogueEntry, number>();
+  for (const [key, alias] of ALIASES) {
+    const rank = key.startsWith(q) ? 0 : key.includes(q) ? 1 : -1;
+    if (rank < 0) continue;
+    const current = ranked.get(alias.entry);
+    if (current === undefined || rank < current) ranked.set(alias.entry, rank);
+  }
+  return Array.from(ranked.entries())
+    .sort((a, b) => a[1] - b[1] || a[0].name.length - b[0].name.length)
+    .slice(0, limit)
+    .map(([entry]) => entry);
+};
+
+const MAX_ALIAS_WORDS = Math.max(...Array.from(ALIASES.keys()).map(key => key.split(' ').length));
+
+/**
+ * Catalogue entries named anywhere in running text ("Fold the coconut milk
+ * into the onions"). Longer aliases win, so "coconut milk" is not also "milk".
+ */
+export const findMentions = (text: string): CatalogueEntry[] => {
+  const words = normalise(text).replace(/[^\p{L}\p{M}\s']/gu, ' ').split(' ').filter(Boolean);
+  const found = new Set<CatalogueEntry>();
+  let i = 0;
+  while (i < words.length) {
+    let matched = 0;
+    for (let n = Math.min(MAX_ALIAS_WORDS, words.length - i); n > 0 && !matched; n--) {
+      const phrase = words.slice(i, i + n).join(' ');
+      const alias = ALIASES.get(phrase) || singularForms(phrase).map(f => ALIASES.get(f)).find(Boolean);
+      if (alias) {
+        found.add(alias.entry);
+        matched = n;
+      }
+    }
+    i += matched || 1;
+  }
+  return Array.from(found);
+};
@@ -0,0 +1,237 @@
+import { CATALOGUE, IngredientCategory, INGREDIENT_CATEGORIES } from './catalogue';
+import { NutrientTotals } from '../types';
+
+/**
+ * nutrients.ts
+ * Per-100 g food composition: the catalogue's macros and fibre joined with
+ * sodium, potassium, calcium, iron and vitamin C (mg), approximated from
+ * USDA FoodData Central for the same edible portion. Items outside the
+ * catalogue take their category's mean. Daily values are the US FDA
+ * reference amounts for adults.
+ */
+
+export type Micronutrients = Pick<NutrientTotals, 'sodium' | 'potassium' | 'calcium' | 'iron' | 'vitaminC'>;
+
+const m = (sodium: number, potassium: number, calcium: number, iron: number, vitaminC: number): Micronutrients =>
+  ({ sodium, potassium, calcium, iron, vitaminC });
+
+/**
+ * Per catalogue id. Butter is salted; grains, pasta and flour are dry,
+ * beans, lentils and chickpeas cooked, as in the catalogue.
+ */
+const MICRONUTRIENTS: Record<string, Micronutrients> = {
+  // Fruit
+  'apple': m(1, 107, 6, 0.1, 4.6),
+  'banana': m(1, 358, 5, 0.3, 8.7),
+  'orange': m(0, 181, 40, 0.1, 53),
+  'pear': m(1, 116, 9, 0.2, 4.3),
+  'strawberry': m(1, 153, 16, 0.4, 59),
+  'blueberry': m(1, 77, 6, 0.3, 9.7),
+  'raspberry': m(1, 151, 25, 0.7, 26),
+  'mango': m(1, 168, 11, 0.2, 36),
+  'pineapple': m(1, 109, 13, 0.3, 48),
+  'grape': m(2, 191, 10, 0.4, 3.2),
+  'lemon': m(2, 138, 26, 0.6, 53),
+  'lime': m(2, 102, 33, 0.6, 29),
+  'avocado': m(7, 485, 12, 0.6, 10),
+  'pomegranate': m(3, 236, 10, 0.3, 10),
+  'kiwi': m(3, 312, 34, 0.3, 93),
+  'peach': m(0, 190, 6, 0.3, 6.6),
+  'plum': m(0, 157, 6, 0.2, 9.5),
+  'coconut': m(20, 356, 14, 2.4, 3.3),
+
+  // Vegetables
+  'spinach': m(79, 558, 99, 2.7, 28),
+  'kale': m(53, 348, 254, 1.6, 93),
+  'lettuce': m(28, 194, 36, 0.9, 9.2),
+  'tomato': m(5, 237, 10, 0.3, 14),
+  'carrot': m(69, 320, 33, 0.3, 5.9),
+  'broccoli': m(33, 316, 47, 0.7, 89),
+  'onion': m(4, 146, 23, 0.2, 7.4),
+  'garlic': m(17, 401, 181, 1.7, 31),
+  'shallot': m(12, 334, 37, 1.2, 8),
+  'leek': m(20, 180, 59, 2.1, 12),
+  'bell pepper': m(4, 211, 7, 0.4, 128),
+  'chili': m(9, 322, 14, 1.0, 144),
+  'zucchini': m(8, 261, 16, 0.4, 18),
+  'eggplant': m(2, 229, 9, 0.2, 2.2),
+  'cucumber': m(2, 147, 16, 0.3, 2.8),
+  'potato': m(6, 425, 12, 0.8, 20),
+  'sweet potato': m(55, 337, 30, 0.6, 2.4),
+  'ginger': m(13, 415, 16, 0.6, 5),
+  'celery': m(80, 260, 40, 0.2, 3.1),
+  'asparagus': m(2, 202, 24, 2.1, 5.6),
+  'cauliflower': m(30, 299, 22, 0.4, 48),
+  'mushroom': m(5, 318, 3, 0.5, 2.1),
+  'corn': m(15, 270, 2, 0.5, 6.8),
+  'cabbage': m(18, 170, 40, 0.5, 37),
+  'spring onion': m(16, 276, 72, 1.5, 19),
+  'pumpkin': m(1, 340, 21, 0.8, 9),
+  'beetroot': m(78, 325, 16, 0.8, 4.9),
+
+  // Meat, poultry and seafood
+  'chicken': m(45, 256, 5, 0.4, 0),
+  'turkey': m(60, 290, 10, 0.7, 0),
+  'beef': m(66, 270, 18, 1.9, 0),
+  'pork': m(55, 315, 12, 0.8, 0),
+  'lamb': m(59, 280, 12, 1.6, 0),
+  'salmon': m(59, 363, 9, 0.3, 0),
+  'shrimp': m(119, 264, 64, 0.5, 0),
+  'cod': m(54, 413, 16, 0.4, 1),
+  'tuna': m(45, 441, 4, 0.8, 0),
+  'anchovy': m(104, 383, 147, 3.3, 0),
+
+  // Dairy and eggs
+  'egg': m(142, 138, 56, 1.8, 0),
+  'cheese': m(621, 98, 721, 0.7, 0),
+  'yogurt': m(46, 155, 121, 0.1, 0.5),
+  'milk': m(43, 150, 113, 0, 0),
+  'butter': m(643, 24, 24, 0, 0),
+  'paneer': m(22, 100, 480, 0.2, 0),
+  'mozzarella': m(627, 76, 505, 0.4, 0),
+  'parmesan': m(1600, 92, 1184, 0.8, 0),
+  'cream': m(38, 95, 66, 0.1, 0.6),
+
+  // Plant proteins and legumes
+  'tofu': m(7, 121, 350, 2.7, 0),
+  'tempeh': m(9, 412, 111, 2.7, 0),
+  'beans': m(2, 403, 28, 2.9, 1.2),
+  'lentils': m(2, 369, 19, 3.3, 1.5),
+  'chickpeas': m(7, 291, 49, 2.9, 1.3),
+  'peas': m(5, 244, 25, 1.5, 40),
+  'peanut': m(18, 705, 92, 4.6, 0),
+
+  // Condiments, oils and sweeteners
+  'mayo': m(635, 20, 8, 0.2, 0),
+  'ketchup': m(907, 281, 15, 0.4, 4.1),
+  'soy sauce': m(5493, 435, 33, 1.5, 0),
+  'mustard': m(1104, 138, 63, 1.6, 1.5),
+  'olive oil': m(2, 1, 1, 0.6, 0),
+  'vinegar': m(2, 2, 6, 0, 0),
+  'miso': m(3728, 210, 57, 2.5, 0),
+  'peanut butter': m(459, 649, 49, 1.9, 0),
+  'ghee': m(2, 5, 4, 0, 0),
+  'coconut oil': m(0, 0, 1, 0.1, 0),
+  'honey': m(4, 52, 6, 0.4, 0.5),
+  'maple syrup': m(12, 212, 102, 0.1, 0),
+  'sugar': m(1, 2, 1, 0, 0),
+  'dark chocolate': m(20, 715, 73, 11.9, 0),
+
+  // Herbs
+  'basil': m(4, 295, 177, 3.2, 18),
+  'cilantro': m(46, 521, 67, 1.8, 27),
+  'parsley': m(56, 554, 138, 6.2, 133),
+  'thyme': m(9, 609, 405, 17.5, 160),
+  'rosemary': m(26, 668, 317, 6.7, 22),
+  'oregano': m(10, 300, 200, 4.0, 30),
+  'mint': m(31, 569, 243, 5.1, 32),
+  'dill': m(61, 738, 208, 6.6, 85),
+  'chives': m(3, 296, 92, 1.6, 58),
+  'sage': m(11, 400, 330, 5.0, 20),
+
+  // Spices
+  'salt': m(38758, 8, 24, 0.3, 0),
+  'black pepper': m(20, 1329, 443, 9.7, 0),
+  'cumin': m(168, 1788, 931, 66.4, 7.7),
+  'turmeric': m(27, 2080, 168, 55.0, 0.7),
+  'paprika': m(68, 2280, 229, 21.1, 0.9),
+  'cinnamon': m(10, 431, 1002, 8.3, 3.8),
+
+  // Grains
+  'rice': m(5, 115, 28, 0.8, 0),
+  'pasta': m(6, 223, 21, 1.3, 0),
+  'flour': m(2, 107, 15, 1.2, 0),
+  'bread': m(491, 115, 144, 3.6, 0),
+  'oats': m(2, 429, 54, 4.7, 0),
+  'quinoa': m(5, 563, 47, 4.6, 0),
+
+  // Nuts and seeds
+  'tahini': m(115, 414, 426, 8.9, 0),
+  'almond': m(1, 733, 269, 3.7, 0),
+  'walnut': m(2, 441, 98, 2.9, 1.3),
+  'cashew': m(12, 660, 37, 6.7, 0.5),
+  'sesame seeds': m(11, 468, 975, 14.6, 0),
+
+  // Beverages
+  'coconut milk': m(15, 263, 16, 1.6, 2.8),
+  'soy milk': m(51, 122, 123, 0.4, 0),
+  'oat milk': m(42, 160, 140, 0.3, 0),
+  'white wine': m(5, 71, 9, 0.3, 0)
+};
+
+/**
+ * Full composition per 100 g of a catalogue entry.
+ */
+export const COMPOSITION: Record<string, NutrientTotals> = Object.fromEntries(
+  CATALOGUE.map(entry => [entry.id, {
+    calories: entry.nutrition.kcal,
+    protein: entry.nutrition.protein,
+    carbs: entry.nutrition.carbs,
+    fat: entry.nutrition.fat,
+    fibre: entry.nutrition.fibre,
+    ...(MICRONUTRIENTS[entry.id] || m(0, 0, 0, 0, 0))
+  }])
+);
+
+export const NUTRIENT_KEYS: (keyof NutrientTotals)[] = [
+  'calories', 'protein', 'carbs', 'fat', 'fibre', 'sodium', 'potassium', 'calcium', 'iron', 'vitaminC'
+];
+
+/**
+ * Category means, for items the catalogue does not list.
+ */
+export const CATEGORY_COMPOSITION = Object.fromEntries(
+  INGREDIENT_CATEGORIES.map(category => {
+    const members = CATALOGUE.filter(entry => entry.category === category).map(entry => COMPOSITION[entry.id]);
+    return [category, Object.fromEntries(
+      NUTRIENT_KEYS.map(key => [key, members.reduce((sum, c) => sum + c[key], 0) / members.length])
+    ) as unknown as NutrientTotals];
+  })
+) as Record<IngredientCategory, NutrientTotals>;
+
+/**
+ * For items with neither a catalogue entry nor a known category.
+ */
+export const DEFAULT_COMPOSITION: NutrientTotals = {
+  calories: 100, protein: 5, carbs: 10, fat: 5, fibre: 2,
+  sodium: 100, potassium: 200, calcium: 30, iron: 1, vitaminC: 5
+};
+
+/**
+ * Typical amount (g) a dish uses of an ingredient the pantry does not weigh,
+ * e.g. one the user still has to buy.
+ */
+export const PORTION_GRAMS: Record<IngredientCategory | 'default', number> = {
+  'fruit': 100, 'vegetable': 150, 'herb': 10, 'spice': 3,
+  'meat': 400, 'poultry': 400, 'seafood': 300, 'dairy': 100, 'egg': 100,
+  'plant-protein': 300, 'legume': 250, 'grain': 200, 'nut-seed': 30,
+  'oil-fat': 30, 'condiment': 20, 'sweetener': 20, 'beverage': 200,
+  'default': 50
+};
+
+/**
+ * Catalogue entries a dish uses far less of than their category suggests.
+ */
+export const PORTION_OVERRIDES: Record<string, number> = {
+  'garlic': 10, 'ginger': 10, 'chili': 5, 'shallot': 40, 'spring onion': 30,
+  'lemon': 40, 'lime': 30, 'butter': 30, 'ghee': 20, 'cheese': 60, 'parmesan': 20,
+  'cream': 100, 'soy sauce': 15, 'vinegar': 15, 'white wine': 100, 'coconut milk': 400
+};
+
+export const DAILY_VALUES: NutrientTotals = {
+  calories: 2000, protein: 50, carbs: 275, fat: 78, fibre: 28,
+  sodium: 2300, potassium: 4700, calcium: 1300, iron: 18, vitaminC: 90
+};
+
+export const NUTRIENT_LABELS: Record<keyof NutrientTotals, { label: string; unit: string }> = {
+  calories: { label: 'Energy', unit: 'kcal' },
+  protein: { label: 'Protein', unit: 'g' },
+  carbs: { label: 'Carbs', unit: 'g' },
+  fat: { label: 'Fat', unit: 'g' },
+  fibre: { label: 'Fibre', unit: 'g' },
+  sodium: { label: 'Sodium', unit: 'mg' },
+  potassium: { label: 'Potassium', unit: 'mg' },
+  calcium: { label: 'Calcium', unit: 'mg' },
+  iron: { label: 'Iron', unit: 'mg' },
+  vitaminC: { label: 'Vitamin C', unit: 'mg' }
+};
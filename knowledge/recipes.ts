@@ -0,0 +1,359 @@
+import { DrinkPairing } from '../types';
+
+/**
+ * recipes.ts
+ * Recipe corpus for the offline engine: six cooking patterns (sauté, roast,
+ * soup, salad, stir-fry, curry) described by ingredient roles, and cuisine
+ * profiles that season them. Step text names roles in braces ("{veg}", plus
+ * "{seasoning}" from the cuisine); a bracketed clause ("[ and the {herb}]")
+ * is dropped when a role inside it is empty, and a step is skipped when a
+ * role outside any bracket is. Cooking times are minutes, keyed by catalogue
+ * id, then "starchy", then category. Salt and water are assumed on hand.
+ */
+
+export type RecipeMethod = 'saute' | 'roast' | 'soup' | 'salad' | 'stir-fry' | 'curry';
+
+export type RoleKey =
+  | 'protein' | 'veg' | 'leafy' | 'aromatic' | 'base' | 'fat'
+  | 'liquid' | 'sauce' | 'acid' | 'herb' | 'crunch';
+
+export interface CuisineProfile {
+  name: string;
+  aliases: string[];          // Lowercase words that select the profile from a free-text cuisine
+  seasonings: string[];       // Catalogue ids, in the order they are named
+  acid: string;               // Catalogue id used when a recipe needs an acid the pantry lacks
+  prefers: RecipeMethod[];
+  drink: DrinkPairing;
+}
+
+export interface RecipeRole {
+  key: RoleKey;
+  ids?: string[];             // Catalogue ids the role takes
+  categories?: string[];      // Catalogue categories (or raw item categories) the role takes
+  exclude?: string[];         // Ids left out of `categories`
+  max: number;
+  required?: boolean;
+  fallbacks?: (string | ((profile: CuisineProfile) => string))[]; // Used, first allowed one, when no item fills the role
+}
+
+export type CookTimes = { default: number } & Record<string, number>;
+
+export interface RecipeStepPattern {
+  text: string;
+  technique: string;
+  minutes?: number;
+  timing?: { roles: RoleKey[]; times: CookTimes }; // Longest time among the roles' items
+  doneness?: RoleKey;         // Adds a core-temperature check for the role's meat and fish
+  temp?: string;
+  timer?: boolean;            // Show a timer for fixed-duration steps
+  parallel?: boolean;         // Runs alongside other steps, so excluded from the total duration
+}
+
+export interface RecipePattern {
+  method: RecipeMethod;
+  label: string;
+  title: string;
+  roles: RecipeRole[];        // Items go to the first role, in this order, that takes them
+  steps: RecipeStepPattern[];
+  platingTips: string[];
+}
+
+const PROTEINS = ['poultry', 'meat', 'seafood', 'plant-protein', 'egg', 'protein'];
+const AROMATICS = ['onion', 'garlic', 'shallot', 'leek', 'spring onion', 'ginger', 'chili'];
+const OILS = ['olive oil', 'coconut oil', 'butter', 'ghee'];
+const ACIDS = ['lemon', 'lime', 'vinegar', 'white wine'];
+const GRAINS = ['rice', 'quinoa', 'pasta'];
+const DENSE_ROOTS = ['potato', 'sweet potato', 'beetroot', 'pumpkin'];
+
+/**
+ * Safe core temperatures (°C) by catalogue category.
+ */
+export const CORE_TEMPS: Record<string, number> = {
+  poultry: 74,
+  meat: 71,
+  seafood: 63
+};
+
+export const BASE_TIMES: CookTimes = { default: 15, rice: 15, quinoa: 15, pasta: 10 };
+
+export const CUISINE_PROFILES: CuisineProfile[] = [
+  {
+    name: 'French',
+    aliases: ['french', 'provencal', 'european'],
+    seasonings: ['thyme', 'black pepper'],
+    acid: 'lemon',
+    prefers: ['saute', 'roast', 'soup'],
+    drink: { name: 'Elderflower Pressé', description: 'Sparkling and floral, to lift butter and browned flavours.' }
+  },
+  {
+    name: 'Japanese',
+    aliases: ['japanese', 'chinese', 'korean', 'asian'],
+    seasonings: ['soy sauce', 'ginger'],
+    acid: 'vinegar',
+    prefers: ['stir-fry', 'soup'],
+    drink: { name: 'Chilled Sencha', description: 'Grassy green tea, served cold, to match savoury soy.' }
+  },
+  {
+    name: 'Thai',
+    aliases: ['thai', 'vietnamese', 'southeast asian', 'malaysian'],
+    seasonings: ['ginger', 'chili'],
+    acid: 'lime',
+    prefers: ['curry', 'stir-fry', 'salad'],
+    drink: { name: 'Lemongrass Iced Tea', description: 'Citrusy and lightly sweet, to cool the chilli.' }
+  },
+  {
+    name: 'Indian',
+    aliases: ['indian', 'south asian', 'sri lankan', 'pakistani'],
+    seasonings: ['cumin', 'turmeric', 'paprika'],
+    acid: 'lemon',
+    prefers: ['curry', 'saute', 'soup'],
+    drink: { name: 'Fresh Lime Soda', description: 'Salted and sweetened lime over soda, to cut through the spice.' }
+  },
+  {
+    name: 'Italian',
+    aliases: ['italian', 'mediterranean', 'greek', 'spanish'],
+    seasonings: ['oregano', 'black pepper'],
+    acid: 'lemon',
+    prefers: ['saute', 'roast', 'salad', 'soup'],
+    drink: { name: 'Blood Orange Spritz (alcohol-free)', description: 'Bitter orange and soda, to refresh between bites.' }
+  },
+  {
+    name: 'Neo-Nordic',
+    aliases: ['nordic', 'scandinavian', 'danish', 'swedish'],
+    seasonings: ['dill', 'black pepper'],
+    acid: 'vinegar',
+    prefers: ['roast', 'salad', 'soup'],
+    drink: { name: 'Sparkling Apple & Elderflower', description: 'Crisp and tart, to balance earthy roots.' }
+  },
+  {
+    name: 'Mexican',
+    aliases: ['mexican', 'latin', 'tex-mex', 'peruvian'],
+    seasonings: ['cumin', 'paprika', 'chili'],
+    acid: 'lime',
+    prefers: ['saute', 'salad', 'soup'],
+    drink: { name: 'Agua de Jamaica', description: 'Chilled hibiscus infusion, tart enough to stand up to lime and chilli.' }
+  }
+];
+
+/**
+ * Used when the requested cuisine matches no profile.
+ */
+export const DEFAULT_CUISINE: CuisineProfile = {
+  name: 'Global Modern',
+  aliases: [],
+  seasonings: ['black pepper'],
+  acid: 'lemon',
+  prefers: [],
+  drink: { name: 'Sparkling Water with Citrus', description: 'A clean, neutral palate cleanser.' }
+};
+
+export const RECIPE_PATTERNS: RecipePattern[] = [
+  {
+    method: 'saute',
+    label: 'pan sauté',
+    title: 'Pan-Seared {protein}[ with {veg}]',
+    roles: [
+      { key: 'protein', categories: PROTEINS, max: 1, required: true },
+      { key: 'aromatic', ids: AROMATICS, max: 2 },
+      { key: 'veg', categories: ['vegetable'], exclude: DENSE_ROOTS, max: 3 },
+      { key: 'fat', ids: OILS, max: 1, fallbacks: ['olive oil'] },
+      { key: 'acid', ids: ACIDS, max: 1 },
+      { key: 'herb', categories: ['herb'], max: 1 }
+    ],
+    steps: [
+      { text: 'Pat the {protein} dry and season all over with salt[, {seasoning}].', technique: 'Seasoning', minutes: 5 },
+      { text: 'Heat {fat} in a wide frying pan over medium-high heat until it shimmers.', technique: 'Preheating', minutes: 2, temp: '190°C', timer: true },
+      {
+        text: 'Lay the {protein} in the pan and cook without moving until well browned underneath, then turn and cook the other side.',
+        technique: 'Searing',
+        timing: { roles: ['protein'], times: { default: 8, poultry: 12, meat: 8, seafood: 5, 'plant-protein': 8, egg: 3 } },
+        doneness: 'protein',
+        temp: '190°C'
+      },
+      { text: 'Move the {protein} to a warm plate to rest.', technique: 'Resting', minutes: 3, timer: true },
+      { text: 'Add the {aromatic} to the same pan and stir until fragrant.', technique: 'Sautéing', minutes: 1, timer: true },
+      {
+        text: 'Add the {veg} and cook, stirring often, until tender with some colour.',
+        technique: 'Sautéing',
+        timing: { roles: ['veg'], times: { default: 6, leafy: 3, mushroom: 7 } }
+      },
+      { text: 'Take the pan off the heat and deglaze with {acid}, scraping up the browned bits.', technique: 'Deglazing', minutes: 1 },
+      { text: 'Return the {protein} with its resting juices[, scatter over the {herb}] and serve straight away.', technique: 'Plating', minutes: 2 }
+    ],
+    platingTips: [
+      'Slice the protein against the grain and fan it over the vegetables.',
+      'Spoon the pan juices over just before serving so the crust stays crisp.'
+    ]
+  },
+  {
+    method: 'roast',
+    label: 'tray roast',
+    title: 'Roasted {veg}[ with {protein}]',
+    roles: [
+      { key: 'protein', categories: ['poultry', 'meat', 'seafood', 'plant-protein', 'protein'], max: 1 },
+      { key: 'aromatic', ids: ['onion', 'garlic', 'shallot', 'leek'], max: 2 },
+      { key: 'veg', categories: ['vegetable'], exclude: ['lettuce', 'cucumber', 'spinach'], max: 4, required: true },
+      { key: 'fat', ids: OILS, max: 1, fallbacks: ['olive oil'] },
+      { key: 'herb', ids: ['rosemary', 'thyme', 'sage', 'oregano'], max: 1 },
+      { key: 'acid', ids: ACIDS, max: 1 }
+    ],
+    steps: [
+      { text: 'Heat the oven to 200°C (180°C fan).', technique: 'Preheating', minutes: 10, temp: '200°C', parallel: true },
+      { text: 'Cut the {veg} into even 3 cm pieces[ and the {aromatic} into wedges].', technique: 'Knife Work', minutes: 8 },
+      { text: 'Toss with {fat}[ and the {herb}], season with salt[, {seasoning}] and spread in a single layer on a roasting tray.', technique: 'Seasoning', minutes: 3 },
+      { text: 'Rub the {protein} with a little more {fat} and salt and nestle it among the vegetables.', technique: 'Seasoning', minutes: 2 },
+      {
+        text: 'Roast, turning the vegetables halfway, until golden at the edges and tender to the point of a knife.',
+        technique: 'Roasting',
+        timing: {
+          roles: ['veg', 'aromatic', 'protein'],
+          times: { default: 25, starchy: 40, beetroot: 45, carrot: 35, asparagus: 12, broccoli: 20, leafy: 15, poultry: 35, meat: 30, seafood: 15, 'plant-protein': 25 }
+        },
+        doneness: 'protein',
+        temp: '200°C'
+      },
+      { text: 'Rest on the tray for 5 minutes[, squeeze over the {acid}] and serve.', technique: 'Resting', minutes: 5, timer: true }
+    ],
+    platingTips: [
+      'Pile the vegetables high and keep the caramelised edges facing up.',
+      'Drizzle the tray juices over the top rather than leaving them behind.'
+    ]
+  },
+  {
+    method: 'soup',
+    label: 'soup',
+    title: '[{protein} and ]{veg} Soup',
+    roles: [
+      { key: 'aromatic', ids: ['onion', 'leek', 'garlic', 'shallot', 'celery', 'ginger'], max: 2 },
+      { key: 'protein', ids: ['chicken', 'lentils', 'beans', 'chickpeas', 'tofu'], max: 1 },
+      { key: 'leafy', ids: ['spinach', 'kale'], max: 1 },
+      { key: 'veg', categories: ['vegetable', 'legume'], exclude: ['lettuce', 'cucumber'], max: 4, required: true },
+      { key: 'liquid', ids: ['coconut milk', 'cream', 'milk', 'soy milk', 'oat milk'], max: 1 },
+      { key: 'fat', ids: OILS, max: 1, fallbacks: ['olive oil'] },
+      { key: 'acid', ids: ['lemon', 'lime', 'vinegar'], max: 1 },
+      { key: 'herb', categories: ['herb'], max: 1 }
+    ],
+    steps: [
+      { text: 'Chop the {veg} into 2 cm pieces[ and finely slice the {aromatic}].', technique: 'Knife Work', minutes: 10 },
+      { text: 'Warm {fat} in a large pot over medium heat[ and sweat the {aromatic} with a pinch of salt until soft and translucent].', technique: 'Sweating', minutes: 6, timer: true },
+      { text: 'Add the {veg}[ along with the {protein}] and season with salt[, {seasoning}]. Stir for 2 minutes, then pour in enough water or stock to cover by 2 cm.', technique: 'Building', minutes: 3 },
+      {
+        text: 'Bring to the boil, then simmer with the lid ajar until everything is completely tender.',
+        technique: 'Simmering',
+        timing: { roles: ['veg', 'protein'], times: { default: 15, starchy: 20, leafy: 5, lentils: 20, beans: 25, chickpeas: 25, poultry: 20, 'plant-protein': 10 } },
+        doneness: 'protein',
+        temp: '95°C'
+      },
+      { text: 'Stir in the {liquid} and warm through without boiling.', technique: 'Enriching', minutes: 3, timer: true },
+      { text: 'Add the {leafy} and simmer until just wilted.', technique: 'Wilting', minutes: 2, timer: true },
+      { text: 'Blend until smooth or leave it chunky, adjust the salt[, sharpen with {acid}] and serve[ scattered with {herb}].', technique: 'Finishing', minutes: 3 }
+    ],
+    platingTips: [
+      'Serve in warmed bowls so the soup holds its heat.',
+      'Finish with a thread of oil and a pinch of pepper across the surface.'
+    ]
+  },
+  {
+    method: 'salad',
+    label: 'salad',
+    title: '{veg} Salad[ with {protein}]',
+    roles: [
+      { key: 'leafy', ids: ['lettuce', 'spinach', 'kale', 'cabbage'], max: 2 },
+      { key: 'protein', ids: ['cheese', 'mozzarella', 'parmesan', 'paneer', 'chickpeas', 'beans', 'tuna', 'tofu'], max: 1 },
+      { key: 'acid', ids: ['lemon', 'lime', 'vinegar'], max: 1, fallbacks: [profile => profile.acid] },
+      {
+        key: 'veg',
+        ids: ['tomato', 'cucumber', 'bell pepper', 'carrot', 'avocado', 'corn', 'beetroot', 'spring onion', 'celery', 'apple', 'pear', 'orange', 'mango', 'strawberry', 'pomegranate', 'peach', 'grape', 'kiwi', 'plum', 'blueberry', 'raspberry', 'mushroom', 'zucchini', 'asparagus'],
+        max: 3,
+        required: true
+      },
+      { key: 'fat', ids: ['olive oil'], max: 1, fallbacks: ['olive oil'] },
+      { key: 'crunch', categories: ['nut-seed'], max: 1 },
+      { key: 'herb', categories: ['herb'], max: 1 }
+    ],
+    steps: [
+      { text: 'Wash and spin dry the {leafy}, then tear or shred into bite-sized pieces.', technique: 'Washing', minutes: 5 },
+      { text: 'Slice the {veg} thinly[ and crumble, slice or drain the {protein}].', technique: 'Knife Work', minutes: 8 },
+      { text: 'Whisk {acid} with three times as much {fat}, a pinch of salt[, {seasoning}].', technique: 'Emulsifying', minutes: 2 },
+      { text: 'Toast the {crunch} in a dry pan over medium heat until fragrant, then tip onto a plate to cool.', technique: 'Toasting', minutes: 3, timer: true },
+      { text: 'Toss everything with the dressing just before serving[ and finish with the {herb}][ and {crunch}].', technique: 'Dressing', minutes: 2 }
+    ],
+    platingTips: [
+      'Dress at the last moment so the leaves stay crisp.',
+      'Build height in a wide shallow bowl and add the crunchy elements last.'
+    ]
+  },
+  {
+    method: 'stir-fry',
+    label: 'stir-fry',
+    title: '[{protein} and ]{veg} Stir-Fry',
+    roles: [
+      { key: 'protein', categories: ['poultry', 'meat', 'seafood', 'plant-protein', 'egg', 'protein'], max: 1 },
+      { key: 'aromatic', ids: ['garlic', 'ginger', 'chili', 'spring onion', 'onion'], max: 3 },
+      { key: 'veg', categories: ['vegetable'], exclude: [...DENSE_ROOTS, 'lettuce', 'cucumber'], max: 4, required: true },
+      { key: 'base', ids: GRAINS, max: 1 },
+      { key: 'sauce', ids: ['soy sauce', 'miso', 'peanut butter', 'honey', 'maple syrup', 'vinegar'], max: 2 },
+      { key: 'fat', ids: ['coconut oil', 'olive oil', 'ghee'], max: 1, fallbacks: ['olive oil'] }
+    ],
+    steps: [
+      { text: 'Put the {base} on to cook in plenty of salted water while you prepare everything else.', technique: 'Boiling', timing: { roles: ['base'], times: BASE_TIMES }, parallel: true },
+      { text: 'Cut the {veg} into thin, even strips[ and slice the {protein} into bite-sized pieces].', technique: 'Knife Work', minutes: 10 },
+      { text: 'Heat a wok or large frying pan over high heat until it just smokes, then add {fat}.', technique: 'Preheating', minutes: 2, temp: '220°C', timer: true },
+      {
+        text: 'Stir-fry the {protein} until browned and just cooked, then tip onto a plate.',
+        technique: 'Stir-Frying',
+        timing: { roles: ['protein'], times: { default: 4, poultry: 6, meat: 4, seafood: 3, 'plant-protein': 5, egg: 2 } },
+        doneness: 'protein',
+        temp: '220°C'
+      },
+      { text: 'Add the {aromatic} and stir for 30 seconds.', technique: 'Stir-Frying', minutes: 1 },
+      {
+        text: 'Add the {veg}, hardest first, and stir-fry until bright and just tender.',
+        technique: 'Stir-Frying',
+        timing: { roles: ['veg'], times: { default: 4, leafy: 2, carrot: 5, broccoli: 4, cauliflower: 5 } },
+        temp: '220°C'
+      },
+      { text: 'Return everything to the pan, season with salt[, {seasoning}][, add the {sauce}] and toss for a minute[; serve over the {base}].', technique: 'Tossing', minutes: 2 }
+    ],
+    platingTips: [
+      'Serve in a warmed bowl straight from the wok, while the vegetables still snap.',
+      'Spoon any sauce left in the pan over the top.'
+    ]
+  },
+  {
+    method: 'curry',
+    label: 'curry',
+    title: '[{protein} and ]{veg} Curry',
+    roles: [
+      { key: 'protein', ids: ['paneer', 'lentils', 'beans', 'chickpeas'], categories: ['poultry', 'meat', 'seafood', 'plant-protein', 'protein'], max: 1 },
+      { key: 'aromatic', ids: ['onion', 'garlic', 'ginger', 'chili', 'shallot'], max: 3 },
+      { key: 'leafy', ids: ['spinach', 'kale'], max: 1 },
+      { key: 'veg', categories: ['vegetable', 'legume'], exclude: ['lettuce', 'cucumber', 'celery'], max: 3, required: true },
+      { key: 'liquid', ids: ['coconut milk', 'yogurt', 'cream'], max: 1 },
+      { key: 'base', ids: ['rice', 'quinoa'], max: 1 },
+      { key: 'fat', ids: ['ghee', 'coconut oil', 'olive oil', 'butter'], max: 1, fallbacks: ['ghee', 'coconut oil'] },
+      { key: 'acid', ids: ['lemon', 'lime'], max: 1 },
+      { key: 'herb', ids: ['cilantro', 'mint', 'basil'], max: 1 }
+    ],
+    steps: [
+      { text: 'Rinse the {base} and put it on to cook.', technique: 'Boiling', timing: { roles: ['base'], times: BASE_TIMES }, parallel: true },
+      { text: '[Finely chop the {aromatic}. ]Cut the {veg}[ and the {protein}] into 3 cm pieces.', technique: 'Knife Work', minutes: 10 },
+      { text: 'Heat {fat} in a heavy pan over medium heat[ and fry the {aromatic} until soft and golden].', technique: 'Frying', minutes: 6, timer: true },
+      { text: 'Stir in {seasoning} with a splash of water and cook until the spices smell toasted.', technique: 'Blooming', minutes: 1, timer: true },
+      { text: 'Add the {veg}[ and {protein}] and stir to coat in the spices.', technique: 'Sautéing', minutes: 2 },
+      {
+        text: '[Pour in the {liquid}, then ]top up with water to just cover and simmer, partly covered, until everything is tender.',
+        technique: 'Simmering',
+        timing: { roles: ['veg', 'protein'], times: { default: 15, starchy: 20, poultry: 20, meat: 45, seafood: 6, 'plant-protein': 10, paneer: 8, lentils: 20, beans: 20, chickpeas: 20 } },
+        doneness: 'protein',
+        temp: '95°C'
+      },
+      { text: 'Stir through the {leafy} until just wilted.', technique: 'Wilting', minutes: 2, timer: true },
+      { text: 'Taste for salt[, add the {acid}] and serve[ with the {base}][, scattered with {herb}].', technique: 'Finishing', minutes: 2 }
+    ],
+    platingTips: [
+      'Ladle the curry beside, not over, the rice so both keep their texture.',
+      'Finish with fresh herbs for colour and a bright top note.'
+    ]
+  }
+];
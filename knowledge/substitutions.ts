@@ -0,0 +1,335 @@
+import { IngredientCategory } from './catalogue';
+
+/**
+ * substitutions.ts
+ * What each ingredient does in a dish and what can do the same job. Rules
+ * carry a conversion ratio (grams of substitute per gram of the original)
+ * and the technique change the swap needs; ingredients without rules fall
+ * back to others in the same role and category. Ratios follow common
+ * kitchen practice (butter is ~80% fat, vinegar is roughly twice as sharp
+ * as lemon juice).
+ */
+
+export type FunctionalRole =
+  | 'fat' | 'acid' | 'binder' | 'aromatic' | 'protein'
+  | 'creamy' | 'sweetener' | 'umami' | 'herb';
+
+export const ROLE_LABELS: Record<FunctionalRole, string> = {
+  'fat': 'Fat',
+  'acid': 'Acid',
+  'binder': 'Binder',
+  'aromatic': 'Aromatic',
+  'protein': 'Protein',
+  'creamy': 'Creamy Base',
+  'sweetener': 'Sweetener',
+  'umami': 'Umami',
+  'herb': 'Herb'
+};
+
+/**
+ * Ingredients that play more than one part, or whose category says nothing
+ * about their part. The first role is the default; a later one is chosen
+ * when the step reads like it (see ROLE_CUES).
+ */
+export const INGREDIENT_ROLES: Record<string, FunctionalRole[]> = {
+  'egg': ['protein', 'binder'],
+  'flour': ['binder'],
+  'oats': ['binder'],
+  'bread': ['binder'],
+  'lemon': ['acid'],
+  'lime': ['acid'],
+  'vinegar': ['acid'],
+  'white wine': ['acid'],
+  'onion': ['aromatic'],
+  'shallot': ['aromatic'],
+  'garlic': ['aromatic'],
+  'leek': ['aromatic'],
+  'spring onion': ['aromatic'],
+  'ginger': ['aromatic'],
+  'celery': ['aromatic'],
+  'butter': ['fat'],
+  'milk': ['creamy'],
+  'cream': ['creamy'],
+  'yogurt': ['creamy'],
+  'coconut milk': ['creamy'],
+  'soy milk': ['creamy'],
+  'oat milk': ['creamy'],
+  'cheese': ['umami'],
+  'parmesan': ['umami'],
+  'soy sauce': ['umami'],
+  'miso': ['umami'],
+  'anchovy': ['umami', 'protein'],
+  'mushroom': ['umami', 'protein'],
+  'tahini': ['creamy'],
+  'peanut butter': ['creamy'],
+  'mayo': ['creamy']
+};
+
+/**
+ * Roles implied by a catalogue category when an entry is not listed above.
+ */
+export const CATEGORY_ROLES: Partial<Record<IngredientCategory, FunctionalRole>> = {
+  'oil-fat': 'fat',
+  'herb': 'herb',
+  'meat': 'protein',
+  'poultry': 'protein',
+  'seafood': 'protein',
+  'plant-protein': 'protein',
+  'legume': 'protein',
+  'sweetener': 'sweetener'
+};
+
+/**
+ * Step wording that selects a secondary role.
+ */
+export const ROLE_CUES: Partial<Record<FunctionalRole, string[]>> = {
+  'binder': ['bake', 'batter', 'dough', 'bind', 'binding', 'coat', 'dredge', 'fritter', 'patty', 'patties', 'meatball'],
+  'protein': ['sear', 'grill', 'roast', 'fry', 'poach', 'scramble', 'braise']
+};
+
+/**
+ * Substitutes made in the kitchen or bought as-is that the catalogue does
+ * not list. `madeFrom` names the catalogue ids they are screened as for
+ * diet and allergies.
+ */
+export interface StandIn {
+  name: string;
+  madeFrom: string[];
+}
+
+export const STAND_INS: Record<string, StandIn> = {
+  'flax egg': { name: 'Flax Egg', madeFrom: [] },
+  'aquafaba': { name: 'Aquafaba', madeFrom: ['chickpeas'] },
+  'cashew cream': { name: 'Cashew Cream', madeFrom: ['cashew'] },
+  'verjuice': { name: 'Verjuice', madeFrom: ['grape'] },
+  'nutritional yeast': { name: 'Nutritional Yeast', madeFrom: [] },
+  'cornflour': { name: 'Cornflour', madeFrom: ['corn'] },
+  'coconut aminos': { name: 'Coconut Aminos', madeFrom: ['coconut'] }
+};
+
+export interface SubstitutionRule {
+  to: string;                // Catalogue id, or a STAND_INS key
+  ratio: number;             // Grams of substitute per gram of the original
+  note: string;              // Technique change the swap needs
+  roles?: FunctionalRole[];  // Only when the original plays one of these roles
+  avoid?: string[];          // Step wording the swap fails at
+}
+
+const HIGH_HEAT = ['sear', 'deep-fry', 'deep fry', 'stir-fry', 'stir fry', 'char', 'blacken'];
+const COOKED = ['sauté', 'saute', 'sweat', 'soften', 'fry', 'roast', 'caramelise', 'caramelize', 'braise', 'simmer'];
+const BOILED = ['boil', 'simmer', 'reduce', 'braise'];
+
+export const SUBSTITUTION_RULES: Record<string, SubstitutionRule[]> = {
+  // Fats
+  'butter': [
+    { to: 'ghee', ratio: 1, note: 'Same richness without the milk solids; takes high heat without burning' },
+    { to: 'olive oil', ratio: 0.8, note: 'Butter is about 80% fat, so use four-fifths the weight; no browned-butter notes', avoid: ['cream the butter', 'creamed', 'pastry', 'laminate', 'frosting'] },
+    { to: 'coconut oil', ratio: 0.8, note: 'Solid when cool, so it creams and bakes like butter; faint coconut note' }
+  ],
+  'olive oil': [
+    { to: 'coconut oil', ratio: 1, note: 'Melt it first for dressings; faint coconut note', avoid: ['dressing', 'drizzle', 'vinaigrette'] },
+    { to: 'ghee', ratio: 1, note: 'Richer and nuttier; fine for high heat' },
+    { to: 'butter', ratio: 1.25, note: 'Use a quarter more; keep the heat moderate or the milk solids burn', avoid: HIGH_HEAT }
+  ],
+  'ghee': [
+    { to: 'coconut oil', ratio: 1, note: 'Same smoke point; faint coconut note' },
+    { to: 'olive oil', ratio: 1, note: 'Lighter and grassier; add a knob of butter at the end for richness' },
+    { to: 'butter', ratio: 1.25, note: 'Use a quarter more and keep the heat moderate', avoid: HIGH_HEAT }
+  ],
+  'coconut oil': [
+    { to: 'ghee', ratio: 1, note: 'Same smoke point, buttery rather than tropical' },
+    { to: 'olive oil', ratio: 1, note: 'Stays liquid, so baked goods come out softer' },
+    { to: 'butter', ratio: 1.25, note: 'Use a quarter more for the water it carries', avoid: HIGH_HEAT }
+  ],
+
+  // Acids
+  'lemon': [
+    { to: 'lime', ratio: 1, note: 'Sharper and more floral; add at the end' },
+    { to: 'vinegar', ratio: 0.5, note: 'Half as much, it is sharper; white wine or cider vinegar is closest', avoid: ['zest'] },
+    { to: 'verjuice', ratio: 1.5, note: 'Milder and fruitier; use half as much again', avoid: ['zest'] },
+    { to: 'white wine', ratio: 2, note: 'Twice as much, reduced by half before the other liquids go in', avoid: ['zest', 'dressing', 'vinaigrette', 'garnish'] }
+  ],
+  'lime': [
+    { to: 'lemon', ratio: 1, note: 'Rounder and less floral; add at the end' },
+    { to: 'vinegar', ratio: 0.5, note: 'Half as much; rice vinegar is closest', avoid: ['zest'] }
+  ],
+  'vinegar': [
+    { to: 'lemon', ratio: 2, note: 'Twice as much juice; add off the heat so it stays bright' },
+    { to: 'lime', ratio: 2, note: 'Twice as much juice; best in dressings and salsas' },
+    { to: 'white wine', ratio: 3, note: 'Reduce it first; gentler acidity', avoid: ['pickle', 'dressing', 'vinaigrette'] }
+  ],
+  'white wine': [
+    { to: 'verjuice', ratio: 1, note: 'Same tartness without the alcohol' },
+    { to: 'vinegar', ratio: 0.25, note: 'A quarter the amount, topped up to volume with stock or water' },
+    { to: 'lemon', ratio: 0.5, note: 'Half the amount, topped up with stock or water' }
+  ],
+
+  // Aromatics
+  'onion': [
+    { to: 'shallot', ratio: 1, note: 'Milder and sweeter; softens a couple of minutes sooner' },
+    { to: 'leek', ratio: 1.5, note: 'Use the white and pale green, sliced thin and washed; half as much again' },
+    { to: 'spring onion', ratio: 1, note: 'Add late; it collapses if cooked as long as onion', avoid: ['caramelise', 'caramelize', 'roast'] },
+    { to: 'chives', ratio: 0.25, note: 'Raw dishes and garnish only; a quarter the weight', avoid: COOKED }
+  ],
+  'shallot': [
+    { to: 'onion', ratio: 1, note: 'Harsher raw; soak in cold water for ten minutes before using uncooked' },
+    { to: 'spring onion', ratio: 1, note: 'Use the whites for cooking, the greens to finish' },
+    { to: 'leek', ratio: 1.5, note: 'Use the white part only, sliced thin' }
+  ],
+  'garlic': [
+    { to: 'shallot', ratio: 2, note: 'Twice the weight; sweeter, with only a hint of bite' },
+    { to: 'chives', ratio: 1, note: 'Raw dishes and garnish only', avoid: COOKED },
+    { to: 'spring onion', ratio: 2, note: 'Twice the weight; add in the last few minutes' }
+  ],
+  'leek': [
+    { to: 'onion', ratio: 0.75, note: 'Three-quarters the weight; cook it lower and slower to keep it sweet' },
+    { to: 'spring onion', ratio: 1, note: 'Cook briefly; it has less body' }
+  ],
+  'spring onion': [
+    { to: 'chives', ratio: 0.5, note: 'For the green tops, raw or added at the very end' },
+    { to: 'shallot', ratio: 0.75, note: 'Slice thin; cook it a little longer' }
+  ],
+
+  // Proteins
+  'chicken': [
+    { to: 'turkey', ratio: 1, note: 'Leaner, so pull it off the heat as soon as it reaches 74°C' },
+    { to: 'tofu', ratio: 1, note: 'Use extra-firm, pressed for 15 minutes; sear hard and season boldly' },
+    { to: 'tempeh', ratio: 0.8, note: 'Steam for 10 minutes first to soften its bitterness' },
+    { to: 'pork', ratio: 1, note: 'Cook to 71°C rather than 74°C' },
+    { to: 'chickpeas', ratio: 0.8, note: 'Stews and curries only; add in the last 10 minutes', avoid: ['sear', 'grill', 'roast', 'fillet'] }
+  ],
+  'turkey': [
+    { to: 'chicken', ratio: 1, note: 'Juicier; same 74°C core' },
+    { to: 'pork', ratio: 1, note: 'Cook to 71°C' }
+  ],
+  'beef': [
+    { to: 'lamb', ratio: 1, note: 'Richer and gamier; trim excess fat' },
+    { to: 'mushroom', ratio: 1.25, note: 'Sear hard in batches for a meaty crust; add soy sauce for depth' },
+    { to: 'tempeh', ratio: 0.8, note: 'Crumble for mince; brown well before adding liquid' },
+    { to: 'lentils', ratio: 0.8, note: 'Braises and mince dishes; use cooked lentils and add late', avoid: ['sear', 'grill', 'steak'] }
+  ],
+  'pork': [
+    { to: 'chicken', ratio: 1, note: 'Leaner; cook to 74°C' },
+    { to: 'turkey', ratio: 1, note: 'Leaner; baste or brine to keep it moist' },
+    { to: 'tofu', ratio: 1, note: 'Extra-firm, pressed and well seasoned' }
+  ],
+  'lamb': [
+    { to: 'beef', ratio: 1, note: 'Milder; add rosemary or cumin for the missing depth' },
+    { to: 'pork', ratio: 1, note: 'Cook to 71°C' }
+  ],
+  'salmon': [
+    { to: 'cod', ratio: 1, note: 'Leaner and flakier; cook gently and baste with fat' },
+    { to: 'tuna', ratio: 1, note: 'Sear briefly; it dries out past medium' },
+    { to: 'tofu', ratio: 1, note: 'Marinate with miso or soy for the missing depth' }
+  ],
+  'cod': [
+    { to: 'salmon', ratio: 1, note: 'Richer; cook skin-side down to 50°C for a silky centre' },
+    { to: 'shrimp', ratio: 1, note: 'Cooks in 2 to 3 minutes; add at the end' },
+    { to: 'tofu', ratio: 1, note: 'Use firm tofu and handle gently' }
+  ],
+  'tuna': [
+    { to: 'salmon', ratio: 1, note: 'Oilier; cook a little longer' },
+    { to: 'cod', ratio: 1, note: 'Cook through; it does not suit rare' }
+  ],
+  'shrimp': [
+    { to: 'cod', ratio: 1, note: 'Cut into chunks; cooks just as fast' },
+    { to: 'chicken', ratio: 1, note: 'Cut small and cook to 74°C; takes longer' },
+    { to: 'tofu', ratio: 1, note: 'Cube and sear before adding to the dish' }
+  ],
+  'tofu': [
+    { to: 'tempeh', ratio: 1, note: 'Firmer and nuttier; steam first' },
+    { to: 'paneer', ratio: 1, note: 'Holds its shape when seared; no pressing needed' },
+    { to: 'chickpeas', ratio: 1, note: 'For stews and curries', avoid: ['sear', 'scramble', 'grill'] }
+  ],
+  'tempeh': [
+    { to: 'tofu', ratio: 1, note: 'Softer; press it and sear hard' },
+    { to: 'mushroom', ratio: 1.25, note: 'Sear in batches so it browns' }
+  ],
+  'paneer': [
+    { to: 'tofu', ratio: 1, note: 'Extra-firm, pressed for 15 minutes; salt it, paneer is seasoned' },
+    { to: 'mozzarella', ratio: 1, note: 'Melts instead of searing; add at the end', avoid: ['sear', 'fry', 'grill'] }
+  ],
+  'egg': [
+    { to: 'flax egg', ratio: 1, note: '1 tbsp ground flaxseed and 3 tbsp water per egg, rested 5 minutes', roles: ['binder'] },
+    { to: 'aquafaba', ratio: 0.9, note: '3 tbsp chickpea cooking liquid per egg; whips like egg white', roles: ['binder'] },
+    { to: 'yogurt', ratio: 1, note: '60 g per egg; adds moisture, so bake a few minutes longer', roles: ['binder'] },
+    { to: 'banana', ratio: 1, note: 'Half a mashed banana per egg; sweet bakes only', roles: ['binder'] },
+    { to: 'tofu', ratio: 1, note: 'Crumble with a pinch of turmeric for a scramble', roles: ['protein'], avoid: ['poach', 'boil'] }
+  ],
+
+  // Binders
+  'flour': [
+    { to: 'cornflour', ratio: 0.5, note: 'Half as much to thicken; slake in cold water and add at the end', avoid: ['bake', 'dough', 'knead'] },
+    { to: 'oats', ratio: 1, note: 'Blitz to a powder; denser crumb', avoid: ['sauce', 'gravy', 'roux'] }
+  ],
+  'bread': [
+    { to: 'oats', ratio: 1, note: 'Use as crumbs for binding or coating' },
+    { to: 'flour', ratio: 0.5, note: 'Half as much to bind; the mix will be denser' }
+  ],
+
+  // Creamy bases
+  'milk': [
+    { to: 'oat milk', ratio: 1, note: 'Slightly sweet; unsweetened is best for savoury dishes' },
+    { to: 'soy milk', ratio: 1, note: 'Closest in protein; curdles with acid, so add it last' },
+    { to: 'coconut milk', ratio: 0.75, note: 'Richer; three-quarters the amount topped up with water' },
+    { to: 'cream', ratio: 0.5, note: 'Half cream, half water' }
+  ],
+  'cream': [
+    { to: 'coconut milk', ratio: 1, note: 'Full-fat; chill the tin and use the solid layer for whipping' },
+    { to: 'cashew cream', ratio: 1, note: 'Blend soaked cashews with water 1:1; does not whip', avoid: ['whip'] },
+    { to: 'yogurt', ratio: 1, note: 'Stir in off the heat or it splits', avoid: BOILED.concat('whip') },
+    { to: 'milk', ratio: 1, note: 'Add a knob of butter and reduce a little longer; will not whip', avoid: ['whip'] }
+  ],
+  'yogurt': [
+    { to: 'cream', ratio: 1, note: 'Add a squeeze of lemon for the missing tang' },
+    { to: 'coconut milk', ratio: 1, note: 'Thinner; add lime for tang' },
+    { to: 'cashew cream', ratio: 1, note: 'Add a squeeze of lemon for tang' }
+  ],
+  'coconut milk': [
+    { to: 'cream', ratio: 1, note: 'No coconut flavour; add at the end and do not boil hard' },
+    { to: 'cashew cream', ratio: 1, note: 'Thin with water to the same body' },
+    { to: 'yogurt', ratio: 1, note: 'Stir in off the heat or it splits', avoid: BOILED }
+  ],
+  'mayo': [
+    { to: 'yogurt', ratio: 1, note: 'Tangier and lighter; add a little olive oil for body' },
+    { to: 'tahini', ratio: 0.5, note: 'Thin with lemon juice and water' }
+  ],
+  'tahini': [
+    { to: 'peanut butter', ratio: 1, note: 'Sweeter; thin with warm water' },
+    { to: 'yogurt', ratio: 1, note: 'Lighter and tangier; add toasted sesame oil if you have it' }
+  ],
+  'peanut butter': [
+    { to: 'tahini', ratio: 1, note: 'More bitter; add a little honey or maple syrup' }
+  ],
+
+  // Umami
+  'soy sauce': [
+    { to: 'coconut aminos', ratio: 1.5, note: 'Sweeter and less salty; use half as much again and taste' },
+    { to: 'miso', ratio: 0.5, note: 'Half as much, loosened with water' }
+  ],
+  'miso': [
+    { to: 'soy sauce', ratio: 1, note: 'Thinner and saltier; add to taste' }
+  ],
+  'parmesan': [
+    { to: 'cheese', ratio: 1, note: 'Use a hard, aged cheese' },
+    { to: 'nutritional yeast', ratio: 0.25, note: 'A quarter the weight for cheesy savouriness; does not melt' }
+  ],
+  'cheese': [
+    { to: 'parmesan', ratio: 0.5, note: 'Half as much, it is stronger; melts less' },
+    { to: 'nutritional yeast', ratio: 0.25, note: 'A quarter the weight; stir into sauces, does not melt', avoid: ['melt', 'grill', 'gratin'] }
+  ],
+
+  // Sweeteners
+  'sugar': [
+    { to: 'honey', ratio: 0.75, note: 'Three-quarters the amount; cut other liquid by a fifth and bake 15°C lower' },
+    { to: 'maple syrup', ratio: 0.75, note: 'Three-quarters the amount; cut other liquid by a fifth', avoid: ['caramel'] }
+  ],
+  'honey': [
+    { to: 'maple syrup', ratio: 1, note: 'Thinner and less sweet; reduce it a little for glazes' },
+    { to: 'sugar', ratio: 1.25, note: 'Add 2 tbsp of liquid per 100 g of sugar' }
+  ],
+  'maple syrup': [
+    { to: 'honey', ratio: 1, note: 'Sweeter and thicker; browns faster' },
+    { to: 'sugar', ratio: 1.25, note: 'Add 2 tbsp of liquid per 100 g of sugar' }
+  ]
+};
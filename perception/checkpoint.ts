@@ -0,0 +1,21 @@
+/**
+ * checkpoint.ts
+ * Cancellation points for the synchronous per-detection loops of the
+ * perception stages. A stage that runs without yielding cannot be stopped by
+ * its budget timer or an abort message, so stages call `checkpoint` between
+ * detections: it throws once the stage signal is aborted, and hands the event
+ * loop a turn every YIELD_INTERVAL_MS so timers and messages get through.
+ */
+
+const YIELD_INTERVAL_MS = 16;
+
+let lastYield = 0;
+
+export const checkpoint = async (signal?: AbortSignal): Promise<void> => {
+  if (!signal) return;
+  signal.throwIfAborted();
+  if (performance.now() - lastYield < YIELD_INTERVAL_MS) return;
+  await new Promise(resolve => setTimeout(resolve, 0));
+  lastYield = performance.now();
+  signal.throwIfAborted();
+};
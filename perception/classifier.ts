@@ -1,5 +1,4 @@
-
-import { SCIENTIFIC_MAP } from './class_map';
+import { getEntry } from '../knowledge/catalogue';
 
 /**
  * classifier.ts
@@ -8,6 +7,6 @@ import { SCIENTIFIC_MAP } from './class_map';
 export const classifyObjects = async (detections: any[]) => {
   return detections.map(d => ({
     ...d,
-    scientificName: SCIENTIFIC_MAP[d.label] || 'Unknown Species'
+    scientificName: getEntry(d.label)?.scientificName || 'Unknown Species'
   }));
 };
@@ -1,55 +1,151 @@
-
+import * as ort from 'onnxruntime-web';
 import { registry } from '../services/modelRegistry';
-import { ModelType } from '../types';
+import { Detection, ModelType, OfflineModel } from '../types';
+import { letterbox } from './image';
+import { calibrateScore, calibrationKey, thresholdFor } from '../services/calibrationService';
 
 /**
  * detector.ts
  * Deep Local Intelligence (DLI) Ensemble Detection Layer.
+ * Runs a YOLO-style ONNX model on CPU (WASM) entirely in the browser.
+ */
+
+const NMS_IOU_THRESHOLD = 0.45;
+const CANDIDATE_FLOOR = 0.05; // Lowest score ever kept from the raw head output
+
+/**
+ * Memo of the most recent raw inference so threshold sweeps on the same
+ * image (e.g. the hybrid pass) do not pay for a second forward pass.
+ */
+let lastInference: { image: ImageData; modelId: string; candidates: Detection[] } | null = null;
+
+// A hot-swapped detector must never be served from the previous model's memo
+registry.onModelChange(type => {
+  if (type === ModelType.DETECTION) lastInference = null;
+});
+
+/**
+ * Intersection over union of two boxes.
+ */
+export const iou = (a: Detection['bbox'], b: Detection['bbox']): number => {
+  const x1 = Math.max(a[0], b[0]);
+  const y1 = Math.max(a[1], b[1]);
+  const x2 = Math.min(a[2], b[2]);
+  const y2 = Math.min(a[3], b[3]);
+  const inter = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = (a[2] - a[0]) * (a[3] - a[1]) + (b[2] - b[0]) * (b[3] - b[1]) - inter;
+  return union > 0 ? inter / union : 0;
+};
+
+/**
+ * Class-wise greedy Non-Maximum Suppression.
+ */
+export const nonMaxSuppression = (detections: Detection[], iouThreshold: number = NMS_IOU_THRESHOLD): Detection[] => {
+  const sorted = [...detections].sort((a, b) => b.confidence - a.confidence);
+  const kept: Detection[] = [];
+  sorted.forEach(candidate => {
+    const overlaps = kept.some(k => k.label === candidate.label && iou(k.bbox, candidate.bbox) > iouThreshold);
+    if (!overlaps) kept.push(candidate);
+  });
+  return kept;
+};
+
+/**
+ * Decodes a YOLOv8 head of shape [1, 4 + classes, anchors] into boxes
+ * expressed in source-image pixels.
  */
+const decodeOutput = (
+  output: ort.Tensor,
+  model: OfflineModel,
+  pixels: ImageData,
+  scale: number,
+  padX: number,
+  padY: number
+): Detection[] => {
+  const data = output.data as Float32Array;
+  const [, channels, anchors] = output.dims;
+  const labels = model.artifact?.labels || model.coverage;
+  const classCount = Math.min(channels - 4, labels.length);
+  const candidates: Detection[] = [];
+
+  for (let i = 0; i < anchors; i++) {
+    let bestClass = -1;
+    let bestScore = CANDIDATE_FLOOR;
+    for (let c = 0; c < classCount; c++) {
+      const score = data[(4 + c) * anchors + i];
+      if (score > bestScore) {
+        bestScore = score;
+        bestClass = c;
+      }
+    }
+    if (bestClass < 0) continue;
+
+    const cx = data[i];
+    const cy = data[anchors + i];
+    const w = data[2 * anchors + i];
+    const h = data[3 * anchors + i];
+    const clampX = (v: number) => Math.min(pixels.width, Math.max(0, v));
+    const clampY = (v: number) => Math.min(pixels.height, Math.max(0, v));
+
+    candidates.push({
+      label: labels[bestClass],
+      bbox: [
+        clampX((cx - w / 2 - padX) / scale),
+        clampY((cy - h / 2 - padY) / scale),
+        clampX((cx + w / 2 - padX) / scale),
+        clampY((cy + h / 2 - padY) / scale)
+      ],
+      confidence: bestScore,
+      model: model.id,
+      modelVersion: model.version
+    });
+  }
+
+  return candidates;
+};
+
+const runInference = async (pixels: ImageData): Promise<Detection[]> => {
+  const { model, runtime: session } = await registry.getRuntime<ort.InferenceSession>(ModelType.DETECTION);
+  if (lastInference?.image === pixels && lastInference.modelId === model.id) return lastInference.candidates;
+
+  const inputSize = model.artifact?.inputSize || 640;
+  const { tensor, scale, padX, padY } = await letterbox(pixels, inputSize);
+
+  const input = new ort.Tensor('float32', tensor, [1, 3, inputSize, inputSize]);
+  const outputs = await session.run({ [session.inputNames[0]]: input });
+  const candidates = decodeOutput(outputs[session.outputNames[0]], model, pixels, scale, padX, padY);
+
+  lastInference = { image: pixels, modelId: model.id, candidates };
+  return candidates;
+};
+
+/**
+ * Keeps raw candidates above their class threshold (`base` shifted by what
+ * user verifications taught about that class) and calibrates their scores.
+ */
+const applyCalibration = (candidates: Detection[], base: number): Detection[] =>
+  candidates
+    .filter(d => d.confidence >= thresholdFor(calibrationKey(d.model, d.modelVersion), d.label, base))
+    .map(d => ({ ...d, rawConfidence: d.confidence, confidence: calibrateScore(calibrationKey(d.model, d.modelVersion), d.label, d.confidence) }));
 
 /**
  * Deep Ensemble Scan
- * Dynamically pulls class coverage from the Model Registry.
- */
-export const detectObjects = async (image: string, confidenceThreshold: number = 0.25) => {
-  const detectionCoverage = registry.getAggregateCoverage(ModelType.DETECTION);
-  const classificationCoverage = registry.getAggregateCoverage(ModelType.CLASSIFICATION);
-
-  // Baseline Detections pulled from primary edge model
-  const baseDetections = [
-    { label: 'pear', bbox: [100, 200, 300, 400], confidence: 0.99, model: 'yolov8x_fine_tuned' },
-    { label: 'spinach', bbox: [50, 50, 150, 150], confidence: 0.96, model: 'yolov8x_fine_tuned' },
-    { label: 'cheese', bbox: [400, 100, 600, 300], confidence: 0.98, model: 'yolov8x_fine_tuned' },
-    { label: 'tomato', bbox: [120, 450, 180, 510], confidence: 0.85, model: 'yolov8x_fine_tuned' },
-    { label: 'onion', bbox: [300, 500, 350, 550], confidence: 0.79, model: 'yolov8x_fine_tuned' },
-    { label: 'garlic', bbox: [200, 10, 240, 40], confidence: 0.72, model: 'yolov8x_fine_tuned' },
-  ];
-
-  // Secondary Ensemble Sweep pulled from classification models
-  const ensembleSweep = classificationCoverage.map((label, idx) => ({
-    label,
-    bbox: [idx * 10, idx * 10, 50, 50],
-    confidence: 0.6 + (Math.random() * 0.3),
-    model: 'ensemble_classification_pass'
-  })).slice(0, 3); // Simulate only a few findings per scan
-
-  const combined = [...baseDetections, ...ensembleSweep];
-  const filtered = combined.filter(d => d.confidence >= (confidenceThreshold * 0.8));
-  
-  console.debug(`[DLI Ensemble] Sovereign Scan Complete. Models active: ${registry.getModelsByType(ModelType.DETECTION).length + registry.getModelsByType(ModelType.CLASSIFICATION).length}`);
+ * Runs the on-device detector over decoded pixels and applies NMS.
+ */
+export const detectObjects = async (pixels: ImageData, confidenceThreshold: number = 0.25): Promise<Detection[]> => {
+  const candidates = await runInference(pixels);
+  const filtered = nonMaxSuppression(applyCalibration(candidates, confidenceThreshold));
+
+  console.debug(`[DLI Ensemble] Sovereign Scan Complete. ${filtered.length} detections. Active model: ${registry.getActiveModel(ModelType.DETECTION)?.id}`);
   return filtered;
 };
 
 /**
- * Secondary Classification Pass (Simulated Hybrid Logic)
+ * Secondary low-threshold sweep over the same forward pass.
+ * Recovers obscured items without duplicating confident primary boxes.
  */
-export const runHybridInference = async (image: string, primaryDetections: any[], threshold: number): Promise<any[]> => {
-  if (primaryDetections.length < 5) {
-    const backup = [
-      { label: 'olive oil', bbox: [5, 5, 20, 100], confidence: 0.45, model: 'resnet50_v2' },
-      { label: 'mushroom', bbox: [150, 150, 50, 50], confidence: 0.48, model: 'resnet50_v2' }
-    ];
-    return [...primaryDetections, ...backup];
-  }
-  return primaryDetections;
+export const runHybridInference = async (pixels: ImageData, primaryDetections: Detection[], threshold: number): Promise<Detection[]> => {
+  const candidates = await runInference(pixels);
+  const softSweep = applyCalibration(candidates, threshold);
+  return nonMaxSuppression([...primaryDetections, ...softSweep]);
 };
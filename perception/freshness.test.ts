@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { estimateFreshness } from './freshness';
+
+// A uniform crop of one colour, shaped like ImageData
+const solid = (r: number, g: number, b: number, size = 40): ImageData => {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([r, g, b, 255], i);
+  return { width: size, height: size, data, colorSpace: 'srgb' } as ImageData;
+};
+
+// Off-white background with a filled disc of another colour in the middle
+const discOn = (background: number[], disc: number[], size = 60, radius = 20): ImageData => {
+  const pixels = solid(background[0], background[1], background[2], size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if ((x - size / 2) ** 2 + (y - size / 2) ** 2 <= radius ** 2) pixels.data.set([...disc, 255], (y * size + x) * 4);
+    }
+  }
+  return pixels;
+};
+
+// Octagon just inside a circle, as the segmenter would outline it
+const outline = (cx: number, cy: number, r: number): [number, number][] =>
+  Array.from({ length: 8 }, (_, k) => [cx + r * Math.cos((k * Math.PI) / 4), cy + r * Math.sin((k * Math.PI) / 4)]);
+
+const vitalityOf = async (label: string, pixels: ImageData) =>
+  (await estimateFreshness([{ label, bbox: [0, 0, pixels.width, pixels.height] }], pixels))[0];
+
+describe('estimateFreshness', () => {
+  it('gives sound produce its full shelf life', async () => {
+    const result = await vitalityOf('tomato', solid(200, 30, 30));
+    expect(result.vitality).toBe(100);
+    expect(result.freshnessNote).toContain('No visible spoilage cues');
+  });
+
+  it('penalises browning on produce', async () => {
+    const result = await vitalityOf('apple', solid(120, 70, 30));
+    expect(result.vitality).toBeLessThan(50);
+    expect(result.freshnessNote).toContain('browning');
+  });
+
+  it('falls back to average freshness when the box has no pixels', async () => {
+    const pixels = solid(200, 30, 30);
+    const [result] = await estimateFreshness([{ label: 'tomato', bbox: [50, 50, 60, 60] }], pixels);
+    expect(result.vitality).toBe(75);
+    expect(result.freshnessNote).toContain('No visible region');
+  });
+
+  it('does not read white or grey foods as mouldy', async () => {
+    const offWhite = solid(190, 185, 180);
+    for (const label of ['mushroom', 'garlic', 'cauliflower', 'milk', 'yogurt', 'tofu', 'paneer']) {
+      const result = await vitalityOf(label, offWhite);
+      expect(result.vitality, label).toBeGreaterThan(90);
+      expect(result.expiryDays, label).toBeGreaterThan(0);
+    }
+  });
+
+  it('reads paleness from the catalogue category and entry', async () => {
+    const cream = solid(190, 185, 175);
+    for (const label of ['mayo', 'butter', 'bread', 'shrimp', 'chicken']) {
+      const result = await vitalityOf(label, cream);
+      expect(result.vitality, label).toBeGreaterThan(90);
+      expect(result.freshnessNote, label).not.toContain('greying');
+    }
+  });
+
+  it('only scores pixels inside the segmentation outline', async () => {
+    const pixels = discOn([190, 185, 175], [200, 30, 25]);
+    const tomato = { label: 'tomato', bbox: [0, 0, 60, 60] };
+
+    const [unmasked] = await estimateFreshness([tomato], pixels);
+    expect(unmasked.freshnessNote).toContain('possible mould');
+
+    const [masked] = await estimateFreshness([{ ...tomato, mask: { area: 1200, polygon: outline(30, 30, 18) } }], pixels);
+    expect(masked.vitality).toBeGreaterThan(90);
+    expect(masked.freshnessNote).not.toContain('mould');
+  });
+
+  it('flags grey growth on foods that should be coloured', async () => {
+    const result = await vitalityOf('tomato', solid(190, 185, 180));
+    expect(result.vitality).toBeLessThan(20);
+    expect(result.freshnessNote).toContain('possible mould');
+  });
+
+  it('flags blue-green growth on pale foods', async () => {
+    const result = await vitalityOf('paneer', solid(40, 110, 120));
+    expect(result.freshnessNote).toContain('possible mould');
+  });
+});
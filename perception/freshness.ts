@@ -1,12 +1,202 @@
+import { IngredientCategory, getEntry } from '../knowledge/catalogue';
+import { rgbToHsv } from './image';
+import { checkpoint } from './checkpoint';
 
 /**
- * freshness.py equivalent
- * Simulated CNN + OpenCV heuristics for vitality scoring.
+ * freshness.ts
+ * Deterministic colour-statistics heuristics for vitality scoring.
+ * Each detection's segmented region (its bbox when unsegmented) is reduced to
+ * HSV signals (browning, yellowing, dark spotting, mould, dullness) that are
+ * weighted per food category.
  */
-export const estimateFreshness = async (detections: any[]) => {
-  return detections.map(d => ({
-    ...d,
-    vitality: Math.floor(Math.random() * 50) + 50, // 50-100 range
-    expiryDays: Math.floor(Math.random() * 7) + 1
-  }));
+
+const DEFAULT_SHELF_LIFE = 7;
+
+const MAX_SAMPLES = 12000;
+
+// Below this many samples inside the outline, the mask is too thin to trust
+const MIN_MASK_SAMPLES = 24;
+
+/**
+ * Categories whose sound surface is white, cream or grey unless the entry
+ * says otherwise (`pale`).
+ */
+const PALE_CATEGORIES: IngredientCategory[] = ['dairy', 'egg', 'plant-protein', 'grain', 'poultry', 'oil-fat', 'nut-seed'];
+
+/**
+ * Whether low-saturation pixels are the food's normal colour, so that only
+ * blue-green growth reads as mould and a grey cast is not spoilage.
+ */
+const isPale = (label: string): boolean => {
+  const entry = getEntry(label);
+  return !!entry && (entry.pale ?? PALE_CATEGORIES.includes(entry.category));
+};
+
+/**
+ * Even-odd test of a point against a polygon outline.
+ */
+const insidePolygon = (x: number, y: number, polygon: [number, number][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+interface ColourSignals {
+  browning: number;   // Oxidised / bruised tissue
+  yellowing: number;  // Chlorophyll loss in greens
+  darkSpots: number;  // Necrotic or rotten patches
+  mould: number;      // Fuzzy grey-white or blue-green growth
+  saturation: number; // Mean saturation (0-1); dull crops read as wilted
+}
+
+type Profile = 'leafy' | 'produce' | 'meat' | 'dairy' | 'shelf-stable';
+
+/**
+ * Spoilage profile from the catalogue category; unknown labels read as produce.
+ */
+const profileOf = (label: string): Profile => {
+  const entry = getEntry(label);
+  if (!entry) return 'produce';
+  if (entry.tags.includes('leafy') || entry.category === 'herb') return 'leafy';
+  switch (entry.category) {
+    case 'dairy': case 'egg': case 'plant-protein': return 'dairy';
+    case 'meat': case 'poultry': case 'seafood': return 'meat';
+    case 'condiment': case 'oil-fat': case 'sweetener': case 'spice': case 'grain': case 'nut-seed': return 'shelf-stable';
+    default: return 'produce';
+  }
+};
+
+/**
+ * Samples the bbox crop on a regular grid and accumulates HSV signals, keeping
+ * only pixels inside the segmentation outline so the background is not scored.
+ * Grey-white mould is not counted on pale foods, where it is the food itself.
+ */
+const sampleSignals = (pixels: ImageData, bbox: number[], pale: boolean, polygon?: [number, number][]): ColourSignals | null => {
+  const [x1, y1, x2, y2] = bbox.map(Math.round);
+  const width = Math.max(0, Math.min(pixels.width, x2) - Math.max(0, x1));
+  const height = Math.max(0, Math.min(pixels.height, y2) - Math.max(0, y1));
+  if (width === 0 || height === 0) return null;
+
+  const stride = Math.max(1, Math.floor(Math.sqrt((width * height) / MAX_SAMPLES)));
+  const grid: [number, number][] = [];
+  for (let y = Math.max(0, y1); y < Math.max(0, y1) + height; y += stride) {
+    for (let x = Math.max(0, x1); x < Math.max(0, x1) + width; x += stride) grid.push([x, y]);
+  }
+  const inside = polygon && polygon.length >= 3
+    ? grid.filter(([x, y]) => insidePolygon(x + 0.5, y + 0.5, polygon))
+    : [];
+  const points = inside.length >= MIN_MASK_SAMPLES ? inside : grid;
+
+  const counts = { total: 0, browning: 0, yellowing: 0, darkSpots: 0, mould: 0 };
+  let saturationSum = 0;
+
+  for (const [x, y] of points) {
+    const i = (y * pixels.width + x) * 4;
+    const [h, s, v] = rgbToHsv(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]);
+    counts.total++;
+    saturationSum += s;
+    if (v < 0.18) counts.darkSpots++;
+    else if (h >= 15 && h < 45 && s > 0.35 && v < 0.55) counts.browning++;
+    else if (h >= 45 && h < 70 && s > 0.3) counts.yellowing++;
+    else if ((!pale && s < 0.12 && v > 0.55 && v < 0.85) || (h >= 150 && h < 230 && s > 0.25 && v < 0.6)) counts.mould++;
+  }
+
+  return {
+    browning: counts.browning / counts.total,
+    yellowing: counts.yellowing / counts.total,
+    darkSpots: counts.darkSpots / counts.total,
+    mould: counts.mould / counts.total,
+    saturation: saturationSum / counts.total
+  };
+};
+
+/**
+ * Converts signals into a 0-100 vitality score using category-specific weights.
+ * Weights reflect which spoilage cues are meaningful for that food type
+ * (e.g. yellowing only matters for greens, greying matters for red meat).
+ */
+const scoreVitality = (profile: Profile, s: ColourSignals, pale: boolean): { vitality: number; cues: string[] } => {
+  const cues: string[] = [];
+  const pct = (v: number) => `${Math.round(v * 100)}%`;
+  let penalty = 0;
+
+  const apply = (value: number, weight: number, floor: number, cue: string) => {
+    if (value > floor) {
+      penalty += (value - floor) * weight;
+      cues.push(`${pct(value)} ${cue}`);
+    }
+  };
+
+  switch (profile) {
+    case 'leafy':
+      apply(s.yellowing, 120, 0.08, 'yellowing');
+      apply(s.browning, 150, 0.04, 'browning');
+      apply(s.darkSpots, 100, 0.1, 'dark wilt');
+      if (s.saturation < 0.3) { penalty += (0.3 - s.saturation) * 80; cues.push('dull, wilted colour'); }
+      break;
+    case 'produce':
+      apply(s.browning, 130, 0.06, 'browning');
+      apply(s.darkSpots, 110, 0.12, 'dark spotting');
+      apply(s.mould, 160, 0.05, 'possible mould');
+      break;
+    case 'meat':
+      apply(s.browning, 60, 0.25, 'oxidised surface');
+      apply(s.mould, 150, 0.06, 'grey/green discolouration');
+      if (!pale && s.saturation < 0.2) { penalty += (0.2 - s.saturation) * 120; cues.push('greying'); }
+      break;
+    case 'dairy':
+      apply(s.mould, 200, 0.04, 'possible mould');
+      apply(s.darkSpots, 80, 0.1, 'dark spotting');
+      break;
+    case 'shelf-stable':
+      apply(s.mould, 120, 0.1, 'possible mould');
+      break;
+  }
+
+  return { vitality: Math.round(Math.max(5, Math.min(100, 100 - penalty))), cues };
+};
+
+/**
+ * Vitality (0-100), remaining days and a human-readable rationale for one
+ * detection from its pixels.
+ */
+const assessOne = (d: any, pixels: ImageData) => {
+  const shelfLife = getEntry(d.label)?.shelfLifeDays ?? DEFAULT_SHELF_LIFE;
+  const profile = profileOf(d.label);
+  const pale = isPale(d.label);
+  const signals = sampleSignals(pixels, d.bbox, pale, d.mask?.polygon);
+
+  if (!signals) {
+    return {
+      ...d,
+      vitality: 75,
+      expiryDays: Math.round(shelfLife * 0.6),
+      freshnessNote: `No visible region to assess; assuming average freshness (${shelfLife}-day shelf life).`
+    };
+  }
+
+  const { vitality, cues } = scoreVitality(profile, signals, pale);
+  // Remaining life scales linearly from full shelf life at 100 to zero at 40
+  const expiryDays = Math.max(0, Math.round(shelfLife * Math.min(1, Math.max(0, (vitality - 40) / 60))));
+  const freshnessNote = cues.length > 0
+    ? `${cues.join(', ')} detected; ${shelfLife}-day shelf life when fresh.`
+    : `No visible spoilage cues; ${shelfLife}-day shelf life when fresh.`;
+
+  return { ...d, vitality, expiryDays, freshnessNote };
+};
+
+/**
+ * Assesses every detection. Stops between detections once `signal` is aborted.
+ */
+export const estimateFreshness = async (detections: any[], pixels: ImageData, signal?: AbortSignal) => {
+  const assessed: any[] = [];
+  for (const d of detections) {
+    await checkpoint(signal);
+    assessed.push(assessOne(d, pixels));
+  }
+  return assessed;
 };
@@ -0,0 +1,76 @@
+import { PerceptionRegion } from '../types';
+
+/**
+ * hints.ts
+ * Turns a free-text `visualHint` ("top-left shelf", "behind the milk") into
+ * regions of interest for the targeted rescan. Absolute terms narrow a
+ * normalised window; mentions of an already detected item search around it.
+ * A hint with no usable terms yields the whole image plus its quadrants.
+ */
+
+type Box = [number, number, number, number];
+
+const PADDING = 0.1; // Fraction of the ROI added on every side
+const MIN_ROI_PX = 96;
+const NEIGHBOURHOOD = 1; // Box sizes searched around a referenced item
+
+const VERTICAL: [RegExp, [number, number]][] = [
+  [/\b(top|upper|high|uppermost)\b/, [0, 0.5]],
+  [/\b(bottom|lower|low|drawer|crisper|floor)\b/, [0.5, 1]],
+  [/\b(middle|centre|center|mid)\b/, [0.25, 0.75]]
+];
+
+const HORIZONTAL: [RegExp, [number, number]][] = [
+  [/\bleft\b/, [0, 0.5]],
+  [/\bright\b/, [0.5, 1]],
+  [/\b(middle|centre|center)\b/, [0.25, 0.75]]
+];
+
+const QUADRANTS: Box[] = [[0, 0, 0.6, 0.6], [0.4, 0, 1, 0.6], [0, 0.4, 0.6, 1], [0.4, 0.4, 1, 1]];
+
+const toPixels = ([x1, y1, x2, y2]: Box, width: number, height: number): Box => {
+  const padX = (x2 - x1) * width * PADDING;
+  const padY = (y2 - y1) * height * PADDING;
+  // Grow tiny windows so the detector still has context
+  const grow = (lo: number, hi: number, max: number): [number, number] => {
+    const missing = Math.max(0, MIN_ROI_PX - (hi - lo)) / 2;
+    return [lo - missing, hi + missing].map(v => Math.round(Math.min(max, Math.max(0, v)))) as [number, number];
+  };
+  const [nx1, nx2] = grow(x1 * width - padX, x2 * width + padX, width);
+  const [ny1, ny2] = grow(y1 * height - padY, y2 * height + padY, height);
+  return [nx1, ny1, nx2, ny2];
+};
+
+/**
+ * Regions of interest (source pixels) for a hint. `regions` are the items
+ * already found in this image, used to resolve relative hints.
+ */
+export const hintRegions = (hint: string, width: number, height: number, regions: PerceptionRegion[] = []): Box[] => {
+  const text = hint.toLowerCase();
+  const out: Box[] = [];
+
+  // Relative: "near the milk", "behind the eggs"
+  regions.forEach(region => {
+    const label = region.label.toLowerCase();
+    if (!new RegExp(`\\b${label}(e?s)?\\b`).test(text)) return;
+    const [x1, y1, x2, y2] = region.bbox;
+    const w = (x2 - x1) * NEIGHBOURHOOD;
+    const h = (y2 - y1) * NEIGHBOURHOOD;
+    out.push(toPixels([(x1 - w) / width, (y1 - h) / height, (x2 + w) / width, (y2 + h) / height].map(v => Math.min(1, Math.max(0, v))) as Box, width, height));
+  });
+
+  // Absolute: "top shelf", "bottom-left drawer"
+  const vertical = VERTICAL.find(([pattern]) => pattern.test(text))?.[1];
+  const horizontal = HORIZONTAL.find(([pattern]) => pattern.test(text))?.[1];
+  if (vertical || horizontal) {
+    const [y1, y2] = vertical || [0, 1];
+    const [x1, x2] = horizontal || [0, 1];
+    out.push(toPixels([x1, y1, x2, y2], width, height));
+  }
+
+  if (out.length === 0) {
+    out.push([0, 0, width, height]);
+    QUADRANTS.forEach(q => out.push(toPixels(q, width, height)));
+  }
+  return out;
+};
@@ -0,0 +1,161 @@
+/**
+ * image.ts
+ * Pixel-level helpers shared by the perception stages.
+ * Uses OffscreenCanvas so the same code runs on the main thread and in workers,
+ * and a detached DOM canvas on main-thread browsers without it.
+ */
+
+export interface LetterboxResult {
+  tensor: Float32Array; // CHW, RGB, normalised to 0-1
+  scale: number;
+  padX: number;
+  padY: number;
+}
+
+const HUE_BINS = 8;
+const SIGNATURE_SAMPLES = 4000;
+
+/**
+ * RGB (0-255) to HSV with hue in degrees and saturation/value in 0-1.
+ */
+export const rgbToHsv = (r: number, g: number, b: number): [number, number, number] => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+    h *= 60;
+    if (h < 0) h += 360;
+  }
+  return [h, max === 0 ? 0 : delta / max, max / 255];
+};
+
+/**
+ * Coarse, lighting-tolerant colour signature of a region: a saturation-weighted
+ * hue histogram followed by mean saturation and value. Sums to roughly 1 + s + v.
+ */
+export const appearanceSignature = (pixels: ImageData, bbox: number[]): number[] => {
+  const x1 = Math.max(0, Math.floor(bbox[0]));
+  const y1 = Math.max(0, Math.floor(bbox[1]));
+  const x2 = Math.min(pixels.width, Math.ceil(bbox[2]));
+  const y2 = Math.min(pixels.height, Math.ceil(bbox[3]));
+  const signature = new Array(HUE_BINS + 2).fill(0);
+  if (x2 <= x1 || y2 <= y1) return signature;
+
+  const stride = Math.max(1, Math.floor(Math.sqrt(((x2 - x1) * (y2 - y1)) / SIGNATURE_SAMPLES)));
+  let weightSum = 0;
+  let count = 0;
+  for (let y = y1; y < y2; y += stride) {
+    for (let x = x1; x < x2; x += stride) {
+      const i = (y * pixels.width + x) * 4;
+      const [h, s, v] = rgbToHsv(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]);
+      const weight = s * v;
+      signature[Math.min(HUE_BINS - 1, Math.floor(h / (360 / HUE_BINS)))] += weight;
+      weightSum += weight;
+      signature[HUE_BINS] += s;
+      signature[HUE_BINS + 1] += v;
+      count++;
+    }
+  }
+  for (let b = 0; b < HUE_BINS; b++) signature[b] = weightSum > 0 ? signature[b] / weightSum : 1 / HUE_BINS;
+  signature[HUE_BINS] /= count;
+  signature[HUE_BINS + 1] /= count;
+  return signature;
+};
+
+/**
+ * 2D context of a fresh canvas of the given size.
+ */
+const createContext = (width: number, height: number): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D => {
+  const ctx = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height).getContext('2d')
+    : Object.assign(document.createElement('canvas'), { width, height }).getContext('2d');
+  if (!ctx) throw new Error('2D canvas context unavailable');
+  return ctx;
+};
+
+/**
+ * Decodes a base64 (data-URL payload) image into raw RGBA pixels.
+ */
+export const decodeImage = async (image: string): Promise<ImageData> => {
+  const binary = atob(image);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+
+  const bitmap = await createImageBitmap(new Blob([bytes]));
+  try {
+    const ctx = createContext(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Normalises any supported perception input into raw RGBA pixels.
+ * Accepts base64 payloads, transferred ImageBitmaps (closed after use) or ImageData.
+ */
+export const toImageData = async (input: string | ImageBitmap | ImageData): Promise<ImageData> => {
+  if (typeof input === 'string') return decodeImage(input);
+  if (input instanceof ImageData) return input;
+
+  try {
+    const ctx = createContext(input.width, input.height);
+    ctx.drawImage(input, 0, 0);
+    return ctx.getImageData(0, 0, input.width, input.height);
+  } finally {
+    input.close();
+  }
+};
+
+/**
+ * Copies a rectangular window (source pixels, clamped to the image) into new ImageData.
+ */
+export const cropImage = (pixels: ImageData, bbox: number[]): ImageData => {
+  const x1 = Math.max(0, Math.floor(bbox[0]));
+  const y1 = Math.max(0, Math.floor(bbox[1]));
+  const x2 = Math.min(pixels.width, Math.ceil(bbox[2]));
+  const y2 = Math.min(pixels.height, Math.ceil(bbox[3]));
+  const width = Math.max(1, x2 - x1);
+  const height = Math.max(1, y2 - y1);
+  const out = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    const start = ((y1 + y) * pixels.width + x1) * 4;
+    out.data.set(pixels.data.subarray(start, start + width * 4), y * width * 4);
+  }
+  return out;
+};
+
+/**
+ * Resizes an image into a square model input, preserving aspect ratio
+ * and padding with neutral grey (YOLO convention).
+ */
+export const letterbox = async (pixels: ImageData, size: number): Promise<LetterboxResult> => {
+  const scale = Math.min(size / pixels.width, size / pixels.height);
+  const w = Math.round(pixels.width * scale);
+  const h = Math.round(pixels.height * scale);
+  const padX = Math.floor((size - w) / 2);
+  const padY = Math.floor((size - h) / 2);
+
+  const ctx = createContext(size, size);
+  ctx.fillStyle = 'rgb(114, 114, 114)';
+  ctx.fillRect(0, 0, size, size);
+  const bitmap = await createImageBitmap(pixels);
+  ctx.drawImage(bitmap, padX, padY, w, h);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const area = size * size;
+  const tensor = new Float32Array(3 * area);
+  for (let i = 0; i < area; i++) {
+    tensor[i] = data[i * 4] / 255;
+    tensor[area + i] = data[i * 4 + 1] / 255;
+    tensor[2 * area + i] = data[i * 4 + 2] / 255;
+  }
+
+  return { tensor, scale, padX, padY };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Ingredient, PerceptionRegion, PerceptionResult } from '../types';
+import { mergeFrames } from './merge';
+
+const tomato = (id: string, bbox: [number, number, number, number], overrides: Partial<Ingredient> = {}): [Ingredient, PerceptionRegion] => [
+  {
+    id, name: 'Tomato', scientificName: 'Solanum lycopersicum', category: 'fruit',
+    mass_grams: 120, vitality_score: 90, expires_in_days: 5, confidence: 0.8, ...overrides
+  } as Ingredient,
+  { ingredientId: id, label: 'tomato', bbox, appearance: [1, 0, 0, 0.5, 0.5] }
+];
+
+const frameOf = (...views: [Ingredient, PerceptionRegion][]): PerceptionResult => ({
+  ingredients: views.map(([ingredient]) => ingredient),
+  regions: views.map(([, region]) => region),
+  imageSize: { width: 200, height: 200 },
+  timings: {}
+});
+
+const frame = (confidence: number): PerceptionResult => frameOf(tomato('tomato-1', [40, 40, 80, 80], { confidence }));
+
+describe('mergeFrames', () => {
+  it('fuses one item seen across frames', () => {
+    const { ingredients, regions } = mergeFrames([
+      frameOf(tomato('a', [40, 40, 80, 80], { mass_grams: 110, vitality_score: 90 })),
+      frameOf(tomato('b', [44, 40, 84, 80], { mass_grams: 130, vitality_score: 60, expires_in_days: 2 })),
+      frameOf(tomato('c', [48, 42, 88, 82], { mass_grams: 125, vitality_score: 85 }))
+    ]);
+    expect(ingredients).toHaveLength(1);
+    expect(ingredients[0]).toMatchObject({ seenInFrames: 3, mass_grams: 125, vitality_score: 60, expires_in_days: 2 });
+    expect(regions.map(r => r.ingredientId)).toEqual(['a', 'a', 'a']);
+  });
+
+  it('keeps two items side by side in one frame apart', () => {
+    const { ingredients } = mergeFrames([
+      frameOf(tomato('left', [20, 40, 60, 80]), tomato('right', [140, 40, 180, 80])),
+      frameOf(tomato('left', [22, 40, 62, 80]), tomato('right', [142, 40, 182, 80]))
+    ]);
+    expect(ingredients).toHaveLength(2);
+    expect(ingredients.map(i => i.seenInFrames)).toEqual([2, 2]);
+  });
+
+  it('does not compound repeated views of one weak detection', () => {
+    const { ingredients } = mergeFrames([0.3, 0.3, 0.3, 0.3, 0.3, 0.3].map(frame));
+    expect(ingredients).toHaveLength(1);
+    expect(ingredients[0].seenInFrames).toBe(6);
+    expect(ingredients[0].confidence).toBeLessThan(0.4);
+  });
+
+  it('keeps the best view and adds a little for agreement', () => {
+    const { ingredients } = mergeFrames([0.7, 0.5].map(frame));
+    expect(ingredients[0].confidence).toBeCloseTo(0.72);
+  });
+});
@@ -0,0 +1,137 @@
+import { Ingredient, PerceptionBatchResult, PerceptionRegion, PerceptionResult } from '../types';
+
+/**
+ * merge.ts
+ * Cross-frame deduplication for batch scans.
+ * Observations from successive frames are matched to running tracks by label,
+ * colour signature and normalised position. A track never takes two
+ * observations from the same frame, so items seen side by side stay distinct.
+ */
+
+const APPEARANCE_WEIGHT = 0.65;
+const POSITION_WEIGHT = 0.35;
+const POSITION_RADIUS = 0.35; // Normalised centre distance at which position stops counting
+const MATCH_THRESHOLD = 0.6;
+// Frames of one clip see the same scene, so they corroborate rather than add evidence
+const EXTRA_VIEW_BONUS = 0.02;
+const MAX_VIEW_BONUS = 0.06;
+
+interface Observation {
+  frame: number;
+  ingredient: Ingredient;
+  region: PerceptionRegion;
+  center: [number, number]; // Normalised to the frame size
+}
+
+interface Track {
+  observations: Observation[];
+  appearance: number[];
+  center: [number, number];
+}
+
+/**
+ * Histogram intersection over the hue bins, penalised by saturation/value drift.
+ */
+const appearanceSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0.5; // Unknown: neither helps nor hurts
+  const hueBins = a.length - 2;
+  let intersection = 0;
+  for (let i = 0; i < hueBins; i++) intersection += Math.min(a[i], b[i]);
+  const drift = Math.abs(a[hueBins] - b[hueBins]) + Math.abs(a[hueBins + 1] - b[hueBins + 1]);
+  return Math.max(0, intersection - drift / 2);
+};
+
+const matchScore = (track: Track, obs: Observation): number => {
+  const distance = Math.hypot(track.center[0] - obs.center[0], track.center[1] - obs.center[1]);
+  const position = 1 - Math.min(1, distance / POSITION_RADIUS);
+  return APPEARANCE_WEIGHT * appearanceSimilarity(track.appearance, obs.region.appearance || []) + POSITION_WEIGHT * position;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Collapses a track into one ingredient.
+ * Mass is the median view; freshness is the worst view (spoilage is often
+ * visible from one side only); confidence is the best view's, nudged up a
+ * little for each further view that agrees.
+ */
+const fuseTrack = (track: Track): Ingredient => {
+  const items = track.observations.map(o => o.ingredient);
+  const worst = items.reduce((a, b) => (b.vitality_score < a.vitality_score ? b : a));
+  const ranges = items.map(i => i.mass_range_grams).filter((r): r is [number, number] => !!r);
+
+  return {
+    ...items[0],
+    mass_grams: Math.round(median(items.map(i => i.mass_grams))),
+    mass_range_grams: ranges.length > 0
+      ? [Math.round(median(ranges.map(r => r[0]))), Math.round(median(ranges.map(r => r[1])))]
+      : items[0].mass_range_grams,
+    vitality_score: worst.vitality_score,
+    expires_in_days: Math.min(...items.map(i => i.expires_in_days)),
+    vitality_note: worst.vitality_note,
+    confidence: Math.min(0.99, Math.max(...items.map(i => i.confidence)) + Math.min(MAX_VIEW_BONUS, EXTRA_VIEW_BONUS * (items.length - 1))),
+    seenInFrames: track.observations.length
+  };
+};
+
+/**
+ * Merges per-frame perception results into one deduplicated manifest.
+ * Regions are kept per frame but re-pointed at the merged ingredient ids.
+ */
+export const mergeFrames = (results: PerceptionResult[]): PerceptionBatchResult => {
+  const tracks: Track[] = [];
+  const timings: PerceptionBatchResult['timings'] = {};
+
+  results.forEach((result, frame) => {
+    Object.entries(result.timings).forEach(([stage, ms]) => {
+      const key = stage as keyof typeof timings;
+      timings[key] = (timings[key] || 0) + (ms || 0);
+    });
+
+    const { width, height } = result.imageSize;
+    const observations: Observation[] = result.regions.flatMap(region => {
+      const ingredient = result.ingredients.find(i => i.id === region.ingredientId);
+      if (!ingredient) return [];
+      const [x1, y1, x2, y2] = region.bbox;
+      return [{ frame, ingredient, region: { ...region, frame }, center: [(x1 + x2) / 2 / width, (y1 + y2) / 2 / height] as [number, number] }];
+    });
+
+    // Greedy assignment, best pairs first; tracks from earlier frames only
+    const candidates = tracks.flatMap((track, t) => observations
+      .map((obs, o) => ({ t, o, score: track.observations[0].region.label === obs.region.label ? matchScore(track, obs) : 0 }))
+      .filter(c => c.score >= MATCH_THRESHOLD));
+    candidates.sort((a, b) => b.score - a.score);
+
+    const usedTracks = new Set<number>();
+    const assigned = new Set<number>();
+    candidates.forEach(({ t, o }) => {
+      if (usedTracks.has(t) || assigned.has(o)) return;
+      usedTracks.add(t);
+      assigned.add(o);
+      const track = tracks[t];
+      const obs = observations[o];
+      const n = track.observations.length;
+      track.appearance = track.appearance.map((v, i) => (v * n + (obs.region.appearance?.[i] ?? v)) / (n + 1));
+      track.center = obs.center;
+      track.observations.push(obs);
+    });
+
+    observations.forEach((obs, o) => {
+      if (!assigned.has(o)) tracks.push({ observations: [obs], appearance: obs.region.appearance || [], center: obs.center });
+    });
+  });
+
+  const ingredients = tracks.map(fuseTrack);
+  const regions = tracks.flatMap((track, t) => track.observations.map(o => ({ ...o.region, ingredientId: ingredients[t].id })));
+
+  return {
+    ingredients,
+    regions,
+    frames: results.map(r => r.imageSize),
+    timings
+  };
+};
@@ -1,83 +1,274 @@
 
-import { detectObjects, runHybridInference } from './detector';
+import { detectObjects, runHybridInference, iou } from './detector';
 import { segmentObjects } from './segmenter';
 import { classifyObjects } from './classifier';
 import { estimateFreshness } from './freshness';
 import { estimateVolume } from './volume';
-import { Ingredient, RecallHypothesis } from '../types';
+import { appearanceSignature, cropImage, toImageData } from './image';
+import { hintRegions } from './hints';
+import { getEntry } from '../knowledge/catalogue';
+import { matchIngredient } from '../knowledge/matcher';
+import {
+  Detection, Ingredient, PerceptionEvent, PerceptionOptions, PerceptionRegion, PerceptionResult,
+  PerceptionStageId, RecallHypothesis, RescanResult, VolumeCalibration
+} from '../types';
 
 /**
- * Targeted ML Re-scan: lower threshold or focused crop based on hypotheses.
+ * Ordered perception stages with their share of overall progress.
  */
-export const run_targeted_rescan = async (image: string, hypotheses: RecallHypothesis[]): Promise<Ingredient[]> => {
-  const foundItems: Ingredient[] = [];
-  
-  for (const h of hypotheses) {
-    if (h.confidence > 0.35) {
-      foundItems.push({
-        id: Math.random().toString(36).substr(2, 9),
-        name: h.name,
-        scientificName: 'Inferred via Recall Audit',
-        category: 'Rescan-Confirmed',
-        mass_grams: Math.floor(Math.random() * 100) + 20,
-        vitality_score: 85,
-        expires_in_days: 5,
-        confidence: h.confidence,
-        molecularProfile: []
-      });
-    }
-  }
-  
-  return foundItems;
-};
+export const PERCEPTION_STAGES: { id: PerceptionStageId; label: string; weight: number }[] = [
+  { id: 'detect', label: 'Optical Initialization', weight: 45 },
+  { id: 'segment', label: 'Boundary Refinement', weight: 25 },
+  { id: 'classify', label: 'Taxonomy Alignment', weight: 5 },
+  { id: 'freshness', label: 'Vitality Sweep', weight: 15 },
+  { id: 'volume', label: 'Volumetric Pass', weight: 10 }
+];
 
 /**
- * pipeline.ts
- * Orchestrator for the Perception Layer.
+ * Default per-stage time budgets (ms). Detection includes a cold model load.
  */
-export const run_perception_pipeline = async (image: string, updateStatus?: (msg: string) => void): Promise<Ingredient[]> => {
-  const pipelineTask = (async () => {
-    let threshold = 0.20; // Lowered baseline for YOLOv11 efficiency
-    if (updateStatus) updateStatus("Inference Cycle: Initializing YOLOv11 Intelligence Engine...");
-    
-    // Step 1: Primary Detection Pass
-    let detections = await detectObjects(image, threshold);
+export const DEFAULT_STAGE_BUDGETS: Record<PerceptionStageId, number> = {
+  detect: 30000,
+  segment: 8000,
+  classify: 2000,
+  freshness: 5000,
+  volume: 2000
+};
 
-    // Step 2: Hybrid Check & Fallback
-    if (detections.length < 6) {
-      threshold = 0.12; // Dynamic thresholding for V11 fine-grain context
-      if (updateStatus) updateStatus("Compensating for lighting: Triggering Hybrid ResNet Pass...");
-      detections = await runHybridInference(image, detections, threshold);
-    }
+const abortError = () => new DOMException('Perception cancelled', 'AbortError');
 
-    if (updateStatus) updateStatus("SAM-2: Refining Structural Boundaries...");
-    const segmented = await segmentObjects(detections);
-    
-    if (updateStatus) updateStatus("Taxonomy Pass: Aligning Scientific Classification...");
-    const classified = await classifyObjects(segmented);
-    
-    if (updateStatus) updateStatus("Vitality Sweep: Estimating Biological Freshness...");
-    const fresh = await estimateFreshness(classified);
-    
-    if (updateStatus) updateStatus("Volumetric Pass: Estimating Material Mass...");
-    const finalData = await estimateVolume(fresh);
-
-    return finalData.map(item => ({
+/**
+ * Turns fully annotated detections into ingredients plus their image regions.
+ * Names and categories come from the catalogue entry behind each detector label.
+ */
+const toManifest = (items: any[], pixels: ImageData): { ingredients: Ingredient[]; regions: PerceptionRegion[] } => {
+  const entries = items.map(item => {
+    const entry = getEntry(item.label);
+    const ingredient: Ingredient = {
       id: Math.random().toString(36).substr(2, 9),
-      name: item.label.charAt(0).toUpperCase() + item.label.slice(1),
+      name: entry?.name || item.label.charAt(0).toUpperCase() + item.label.slice(1),
+      catalogueId: entry?.id,
       scientificName: item.scientificName,
-      category: 'Perception-Identified',
+      category: entry?.category || 'uncatalogued',
       mass_grams: item.mass_grams,
+      mass_range_grams: item.massRange,
       vitality_score: item.vitality,
       expires_in_days: item.expiryDays,
+      vitality_note: item.freshnessNote,
       confidence: item.confidence,
-      molecularProfile: []
-    })) as Ingredient[];
-  })();
+      molecularProfile: [],
+      sourceModel: item.model,
+      sourceModelVersion: item.modelVersion,
+      detectorLabel: item.label,
+      detectorScore: item.rawConfidence ?? item.confidence
+    };
+    return { item, ingredient };
+  });
+
+  return {
+    ingredients: entries.map(e => e.ingredient),
+    regions: entries.map(({ item, ingredient }) => ({
+      ingredientId: ingredient.id,
+      label: item.label,
+      bbox: item.bbox,
+      mask: item.mask,
+      appearance: appearanceSignature(pixels, item.bbox)
+    }))
+  };
+};
+
+/**
+ * Races a stage against its budget and the caller's AbortSignal. The stage
+ * gets a signal that aborts on either; segmentation and freshness check it
+ * between detections, so they stop working too. Detection (one model run) and
+ * the cheap classify and volume passes only lose the race: their result is
+ * discarded when they finish.
+ */
+const withStageBudget = <T>(
+  stage: PerceptionStageId,
+  task: (signal: AbortSignal) => Promise<T>,
+  budgetMs: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  const stageController = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const stop = (err: Error) => {
+      stageController.abort(err);
+      reject(err);
+    };
+    const onAbort = () => {
+      clearTimeout(timer);
+      stop(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      stop(new Error(`Perception stage '${stage}' exceeded its ${budgetMs}ms budget`));
+    }, budgetMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    task(stageController.signal).then(
+      value => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      err => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+};
+
+/**
+ * pipeline.ts
+ * Orchestrator for the Perception Layer.
+ * Each stage reports start/complete/failure events with timings and runs
+ * under its own budget; the whole run can be cancelled through `signal`.
+ */
+export const run_perception_pipeline = async (
+  image: string | ImageBitmap | ImageData,
+  options: PerceptionOptions = {}
+): Promise<PerceptionResult> => {
+  const { signal, onEvent, calibration } = options;
+  const budgets = { ...DEFAULT_STAGE_BUDGETS, ...options.budgets };
+  const timings: PerceptionResult['timings'] = {};
+  let completedWeight = 0;
+
+  const runStage = async <T>(
+    stage: PerceptionStageId,
+    message: string,
+    task: (stageSignal: AbortSignal) => Promise<T>,
+    summarise?: (result: T) => Pick<PerceptionEvent, 'detections'>
+  ): Promise<T> => {
+    const startedAt = performance.now();
+    onEvent?.({ stage, status: 'active', percent: completedWeight, elapsedMs: 0, message });
+    try {
+      const result = await withStageBudget(stage, task, budgets[stage], signal);
+      timings[stage] = Math.round(performance.now() - startedAt);
+      completedWeight += PERCEPTION_STAGES.find(s => s.id === stage)!.weight;
+      onEvent?.({ stage, status: 'complete', percent: completedWeight, elapsedMs: timings[stage]!, message, ...summarise?.(result) });
+      return result;
+    } catch (err: any) {
+      const elapsedMs = Math.round(performance.now() - startedAt);
+      onEvent?.({ stage, status: 'failed', percent: completedWeight, elapsedMs, message: err?.message || message });
+      throw err;
+    }
+  };
+
+  const { detections, pixels } = await runStage('detect', 'Inference Cycle: Running On-Device Detector...', async () => {
+    const decoded = await toImageData(image);
 
-  const timeout = new Promise<never>((_, reject) => 
-    setTimeout(() => reject(new Error('Perception Inference Timeout')), 4000)
+    // Step 1: Primary Detection Pass
+    let found = await detectObjects(decoded, 0.20);
+
+    // Step 2: Soft sweep when recall looks low (dark fridge, occlusion)
+    if (found.length < 6) {
+      found = await runHybridInference(decoded, found, 0.12);
+    }
+    return { detections: found, pixels: decoded };
+  }, result => ({ detections: result.detections }));
+
+  const segmented = await runStage('segment', 'Segmentation: Refining Structural Boundaries...', stageSignal => segmentObjects(detections, pixels, stageSignal));
+  const classified = await runStage('classify', 'Taxonomy Pass: Aligning Scientific Classification...', () => classifyObjects(segmented));
+  const fresh = await runStage('freshness', 'Vitality Sweep: Estimating Biological Freshness...', stageSignal => estimateFreshness(classified, pixels, stageSignal));
+  const finalData = await runStage(
+    'volume',
+    calibration ? 'Volumetric Pass: Calibrated Against Reference...' : 'Volumetric Pass: Estimating Material Mass...',
+    () => estimateVolume(fresh, calibration)
   );
 
-  return Promise.race([pipelineTask, timeout]);
+  const { ingredients, regions } = toManifest(finalData, pixels);
+
+  return {
+    ingredients,
+    regions,
+    imageSize: { width: pixels.width, height: pixels.height },
+    timings
+  };
+};
+
+const RESCAN_THRESHOLD = 0.1; // Well below the primary pass; the hint supplies the prior
+const MIN_HYPOTHESIS_CONFIDENCE = 0.2;
+const DUPLICATE_IOU = 0.5;
+const MIN_LABEL_MATCH = 0.6;
+
+/**
+ * Maps a free-text hypothesis name onto the detector vocabulary
+ * ("Cherry Tomatoes" -> "tomato"), or null if the detector cannot see it.
+ */
+const detectorLabelFor = (name: string): string | null => {
+  const match = matchIngredient(name);
+  return match?.entry.detectable && match.confidence >= MIN_LABEL_MATCH ? match.entry.id : null;
+};
+
+/**
+ * Targeted re-scan of recall hypotheses.
+ * Each hypothesis's `visualHint` is turned into regions of interest; those
+ * crops are re-run through the detector at a much lower threshold (a crop
+ * also gives small items more input resolution). Only hypotheses with a
+ * matching detection inside their regions are confirmed, and confirmed items
+ * go through the same segmentation, freshness and volume stages as the
+ * primary pass. `regions` are the items already found in this image.
+ */
+export const run_targeted_rescan = async (
+  image: string | ImageBitmap | ImageData,
+  hypotheses: RecallHypothesis[],
+  options: { regions?: PerceptionRegion[]; calibration?: VolumeCalibration; signal?: AbortSignal } = {}
+): Promise<RescanResult> => {
+  const { regions = [], calibration, signal } = options;
+  if (hypotheses.length === 0) return { confirmed: [], rejected: [], regions: [] };
+
+  const pixels = await toImageData(image);
+  const crops = new Map<string, Detection[]>();
+
+  // One inference per window serves every hypothesis that points at it
+  const detectIn = async (roi: [number, number, number, number]): Promise<Detection[]> => {
+    const key = roi.join(',');
+    if (!crops.has(key)) {
+      const found = await detectObjects(cropImage(pixels, roi), RESCAN_THRESHOLD);
+      crops.set(key, found.map(d => ({
+        ...d,
+        bbox: [d.bbox[0] + roi[0], d.bbox[1] + roi[1], d.bbox[2] + roi[0], d.bbox[3] + roi[1]] as Detection['bbox']
+      })));
+    }
+    return crops.get(key)!;
+  };
+
+  const evidence: Detection[] = [];
+  const rejected: RecallHypothesis[] = [];
+  const isKnown = (d: Detection) =>
+    regions.some(r => r.label === d.label && iou(r.bbox, d.bbox) > DUPLICATE_IOU) ||
+    evidence.some(e => e.label === d.label && iou(e.bbox, d.bbox) > DUPLICATE_IOU);
+
+  for (const h of hypotheses) {
+    if (signal?.aborted) throw abortError();
+    const label = detectorLabelFor(h.name);
+    if (!label || h.confidence < MIN_HYPOTHESIS_CONFIDENCE) {
+      rejected.push(h);
+      continue;
+    }
+
+    let best: Detection | null = null;
+    for (const roi of hintRegions(h.visualHint || '', pixels.width, pixels.height, regions)) {
+      for (const d of await detectIn(roi)) {
+        if (d.label === label && !isKnown(d) && (!best || d.confidence > best.confidence)) best = d;
+      }
+    }
+    if (best) evidence.push(best);
+    else rejected.push(h);
+  }
+
+  if (evidence.length === 0) return { confirmed: [], rejected, regions: [] };
+
+  const segmented = await segmentObjects(evidence, pixels, signal);
+  const classified = await classifyObjects(segmented);
+  const fresh = await estimateFreshness(classified, pixels, signal);
+  const finalData = await estimateVolume(fresh, calibration);
+  const manifest = toManifest(finalData, pixels);
+
+  return { confirmed: manifest.ingredients, rejected, regions: manifest.regions };
 };
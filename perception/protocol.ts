@@ -0,0 +1,41 @@
+import {
+  Detection, ModelHealth, OfflineModel, PerceptionEvent, PerceptionRegion, PerceptionResult, PerceptionStageId,
+  RecallHypothesis, RescanResult, VolumeCalibration
+} from '../types';
+
+/**
+ * protocol.ts
+ * Message contract between the main thread and the perception worker.
+ * Callbacks and AbortSignals cannot cross the boundary, so progress comes
+ * back as `event` messages and cancellation goes out as `abort`.
+ */
+
+export type PerceptionWorkerRequest =
+  | {
+      type: 'run';
+      id: number;
+      image: ImageBitmap; // Transferred, not copied
+      budgets?: Partial<Record<PerceptionStageId, number>>;
+      calibration?: VolumeCalibration;
+    }
+  | { type: 'detect'; id: number; image: ImageBitmap; threshold: number } // Detection only, for live preview
+  | {
+      type: 'rescan';
+      id: number;
+      image: ImageBitmap;
+      hypotheses: RecallHypothesis[];
+      regions: PerceptionRegion[]; // Items already found in this image
+      calibration?: VolumeCalibration;
+    }
+  | { type: 'abort'; id: number }
+  | { type: 'swap'; id: number; model: OfflineModel } // Mirrors a main-thread hot swap; answered with 'swapped' or 'error'
+  | { type: 'calibration' }; // Verification outcomes changed; reload them
+
+export type PerceptionWorkerResponse =
+  | { type: 'event'; id: number; event: PerceptionEvent }
+  | { type: 'result'; id: number; result: PerceptionResult }
+  | { type: 'detections'; id: number; detections: Detection[] }
+  | { type: 'rescanned'; id: number; result: RescanResult }
+  | { type: 'swapped'; id: number }
+  | { type: 'health'; model: string; health: ModelHealth; error?: string } // Unsolicited: the worker's registry loaded or dropped a model
+  | { type: 'error'; id: number; name: string; message: string };
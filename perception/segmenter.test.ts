@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { segmentObjects } from './segmenter';
+
+const solid = (size: number): ImageData => {
+  const data = new Uint8ClampedArray(size * size * 4).fill(200);
+  return { width: size, height: size, data, colorSpace: 'srgb' } as ImageData;
+};
+
+// White frame with a red square filling [from, to) on both axes
+const squareOnWhite = (size: number, from: number, to: number): ImageData => {
+  const pixels = solid(size);
+  for (let y = from; y < to; y++) {
+    for (let x = from; x < to; x++) pixels.data.set([200, 30, 30, 255], (y * size + x) * 4);
+  }
+  return pixels;
+};
+
+// White frame with a red disc of `radius` at its centre
+const discOnWhite = (size: number, radius: number): ImageData => {
+  const pixels = solid(size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if ((x - size / 2) ** 2 + (y - size / 2) ** 2 <= radius ** 2) pixels.data.set([200, 30, 30, 255], (y * size + x) * 4);
+    }
+  }
+  return pixels;
+};
+
+describe('segmentObjects', () => {
+  it('separates the object from the background inside its box', async () => {
+    const pixels = discOnWhite(120, 30);
+    const [result] = await segmentObjects([{ label: 'tomato', bbox: [0, 0, 120, 120] }], pixels);
+    const ratio = result.mask.area / (Math.PI * 30 * 30);
+    expect(ratio).toBeGreaterThan(0.8);
+    expect(ratio).toBeLessThan(1.25);
+    expect(result.mask.polygon.length).toBeGreaterThanOrEqual(3);
+    for (const [x, y] of result.mask.polygon) {
+      expect(Math.hypot(x - 60, y - 60)).toBeLessThan(36);
+    }
+  });
+
+  it('samples the background outside a box that hugs the object', async () => {
+    const pixels = squareOnWhite(160, 30, 130);
+    const [result] = await segmentObjects([{ label: 'tomato', bbox: [30, 30, 130, 130] }], pixels);
+    expect(result.mask.area / (100 * 100)).toBeGreaterThan(0.9);
+  });
+
+  it('falls back to the inscribed ellipse for a uniform crop', async () => {
+    const pixels = solid(120);
+    const [result] = await segmentObjects([{ label: 'tofu', bbox: [0, 0, 120, 120] }], pixels);
+    const fill = result.mask.area / (120 * 120);
+    expect(fill).toBeGreaterThan(0.7);
+    expect(fill).toBeLessThan(0.85); // The ellipse covers π/4 of the box, not all of it
+  });
+
+  it('stops between detections once its signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('budget exceeded'));
+    await expect(segmentObjects([{ label: 'tofu', bbox: [0, 0, 120, 120] }], solid(120), controller.signal)).rejects.toThrow('budget exceeded');
+  });
+});
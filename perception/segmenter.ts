@@ -1,11 +1,345 @@
+import { SegmentationMask } from '../types';
+import { checkpoint } from './checkpoint';
 
 /**
- * segmenter.py equivalent
- * Simulated SAM (Segment Anything Model) for refined boundary masks.
+ * segmenter.ts
+ * Box-prompted foreground segmentation.
+ * Background colour is sampled from a ring just outside each detection box
+ * (its own border ring when the box fills the image, as detector boxes hug the
+ * object); pixels whose colour is far from every background sample
+ * (Otsu-thresholded) form the foreground. The largest component is kept, holes are filled, and its outline
+ * is traced into a simplified polygon in source-image pixels.
  */
-export const segmentObjects = async (detections: any[]) => {
-  return detections.map(d => ({
-    ...d,
-    maskArea: Math.random() * 5000 + 1000 // Simulated pixel area
-  }));
+
+const GRID_SIZE = 96;        // Longest side of the working grid
+const BORDER_SAMPLES = 48;   // Background colour exemplars taken around the box
+const BACKGROUND_MARGIN = 4; // Source pixels between the box and the outer sampling ring
+const MIN_FILL_RATIO = 0.08; // Below this the mask is considered a failure
+const SIMPLIFY_EPSILON = 1.2; // Douglas-Peucker tolerance in grid cells
+
+interface Grid {
+  width: number;
+  height: number;
+  cell: number; // Source pixels per grid cell
+  rgb: Float32Array;
+}
+
+const sampleGrid = (pixels: ImageData, bbox: number[]): Grid | null => {
+  const x1 = Math.max(0, Math.floor(bbox[0]));
+  const y1 = Math.max(0, Math.floor(bbox[1]));
+  const x2 = Math.min(pixels.width, Math.ceil(bbox[2]));
+  const y2 = Math.min(pixels.height, Math.ceil(bbox[3]));
+  if (x2 - x1 < 4 || y2 - y1 < 4) return null;
+
+  const cell = Math.max(1, Math.max(x2 - x1, y2 - y1) / GRID_SIZE);
+  const width = Math.max(1, Math.floor((x2 - x1) / cell));
+  const height = Math.max(1, Math.floor((y2 - y1) / cell));
+  const rgb = new Float32Array(width * height * 3);
+
+  for (let gy = 0; gy < height; gy++) {
+    for (let gx = 0; gx < width; gx++) {
+      const sx = Math.min(pixels.width - 1, Math.floor(x1 + (gx + 0.5) * cell));
+      const sy = Math.min(pixels.height - 1, Math.floor(y1 + (gy + 0.5) * cell));
+      const si = (sy * pixels.width + sx) * 4;
+      const gi = (gy * width + gx) * 3;
+      rgb[gi] = pixels.data[si];
+      rgb[gi + 1] = pixels.data[si + 1];
+      rgb[gi + 2] = pixels.data[si + 2];
+    }
+  }
+
+  return { width, height, cell, rgb };
+};
+
+const otsuThreshold = (values: Float32Array): number => {
+  let max = 0;
+  values.forEach(v => { if (v > max) max = v; });
+  if (max === 0) return 0;
+
+  const bins = 64;
+  const hist = new Array(bins).fill(0);
+  values.forEach(v => hist[Math.min(bins - 1, Math.floor((v / max) * bins))]++);
+
+  const total = values.length;
+  let sumAll = 0;
+  hist.forEach((count, i) => { sumAll += i * count; });
+
+  let sumBg = 0;
+  let weightBg = 0;
+  let best = 0;
+  let bestVariance = -1;
+  for (let i = 0; i < bins; i++) {
+    weightBg += hist[i];
+    if (weightBg === 0) continue;
+    const weightFg = total - weightBg;
+    if (weightFg === 0) break;
+    sumBg += i * hist[i];
+    const meanBg = sumBg / weightBg;
+    const meanFg = (sumAll - sumBg) / weightFg;
+    const variance = weightBg * weightFg * (meanBg - meanFg) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = i;
+    }
+  }
+  return ((best + 1) / bins) * max;
+};
+
+const spread = <T>(items: T[]): T[] => {
+  const step = Math.max(1, Math.floor(items.length / BORDER_SAMPLES));
+  return items.filter((_, i) => i % step === 0);
+};
+
+/**
+ * Background colours from a ring a few pixels outside the box, clamped to the
+ * image. Sides cut off by the image edge contribute nothing; when too little
+ * of the ring is left, the grid's own border ring stands in.
+ */
+const backgroundColours = (pixels: ImageData, bbox: number[], grid: Grid): [number, number, number][] => {
+  const margin = Math.max(BACKGROUND_MARGIN, Math.ceil(grid.cell));
+  const [x1, y1, x2, y2] = [Math.floor(bbox[0]), Math.floor(bbox[1]), Math.ceil(bbox[2]), Math.ceil(bbox[3])];
+  const [ox1, oy1, ox2, oy2] = [x1 - margin, y1 - margin, x2 + margin - 1, y2 + margin - 1];
+  const outside = (x: number, y: number) => x < x1 || x >= x2 || y < y1 || y >= y2;
+
+  const ring: [number, number][] = [];
+  for (let x = ox1; x <= ox2; x += grid.cell) ring.push([x, oy1], [x, oy2]);
+  for (let y = oy1 + grid.cell; y < oy2; y += grid.cell) ring.push([ox1, y], [ox2, y]);
+  const outer = ring
+    .map(([x, y]) => [Math.min(pixels.width - 1, Math.max(0, Math.round(x))), Math.min(pixels.height - 1, Math.max(0, Math.round(y)))])
+    .filter(([x, y]) => outside(x, y))
+    .map(([x, y]) => {
+      const i = (y * pixels.width + x) * 4;
+      return [pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]] as [number, number, number];
+    });
+  if (outer.length >= BORDER_SAMPLES / 4) return spread(outer);
+
+  const { width, height, rgb } = grid;
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) border.push(y * width, y * width + width - 1);
+  return spread(border).map(b => [rgb[b * 3], rgb[b * 3 + 1], rgb[b * 3 + 2]]);
+};
+
+/**
+ * Per-cell distance to the nearest background exemplar, thresholded into a binary mask.
+ */
+const foregroundMask = (grid: Grid, exemplars: [number, number, number][]): Uint8Array => {
+  const { width, height, rgb } = grid;
+  const distance = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    let nearest = Infinity;
+    for (const [r, g, b] of exemplars) {
+      const dr = rgb[i * 3] - r;
+      const dg = rgb[i * 3 + 1] - g;
+      const db = rgb[i * 3 + 2] - b;
+      const d = dr * dr + dg * dg + db * db;
+      if (d < nearest) nearest = d;
+    }
+    distance[i] = Math.sqrt(nearest);
+  }
+
+  const threshold = otsuThreshold(distance);
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) mask[i] = distance[i] > threshold ? 1 : 0;
+  return mask;
+};
+
+const neighbours4 = (i: number, width: number, height: number): number[] => {
+  const x = i % width;
+  const y = Math.floor(i / width);
+  const out: number[] = [];
+  if (x > 0) out.push(i - 1);
+  if (x < width - 1) out.push(i + 1);
+  if (y > 0) out.push(i - width);
+  if (y < height - 1) out.push(i + width);
+  return out;
+};
+
+/**
+ * Keeps only the largest 4-connected foreground component and fills its
+ * holes; empty when there is no foreground.
+ */
+const cleanMask = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+  const labels = new Int32Array(mask.length).fill(-1);
+  let bestLabel = -1;
+  let bestSize = 0;
+  let label = 0;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start] >= 0) continue;
+    const stack = [start];
+    labels[start] = label;
+    let size = 0;
+    while (stack.length) {
+      const i = stack.pop()!;
+      size++;
+      neighbours4(i, width, height).forEach(n => {
+        if (mask[n] && labels[n] < 0) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      });
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+    label++;
+  }
+  // No foreground at all (a uniform crop): an empty mask sends the caller to the ellipse fallback
+  if (bestLabel < 0) return new Uint8Array(mask.length);
+
+  // Flood the background from the grid edge; anything unreached is a hole
+  const outside = new Uint8Array(mask.length);
+  const stack: number[] = [];
+  for (let i = 0; i < mask.length; i++) {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    const onEdge = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+    if (onEdge && labels[i] !== bestLabel) {
+      outside[i] = 1;
+      stack.push(i);
+    }
+  }
+  while (stack.length) {
+    const i = stack.pop()!;
+    neighbours4(i, width, height).forEach(n => {
+      if (!outside[n] && labels[n] !== bestLabel) {
+        outside[n] = 1;
+        stack.push(n);
+      }
+    });
+  }
+
+  const cleaned = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) cleaned[i] = outside[i] ? 0 : 1;
+  return cleaned;
+};
+
+const ellipseMask = (width: number, height: number): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = (x - cx) / (width / 2);
+      const dy = (y - cy) / (height / 2);
+      if (dx * dx + dy * dy <= 1) mask[y * width + x] = 1;
+    }
+  }
+  return mask;
+};
+
+/**
+ * Moore-neighbour boundary tracing of a single filled component.
+ */
+const traceContour = (mask: Uint8Array, width: number, height: number): [number, number][] => {
+  const at = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+  const start = mask.indexOf(1);
+  if (start < 0) return [];
+
+  const dirs: [number, number][] = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+  const sx = start % width;
+  const sy = Math.floor(start / width);
+  const contour: [number, number][] = [[sx, sy]];
+  let [x, y] = [sx, sy];
+  let dir = 6; // Scan starts as if we arrived moving up
+  const limit = width * height * 4;
+
+  for (let steps = 0; steps < limit; steps++) {
+    let found = false;
+    for (let k = 0; k < 8; k++) {
+      const d = (dir + 6 + k) % 8; // Begin checking from the left-back neighbour
+      const nx = x + dirs[d][0];
+      const ny = y + dirs[d][1];
+      if (at(nx, ny)) {
+        x = nx;
+        y = ny;
+        dir = d;
+        found = true;
+        break;
+      }
+    }
+    if (!found || (x === sx && y === sy)) break;
+    contour.push([x, y]);
+  }
+  return contour;
+};
+
+const simplify = (points: [number, number][], epsilon: number): [number, number][] => {
+  if (points.length < 3) return points;
+  const [ax, ay] = points[0];
+  const [bx, by] = points[points.length - 1];
+  const length = Math.hypot(bx - ax, by - ay) || 1;
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const [px, py] = points[i];
+    const d = Math.abs((by - ay) * px - (bx - ax) * py + bx * ay - by * ax) / length;
+    if (d > maxDistance) {
+      maxDistance = d;
+      index = i;
+    }
+  }
+  if (maxDistance <= epsilon) return [points[0], points[points.length - 1]];
+  return [
+    ...simplify(points.slice(0, index + 1), epsilon).slice(0, -1),
+    ...simplify(points.slice(index), epsilon)
+  ];
+};
+
+/**
+ * Simplifies a closed contour by splitting it at the point farthest from the
+ * start, so both halves have distinct anchors.
+ */
+const simplifyRing = (ring: [number, number][], epsilon: number): [number, number][] => {
+  if (ring.length < 4) return ring;
+  const [sx, sy] = ring[0];
+  let far = 0;
+  ring.forEach(([x, y], i) => {
+    if (Math.hypot(x - sx, y - sy) > Math.hypot(ring[far][0] - sx, ring[far][1] - sy)) far = i;
+  });
+  return [
+    ...simplify(ring.slice(0, far + 1), epsilon).slice(0, -1),
+    ...simplify([...ring.slice(far), ring[0]], epsilon).slice(0, -1)
+  ];
+};
+
+/**
+ * Mask (area + outline polygon, in source pixels) of one detection.
+ */
+const segmentOne = (d: any, pixels: ImageData) => {
+  const grid = sampleGrid(pixels, d.bbox);
+  if (!grid) return d;
+
+  let mask = cleanMask(foregroundMask(grid, backgroundColours(pixels, d.bbox, grid)), grid.width, grid.height);
+  let fill = mask.reduce((acc, v) => acc + v, 0) / mask.length;
+  if (fill < MIN_FILL_RATIO) {
+    // Low-contrast crop: fall back to the inscribed ellipse rather than a sliver
+    mask = ellipseMask(grid.width, grid.height);
+    fill = mask.reduce((acc, v) => acc + v, 0) / mask.length;
+  }
+
+  const [x1, y1] = [Math.max(0, Math.floor(d.bbox[0])), Math.max(0, Math.floor(d.bbox[1]))];
+  const polygon = simplifyRing(traceContour(mask, grid.width, grid.height), SIMPLIFY_EPSILON)
+    .map(([gx, gy]) => [x1 + (gx + 0.5) * grid.cell, y1 + (gy + 0.5) * grid.cell] as [number, number]);
+
+  const segmentation: SegmentationMask = {
+    area: Math.round(fill * grid.width * grid.height * grid.cell * grid.cell),
+    polygon
+  };
+  return { ...d, mask: segmentation };
+};
+
+/**
+ * Produces a mask for every detection. Stops between detections once
+ * `signal` is aborted.
+ */
+export const segmentObjects = async (detections: any[], pixels: ImageData, signal?: AbortSignal) => {
+  const segmented: any[] = [];
+  for (const d of detections) {
+    await checkpoint(signal);
+    segmented.push(segmentOne(d, pixels));
+  }
+  return segmented;
 };
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { VolumeCalibration } from '../types';
+import { calibrationScale, estimateVolume } from './volume';
+
+const tomato = (x: number, size: number) => ({ label: 'tomato', bbox: [x, 0, x + size, size] });
+
+const card: VolumeCalibration = { kind: 'card', bbox: [0, 400, 856, 940] };
+
+describe('calibrationScale', () => {
+  it('reads centimetres per pixel from the reference long edge', () => {
+    expect(calibrationScale(card)).toBeCloseTo(0.01);
+    expect(calibrationScale({ ...card, sizeCm: 17.12 })).toBeCloseTo(0.02);
+  });
+});
+
+describe('estimateVolume', () => {
+  it('scales mass with the cube of size against a reference', async () => {
+    const [small, large] = await estimateVolume([tomato(0, 700), tomato(1000, 1400)], card);
+    expect(large.mass_grams / small.mass_grams).toBeCloseTo(8, 0);
+    expect(small.massRange[1] / small.massRange[0]).toBeCloseTo(1.25 / 0.75, 1);
+  });
+
+  it('sizes an uncalibrated item against the rest of the scene', async () => {
+    const [small, , large] = await estimateVolume([tomato(0, 70), tomato(100, 70), tomato(200, 140)]);
+    expect(large.mass_grams).toBeGreaterThan(small.mass_grams * 6);
+  });
+
+  it('falls back to the typical size for a lone item', async () => {
+    const [near] = await estimateVolume([tomato(0, 300)]);
+    const [far] = await estimateVolume([tomato(0, 60)]);
+    expect(near.mass_grams).toBe(far.mass_grams);
+  });
+});
@@ -1,11 +1,183 @@
+import { VolumeCalibration } from '../types';
+import { getEntry } from '../knowledge/catalogue';
 
 /**
- * volume.py equivalent
- * Bounding box heuristic for mass estimation.
+ * volume.ts
+ * Geometry-based mass estimation.
+ * Projected area (mask, else bbox) is lifted to a volume with a per-item
+ * shape model, then converted to grams with the catalogue density. A user-marked
+ * reference object fixes the pixel scale; without one, the typical sizes of
+ * the other items in the scene stand in for it, and the uncertainty range
+ * widens accordingly. A lone uncalibrated item is sized from its prior alone.
  */
-export const estimateVolume = async (detections: any[]) => {
-  return detections.map(d => ({
-    ...d,
-    mass_grams: Math.floor(Math.random() * 200) + 50
-  }));
+
+type Shape = 'round' | 'elongated' | 'block' | 'pile';
+
+interface SizePrior {
+  sizeCm: number;  // Typical longest visible dimension of one unit/portion
+  shape: Shape;
+  depthCm?: number; // Thickness for blocks and piles
+}
+
+const SIZE_PRIORS: Record<string, SizePrior> = {
+  'apple': { sizeCm: 8, shape: 'round' },
+  'banana': { sizeCm: 19, shape: 'elongated' },
+  'orange': { sizeCm: 8, shape: 'round' },
+  'pear': { sizeCm: 10, shape: 'round' },
+  'strawberry': { sizeCm: 12, shape: 'pile', depthCm: 4 },
+  'blueberry': { sizeCm: 10, shape: 'pile', depthCm: 4 },
+  'raspberry': { sizeCm: 10, shape: 'pile', depthCm: 4 },
+  'mango': { sizeCm: 13, shape: 'round' },
+  'pineapple': { sizeCm: 28, shape: 'elongated' },
+  'grape': { sizeCm: 15, shape: 'pile', depthCm: 6 },
+  'lemon': { sizeCm: 7, shape: 'round' },
+  'lime': { sizeCm: 5.5, shape: 'round' },
+  'avocado': { sizeCm: 10, shape: 'round' },
+  'pomegranate': { sizeCm: 9, shape: 'round' },
+  'kiwi': { sizeCm: 6, shape: 'round' },
+  'peach': { sizeCm: 7, shape: 'round' },
+  'plum': { sizeCm: 5, shape: 'round' },
+  'spinach': { sizeCm: 18, shape: 'pile', depthCm: 6 },
+  'kale': { sizeCm: 25, shape: 'pile', depthCm: 8 },
+  'lettuce': { sizeCm: 15, shape: 'round' },
+  'tomato': { sizeCm: 7, shape: 'round' },
+  'carrot': { sizeCm: 17, shape: 'elongated' },
+  'broccoli': { sizeCm: 14, shape: 'round' },
+  'onion': { sizeCm: 7.5, shape: 'round' },
+  'garlic': { sizeCm: 5.5, shape: 'round' },
+  'shallot': { sizeCm: 4, shape: 'round' },
+  'leek': { sizeCm: 35, shape: 'elongated' },
+  'bell pepper': { sizeCm: 9, shape: 'round' },
+  'chili': { sizeCm: 8, shape: 'elongated' },
+  'zucchini': { sizeCm: 20, shape: 'elongated' },
+  'eggplant': { sizeCm: 20, shape: 'elongated' },
+  'cucumber': { sizeCm: 21, shape: 'elongated' },
+  'potato': { sizeCm: 9, shape: 'round' },
+  'sweet potato': { sizeCm: 14, shape: 'elongated' },
+  'ginger': { sizeCm: 8, shape: 'elongated' },
+  'celery': { sizeCm: 30, shape: 'elongated' },
+  'asparagus': { sizeCm: 20, shape: 'pile', depthCm: 4 },
+  'cauliflower': { sizeCm: 15, shape: 'round' },
+  'mushroom': { sizeCm: 12, shape: 'pile', depthCm: 5 },
+  'chicken': { sizeCm: 16, shape: 'block', depthCm: 3 },
+  'beef': { sizeCm: 14, shape: 'block', depthCm: 2.5 },
+  'pork': { sizeCm: 14, shape: 'block', depthCm: 2.5 },
+  'lamb': { sizeCm: 14, shape: 'block', depthCm: 2.5 },
+  'egg': { sizeCm: 5.7, shape: 'round' },
+  'tofu': { sizeCm: 11, shape: 'block', depthCm: 4 },
+  'salmon': { sizeCm: 14, shape: 'block', depthCm: 2.5 },
+  'shrimp': { sizeCm: 12, shape: 'pile', depthCm: 3 },
+  'cheese': { sizeCm: 10, shape: 'block', depthCm: 4 },
+  'yogurt': { sizeCm: 10, shape: 'round' },
+  'milk': { sizeCm: 25, shape: 'elongated' },
+  'tempeh': { sizeCm: 12, shape: 'block', depthCm: 2 },
+  'beans': { sizeCm: 10, shape: 'pile', depthCm: 5 },
+  'lentils': { sizeCm: 10, shape: 'pile', depthCm: 5 },
+  'butter': { sizeCm: 11, shape: 'block', depthCm: 3 },
+  'mayo': { sizeCm: 15, shape: 'elongated' },
+  'ketchup': { sizeCm: 19, shape: 'elongated' },
+  'soy sauce': { sizeCm: 18, shape: 'elongated' },
+  'mustard': { sizeCm: 12, shape: 'elongated' },
+  'olive oil': { sizeCm: 28, shape: 'elongated' },
+  'vinegar': { sizeCm: 25, shape: 'elongated' },
+  'honey': { sizeCm: 12, shape: 'elongated' },
+  'maple syrup': { sizeCm: 18, shape: 'elongated' },
+  'miso': { sizeCm: 10, shape: 'round' },
+  'tahini': { sizeCm: 11, shape: 'round' }
+};
+
+const HERB_PRIOR: SizePrior = { sizeCm: 15, shape: 'pile', depthCm: 3 };
+const DEFAULT_PRIOR: SizePrior = { sizeCm: 10, shape: 'round' };
+const DEFAULT_DENSITY = 0.8; // g/cm³
+
+/**
+ * Real-world size of the supported reference objects.
+ * ID-1 cards (credit/debit/transit) are 85.6 mm on the long edge.
+ */
+const REFERENCE_LONG_EDGE_CM: Record<VolumeCalibration['kind'], number> = {
+  card: 8.56,
+  plate: 27
+};
+
+const CALIBRATED_SPREAD = 0.25;
+const UNCALIBRATED_SPREAD = 0.5;
+
+const priorFor = (label: string): SizePrior => SIZE_PRIORS[label] || (getEntry(label)?.category === 'herb' ? HERB_PRIOR : DEFAULT_PRIOR);
+
+/**
+ * Centimetres per source pixel derived from the user-marked reference object.
+ */
+export const calibrationScale = (calibration: VolumeCalibration): number => {
+  const [x1, y1, x2, y2] = calibration.bbox;
+  const longEdgePx = Math.max(Math.abs(x2 - x1), Math.abs(y2 - y1));
+  const longEdgeCm = calibration.sizeCm ?? REFERENCE_LONG_EDGE_CM[calibration.kind];
+  return longEdgePx > 0 ? longEdgeCm / longEdgePx : 0;
+};
+
+const longEdgePx = (bbox: number[]): number => Math.max(1, bbox[2] - bbox[0], bbox[3] - bbox[1]);
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Centimetres per pixel implied by every detection except `index`, each
+ * assumed to span its typical size; 0 when there is no other detection.
+ * Leaving the item out keeps its own box size from cancelling.
+ */
+const sceneScale = (priorScales: number[], index: number): number => {
+  const others = priorScales.filter((_, i) => i !== index);
+  return others.length > 0 ? median(others) : 0;
+};
+
+/**
+ * Lifts a projected area (cm²) to a volume (cm³) for the given shape.
+ * `aspect` is the long/short ratio of the bounding box.
+ */
+const volumeFromArea = (areaCm2: number, aspect: number, prior: SizePrior): number => {
+  switch (prior.shape) {
+    case 'round':
+      // Sphere: A = πr², V = 4/3·πr³
+      return (4 / (3 * Math.sqrt(Math.PI))) * Math.pow(areaCm2, 1.5);
+    case 'elongated':
+      // Cylinder seen side-on: A = L·d, V = π/4·d²·L with L/d = aspect
+      return (Math.PI / 4) * Math.pow(areaCm2, 1.5) / Math.sqrt(Math.max(1, aspect));
+    case 'block':
+    case 'pile':
+      return areaCm2 * (prior.depthCm ?? 3);
+  }
+};
+
+/**
+ * Estimates mass (and an uncertainty range) for each detection.
+ * Uses the segmentation mask area when present, otherwise an ellipse inscribed in the bbox.
+ */
+export const estimateVolume = async (detections: any[], calibration?: VolumeCalibration) => {
+  const calibratedScale = calibration ? calibrationScale(calibration) : 0;
+  const priorScales = detections.map(d => priorFor(d.label).sizeCm / longEdgePx(d.bbox));
+
+  return detections.map((d, index) => {
+    const prior = priorFor(d.label);
+    const [x1, y1, x2, y2] = d.bbox;
+    const w = Math.max(1, x2 - x1);
+    const h = Math.max(1, y2 - y1);
+    const aspect = Math.max(w, h) / Math.min(w, h);
+    const areaPx = d.mask?.area ?? (Math.PI / 4) * w * h;
+
+    // Without a reference, read the scale off the rest of the scene; alone, assume the item spans its typical size
+    const cmPerPx = calibratedScale > 0 ? calibratedScale : sceneScale(priorScales, index) || priorScales[index];
+    const spread = calibratedScale > 0 ? CALIBRATED_SPREAD : UNCALIBRATED_SPREAD;
+
+    const volume = volumeFromArea(areaPx * cmPerPx * cmPerPx, aspect, prior);
+    const density = getEntry(d.label)?.density ?? DEFAULT_DENSITY;
+    const mass = Math.max(1, Math.round(volume * density));
+
+    return {
+      ...d,
+      mass_grams: mass,
+      massRange: [Math.max(1, Math.round(mass * (1 - spread))), Math.round(mass * (1 + spread))] as [number, number]
+    };
+  });
 };
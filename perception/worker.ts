@@ -0,0 +1,108 @@
+import { run_perception_pipeline, run_targeted_rescan } from './pipeline';
+import { detectObjects } from './detector';
+import { toImageData } from './image';
+import { registry } from '../services/modelRegistry';
+import { loadCalibration } from '../services/calibrationService';
+import { PerceptionWorkerRequest, PerceptionWorkerResponse } from './protocol';
+
+/**
+ * worker.ts
+ * Dedicated worker hosting the perception pipeline (decode, ONNX inference,
+ * segmentation, colour sweeps) off the main thread. The worker owns its own
+ * ModelRegistry instance, so the loaded session survives between scans.
+ */
+
+// The project compiles against the DOM lib; declare just the worker surface used here
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<PerceptionWorkerRequest>) => void) | null;
+  postMessage: (message: PerceptionWorkerResponse) => void;
+};
+
+const controllers = new Map<number, AbortController>();
+const ready = Promise.all([registry.loadManifest(), loadCalibration()]);
+
+// The runtimes live here, so the main thread's registry learns their load state from us
+registry.onHealthChange((model, health, error) => scope.postMessage({ type: 'health', model, health, error }));
+
+const handleRun = async (request: Extract<PerceptionWorkerRequest, { type: 'run' }>) => {
+  const { id, image, budgets, calibration } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    await ready;
+    const result = await run_perception_pipeline(image, {
+      signal: controller.signal,
+      budgets,
+      calibration,
+      onEvent: event => scope.postMessage({ type: 'event', id, event })
+    });
+    scope.postMessage({ type: 'result', id, result });
+  } catch (err: any) {
+    scope.postMessage({ type: 'error', id, name: err?.name || 'Error', message: err?.message || String(err) });
+  } finally {
+    controllers.delete(id);
+  }
+};
+
+const handleDetect = async (request: Extract<PerceptionWorkerRequest, { type: 'detect' }>) => {
+  const { id, image, threshold } = request;
+  try {
+    await ready;
+    const detections = await detectObjects(await toImageData(image), threshold);
+    scope.postMessage({ type: 'detections', id, detections });
+  } catch (err: any) {
+    scope.postMessage({ type: 'error', id, name: err?.name || 'Error', message: err?.message || String(err) });
+  }
+};
+
+const handleRescan = async (request: Extract<PerceptionWorkerRequest, { type: 'rescan' }>) => {
+  const { id, image, hypotheses, regions, calibration } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    await ready;
+    const result = await run_targeted_rescan(image, hypotheses, { regions, calibration, signal: controller.signal });
+    scope.postMessage({ type: 'rescanned', id, result });
+  } catch (err: any) {
+    scope.postMessage({ type: 'error', id, name: err?.name || 'Error', message: err?.message || String(err) });
+  } finally {
+    controllers.delete(id);
+  }
+};
+
+const handleSwap = async (request: Extract<PerceptionWorkerRequest, { type: 'swap' }>) => {
+  const { id, model } = request;
+  try {
+    await ready;
+    await registry.swapModel(model);
+    scope.postMessage({ type: 'swapped', id });
+  } catch (err: any) {
+    scope.postMessage({ type: 'error', id, name: err?.name || 'Error', message: err?.message || String(err) });
+  }
+};
+
+scope.onmessage = (e) => {
+  const request = e.data;
+  switch (request.type) {
+    case 'run':
+      handleRun(request);
+      break;
+    case 'detect':
+      handleDetect(request);
+      break;
+    case 'rescan':
+      handleRescan(request);
+      break;
+    case 'abort':
+      controllers.get(request.id)?.abort();
+      break;
+    case 'swap':
+      handleSwap(request);
+      break;
+    case 'calibration':
+      loadCalibration();
+      break;
+  }
+};
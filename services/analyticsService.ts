@@ -0,0 +1,206 @@
+import { ImpactMetrics, Ingredient, NeuralProtocol, ProtocolLogEntry } from '../types';
+import { createIdbStore } from './idbStore';
+import { calculateEnvironmentalImpact } from './impactService';
+import { ingredientKey } from '../knowledge/matcher';
+
+/**
+ * analyticsService.ts
+ * Waste-rescue analytics. Every completed protocol is logged with the items
+ * it rescued and their footprint; the Dashboard aggregates the log by day,
+ * week or month, by category, and into cooking streaks.
+ */
+
+export type AnalyticsPeriod = 'day' | 'week' | 'month';
+
+export interface ImpactBucket extends ImpactMetrics {
+  label: string;
+  start: number;
+  protocols: number;
+}
+
+export interface CategoryImpact extends ImpactMetrics {
+  category: string;
+}
+
+export interface RescueStreak {
+  current: number; // Consecutive days up to today (or yesterday, if today has none yet)
+  longest: number;
+}
+
+const BUCKET_COUNTS: Record<AnalyticsPeriod, number> = { day: 7, week: 8, month: 6 };
+
+const logStore = createIdbStore<ProtocolLogEntry>('culinary_lens_analytics', 'protocols');
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const emptyImpact = (): ImpactMetrics => ({ co2SavedKg: 0, waterSavedLitres: 0, wasteAvoidedGrams: 0 });
+
+const addImpact = (total: ImpactMetrics, impact: ImpactMetrics) => {
+  total.co2SavedKg += impact.co2SavedKg;
+  total.waterSavedLitres += impact.waterSavedLitres;
+  total.wasteAvoidedGrams += impact.wasteAvoidedGrams;
+};
+
+const roundImpact = <T extends ImpactMetrics>(impact: T): T => ({
+  ...impact,
+  co2SavedKg: Number(impact.co2SavedKg.toFixed(2)),
+  waterSavedLitres: Math.round(impact.waterSavedLitres),
+  wasteAvoidedGrams: Math.round(impact.wasteAvoidedGrams)
+});
+
+/**
+ * Local-time start of the day, Monday-based week or month containing `at`.
+ */
+const periodStart = (at: number, period: AnalyticsPeriod): number => {
+  const d = new Date(at);
+  d.setHours(0, 0, 0, 0);
+  if (period === 'week') d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  if (period === 'month') d.setDate(1);
+  return d.getTime();
+};
+
+const previousStart = (start: number, period: AnalyticsPeriod): number => {
+  const d = new Date(start);
+  if (period === 'day') d.setDate(d.getDate() - 1);
+  if (period === 'week') d.setDate(d.getDate() - 7);
+  if (period === 'month') d.setMonth(d.getMonth() - 1);
+  return d.getTime();
+};
+
+const bucketLabel = (start: number, period: AnalyticsPeriod): string => {
+  const d = new Date(start);
+  if (period === 'day') return d.toLocaleDateString(undefined, { weekday: 'narrow' });
+  if (period === 'week') return d.toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+  return d.toLocaleDateString(undefined, { month: 'short' });
+};
+
+/**
+ * Oldest first.
+ */
+export const loadProtocolLog = async (): Promise<ProtocolLogEntry[]> => {
+  try {
+    return (await logStore.getAll()).sort((a, b) => a.completedAt - b.completedAt);
+  } catch (err) {
+    console.warn('[Analytics] Stored protocol log unavailable.', err);
+    return [];
+  }
+};
+
+/**
+ * Logs a completed protocol. `consumed` are the pantry items it used; those
+ * named in `protocol.rescuedItems` are credited with their footprint.
+ */
+export const recordCompletedProtocol = async (
+  protocol: NeuralProtocol,
+  consumed: Ingredient[],
+  completedAt: number = Date.now()
+): Promise<ProtocolLogEntry> => {
+  const rescuedKeys = new Set((protocol.rescuedItems || []).map(name => ingredientKey(name)));
+  const rescued = consumed.filter(i => rescuedKeys.has(ingredientKey(i.name)));
+  const entry: ProtocolLogEntry = {
+    id: newId(),
+    protocolId: protocol.id,
+    title: protocol.title,
+    completedAt,
+    impact: calculateEnvironmentalImpact(rescued),
+    rescued: rescued.map(i => {
+      const impact = calculateEnvironmentalImpact([i]);
+      return {
+        name: i.name,
+        category: i.category || 'uncatalogued',
+        mass_grams: i.mass_grams,
+        co2Kg: impact.co2SavedKg,
+        waterLitres: impact.waterSavedLitres
+      };
+    })
+  };
+  try {
+    await logStore.put(entry.id, entry);
+  } catch (err) {
+    console.warn('[Analytics] Could not persist completed protocol.', err);
+  }
+  return entry;
+};
+
+/**
+ * The last few days, weeks or months (7, 8 and 6 buckets), oldest first.
+ * Empty periods are included so charts keep a steady time axis.
+ */
+export const aggregateImpact = (
+  log: ProtocolLogEntry[],
+  period: AnalyticsPeriod,
+  now: number = Date.now()
+): ImpactBucket[] => {
+  const starts: number[] = [periodStart(now, period)];
+  while (starts.length < BUCKET_COUNTS[period]) starts.unshift(previousStart(starts[0], period));
+
+  const buckets = new Map<number, ImpactBucket>(
+    starts.map(start => [start, { label: bucketLabel(start, period), start, protocols: 0, ...emptyImpact() }])
+  );
+  log.forEach(entry => {
+    const bucket = buckets.get(periodStart(entry.completedAt, period));
+    if (!bucket) return;
+    addImpact(bucket, entry.impact);
+    bucket.protocols += 1;
+  });
+  return starts.map(start => roundImpact(buckets.get(start)!));
+};
+
+export const totalImpact = (log: ProtocolLogEntry[]): ImpactMetrics => {
+  const total = emptyImpact();
+  log.forEach(entry => addImpact(total, entry.impact));
+  return roundImpact(total);
+};
+
+/**
+ * Rescued footprint per ingredient category since `since`, largest first.
+ */
+export const categoryBreakdown = (log: ProtocolLogEntry[], since: number = 0): CategoryImpact[] => {
+  const categories = new Map<string, CategoryImpact>();
+  log
+    .filter(entry => entry.completedAt >= since)
+    .forEach(entry =>
+      entry.rescued.forEach(item => {
+        const total = categories.get(item.category) || { category: item.category, ...emptyImpact() };
+        addImpact(total, { co2SavedKg: item.co2Kg, waterSavedLitres: item.waterLitres, wasteAvoidedGrams: item.mass_grams });
+        categories.set(item.category, total);
+      })
+    );
+  return Array.from(categories.values())
+    .map(roundImpact)
+    .sort((a, b) => b.wasteAvoidedGrams - a.wasteAvoidedGrams);
+};
+
+/**
+ * Runs of consecutive days with at least one protocol that rescued food.
+ */
+export const rescueStreak = (log: ProtocolLogEntry[], now: number = Date.now()): RescueStreak => {
+  const days = new Set(log.filter(e => e.rescued.length > 0).map(e => periodStart(e.completedAt, 'day')));
+  const sorted = Array.from(days).sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  sorted.forEach((day, i) => {
+    // Compare calendar days, not milliseconds, so DST changes do not break a run
+    run = i > 0 && previousStart(day, 'day') === sorted[i - 1] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  let cursor = periodStart(now, 'day');
+  if (!days.has(cursor)) cursor = previousStart(cursor, 'day');
+  let current = 0;
+  while (days.has(cursor)) {
+    current += 1;
+    cursor = previousStart(cursor, 'day');
+  }
+  return { current, longest };
+};
+
+/**
+ * Start of the oldest bucket `aggregateImpact` returns for `period`.
+ */
+export const periodWindowStart = (period: AnalyticsPeriod, now: number = Date.now()): number => {
+  let start = periodStart(now, period);
+  for (let i = 1; i < BUCKET_COUNTS[period]; i++) start = previousStart(start, period);
+  return start;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Ingredient } from '../types';
+import { calibrateScore, calibrationKey, recordVerification } from './calibrationService';
+
+vi.spyOn(console, 'warn').mockImplementation(() => undefined); // No IndexedDB here; outcomes stay in memory
+
+const detected = (i: number, score: number, sourceModel = 'yolov8n_culinary', sourceModelVersion?: string): Ingredient => ({
+  id: `item-${i}`,
+  name: 'Tomato',
+  scientificName: 'Solanum lycopersicum',
+  category: 'vegetable',
+  mass_grams: 100,
+  vitality_score: 90,
+  expires_in_days: 5,
+  confidence: score,
+  sourceModel,
+  sourceModelVersion,
+  detectorLabel: 'tomato',
+  detectorScore: score
+});
+
+describe('calibrateScore', () => {
+  it('passes scores through for a model without outcomes', () => {
+    expect(calibrateScore('untrained', 'tomato', 0.42)).toBe(0.42);
+  });
+
+  it('waits for enough outcomes before fitting a curve', async () => {
+    for (let i = 0; i < 4; i++) await recordVerification(detected(i, 0.9, 'sparse'), 'dismissed');
+    expect(calibrateScore('sparse', 'tomato', 0.9)).toBe(0.9);
+  });
+
+  it('learns from verified outcomes once there are enough', async () => {
+    // Half-confidence detections were always wrong, confident ones always right
+    for (let i = 0; i < 12; i++) await recordVerification(detected(i, i % 2 ? 0.9 : 0.5, 'learnt'), i % 2 ? 'confirmed' : 'dismissed');
+    expect(calibrateScore('learnt', 'tomato', 0.5)).toBeLessThan(0.5);
+    expect(calibrateScore('learnt', 'tomato', 0.9)).toBeGreaterThan(calibrateScore('learnt', 'tomato', 0.5));
+  });
+});
+
+describe('calibration profiles', () => {
+  it('keeps curves learnt for one model version away from the next', async () => {
+    // High scores were wrong, low scores right: the opposite of what the raw score claims
+    for (let i = 0; i < 12; i++) await recordVerification(detected(i, i % 2 ? 0.9 : 0.3, 'yolov8n_culinary', '1.0.0'), i % 2 ? 'dismissed' : 'confirmed');
+
+    expect(calibrateScore(calibrationKey('yolov8n_culinary', '1.0.0'), 'tomato', 0.9)).toBeLessThan(0.9);
+    expect(calibrateScore(calibrationKey('yolov8n_culinary', '1.1.0'), 'tomato', 0.9)).toBe(0.9);
+  });
+});
@@ -0,0 +1,225 @@
+import { Ingredient } from '../types';
+import { createIdbStore } from './idbStore';
+import { ingredientKey } from '../knowledge/matcher';
+
+/**
+ * calibrationService.ts
+ * Learns from user verifications. Every confirm/dismiss of a detected item is
+ * stored as a labelled outcome for the model version and class that produced
+ * it; the outcomes fit Platt curves (per model version, and per class once a
+ * class has enough of its own) that map raw detector scores to calibrated probabilities and
+ * shift per-class detection thresholds.
+ */
+
+export type VerificationOutcome = 'confirmed' | 'dismissed';
+
+interface LabelledOutcome {
+  ingredientId: string; // Re-verifying the same item replaces its outcome
+  label: string;
+  score: number;        // Raw detector score
+  correct: boolean;
+  at: number;
+}
+
+/**
+ * p = σ(a·logit(score) + b)
+ */
+interface PlattCurve {
+  a: number;
+  b: number;
+  samples: number;
+}
+
+interface CalibrationProfile {
+  modelId: string; // calibrationKey of the model version
+  outcomes: LabelledOutcome[];
+  global?: PlattCurve;
+  classes: Record<string, PlattCurve>;
+  updatedAt: number;
+}
+
+const MAX_OUTCOMES = 1000;       // Per model version; oldest outcomes are dropped first
+const MIN_MODEL_SAMPLES = 10;
+const MIN_CLASS_SAMPLES = 8;
+const PRIOR_STRENGTH = 1;        // L2 pull towards the identity curve (a = 1, b = 0)
+const MAX_THRESHOLD_SHIFT = 0.15;
+const MEMORY_LIMIT = 5;          // Bounds of the per-item confirmation memory
+
+const profileStore = createIdbStore<CalibrationProfile>('culinary_lens_calibration', 'profiles');
+const profiles = new Map<string, CalibrationProfile>();
+const listeners = new Set<(modelKey: string) => void>();
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+const logit = (p: number) => {
+  const q = Math.min(1 - 1e-4, Math.max(1e-4, p));
+  return Math.log(q / (1 - q));
+};
+
+/**
+ * Regularised Platt scaling fitted with Newton's method on logit scores,
+ * halving any step that would increase the loss (full steps overshoot when
+ * the outcomes contradict the raw scores).
+ * Targets use Platt's smoothing so a handful of outcomes never yields 0/1.
+ * Returns undefined unless both outcomes are present.
+ */
+const fitPlatt = (outcomes: LabelledOutcome[]): PlattCurve | undefined => {
+  const positives = outcomes.filter(o => o.correct).length;
+  const negatives = outcomes.length - positives;
+  if (positives === 0 || negatives === 0) return undefined;
+
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (negatives + 2);
+  const xs = outcomes.map(o => logit(o.score));
+  const ts = outcomes.map(o => (o.correct ? hi : lo));
+  const loss = (a: number, b: number) => xs.reduce((sum, x, i) => {
+    const p = Math.min(1 - 1e-12, Math.max(1e-12, sigmoid(a * x + b)));
+    return sum - ts[i] * Math.log(p) - (1 - ts[i]) * Math.log(1 - p);
+  }, (PRIOR_STRENGTH / 2) * ((a - 1) ** 2 + b ** 2));
+
+  let a = 1;
+  let b = 0;
+  for (let iter = 0; iter < 50; iter++) {
+    // Gradient and Hessian of the penalised negative log-likelihood
+    let ga = PRIOR_STRENGTH * (a - 1), gb = PRIOR_STRENGTH * b;
+    let haa = PRIOR_STRENGTH, hab = 0, hbb = PRIOR_STRENGTH;
+    xs.forEach((x, i) => {
+      const p = sigmoid(a * x + b);
+      const w = p * (1 - p);
+      ga += (p - ts[i]) * x;
+      gb += p - ts[i];
+      haa += w * x * x;
+      hab += w * x;
+      hbb += w;
+    });
+    const det = haa * hbb - hab * hab;
+    if (Math.abs(det) < 1e-12) break;
+    let da = (hbb * ga - hab * gb) / det;
+    let db = (haa * gb - hab * ga) / det;
+    const current = loss(a, b);
+    for (let halvings = 0; halvings < 20 && loss(a - da, b - db) > current; halvings++) {
+      da /= 2;
+      db /= 2;
+    }
+    a -= da;
+    b -= db;
+    if (Math.abs(da) + Math.abs(db) < 1e-6) break;
+  }
+
+  return Number.isFinite(a) && Number.isFinite(b) ? { a, b, samples: outcomes.length } : undefined;
+};
+
+const refit = (profile: CalibrationProfile) => {
+  profile.global = profile.outcomes.length >= MIN_MODEL_SAMPLES ? fitPlatt(profile.outcomes) : undefined;
+  profile.classes = {};
+  const byLabel = new Map<string, LabelledOutcome[]>();
+  profile.outcomes.forEach(o => byLabel.set(o.label, [...(byLabel.get(o.label) || []), o]));
+  byLabel.forEach((outcomes, label) => {
+    if (outcomes.length < MIN_CLASS_SAMPLES) return;
+    const curve = fitPlatt(outcomes);
+    if (curve) profile.classes[label] = curve;
+  });
+};
+
+/**
+ * Profile key of a model version: a retrained model starts uncalibrated
+ * rather than inheriting curves fitted to its predecessor's scores.
+ */
+export const calibrationKey = (modelId: string, version?: string): string => (version ? `${modelId}@${version}` : modelId);
+
+const curveFor = (modelKey: string, label: string): PlattCurve | undefined => {
+  const profile = profiles.get(modelKey);
+  return profile?.classes[label] || profile?.global;
+};
+
+/**
+ * Raw score at which a curve predicts a 50% chance of being right.
+ */
+const breakEven = (curve: PlattCurve): number | null => (curve.a > 0 ? sigmoid(-curve.b / curve.a) : null);
+
+/**
+ * Loads every stored profile into memory. Safe to call again to pick up
+ * outcomes recorded in another context (e.g. by the main thread, in the worker).
+ */
+export const loadCalibration = async (): Promise<void> => {
+  try {
+    const stored = await profileStore.getAll();
+    profiles.clear();
+    stored.forEach(profile => profiles.set(profile.modelId, profile));
+  } catch (err) {
+    console.warn('[Calibration] Stored outcomes unavailable; using raw detector scores.', err);
+  }
+};
+
+/**
+ * Calibrated probability for a raw detector score. Uncalibrated models and
+ * classes pass the score through unchanged.
+ */
+export const calibrateScore = (modelKey: string, label: string, score: number): number => {
+  const curve = curveFor(modelKey, label);
+  return curve ? sigmoid(curve.a * logit(score) + curve.b) : score;
+};
+
+/**
+ * Per-class detection threshold (raw score). A class whose own curve breaks
+ * even higher than the model's overall curve gets a stricter threshold, and
+ * vice versa, within ±MAX_THRESHOLD_SHIFT of `base`.
+ */
+export const thresholdFor = (modelKey: string, label: string, base: number): number => {
+  const profile = profiles.get(modelKey);
+  const own = profile?.classes[label];
+  if (!profile?.global || !own) return base;
+  const classPoint = breakEven(own);
+  const modelPoint = breakEven(profile.global);
+  if (classPoint === null || modelPoint === null) return base;
+  const shift = Math.max(-MAX_THRESHOLD_SHIFT, Math.min(MAX_THRESHOLD_SHIFT, classPoint - modelPoint));
+  return Math.min(0.95, Math.max(0.05, base + shift));
+};
+
+/**
+ * Stores a verification as a labelled outcome and refits the model's curves.
+ * Items that did not come from the on-device detector carry no raw score and
+ * are ignored.
+ */
+export const recordVerification = async (ingredient: Ingredient, outcome: VerificationOutcome): Promise<void> => {
+  const { sourceModel, sourceModelVersion, detectorLabel, detectorScore } = ingredient;
+  if (!sourceModel || !detectorLabel || detectorScore === undefined) return;
+
+  const key = calibrationKey(sourceModel, sourceModelVersion);
+  const profile = profiles.get(key) || { modelId: key, outcomes: [], classes: {}, updatedAt: 0 };
+  profile.outcomes = [
+    ...profile.outcomes.filter(o => o.ingredientId !== ingredient.id),
+    { ingredientId: ingredient.id, label: detectorLabel, score: detectorScore, correct: outcome === 'confirmed', at: Date.now() }
+  ].slice(-MAX_OUTCOMES);
+  refit(profile);
+  profile.updatedAt = Date.now();
+  profiles.set(key, profile);
+
+  try {
+    await profileStore.put(key, profile);
+  } catch (err) {
+    console.warn('[Calibration] Could not persist verification outcome.', err);
+  }
+  listeners.forEach(listener => listener(key));
+};
+
+/**
+ * Notified after a model's calibration changes.
+ */
+export const onCalibrationChange = (listener: (modelKey: string) => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+/**
+ * Next `confidenceMemory` (read by the composite confidence score): +1 per
+ * confirmation and −1 per dismissal of an ingredient, bounded to ±MEMORY_LIMIT.
+ */
+export const updateConfidenceMemory = (
+  memory: Record<string, number> = {},
+  ingredient: Ingredient,
+  outcome: VerificationOutcome
+): Record<string, number> => {
+  const key = ingredientKey(ingredient.name);
+  const next = (memory[key] || 0) + (outcome === 'confirmed' ? 1 : -1);
+  return { ...memory, [key]: Math.max(-MEMORY_LIMIT, Math.min(MEMORY_LIMIT, next)) };
+};
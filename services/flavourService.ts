@@ -0,0 +1,95 @@
+import { Ingredient, PairingSuggestion } from '../types';
+import { CatalogueEntry, entryFor } from '../knowledge/catalogue';
+import { matchIngredient } from '../knowledge/matcher';
+import { FLAVOUR_ENTRIES, FLAVOUR_FAMILIES, dominantFamilies, hasFlavourProfile, pairingWeight, sharedFamilies } from '../knowledge/flavours';
+
+/**
+ * flavourService.ts
+ * Flavour affinity of whole dishes and pairing suggestions, read off the
+ * compound graph in knowledge/flavours. A dish scores well when every
+ * ingredient has at least one strong partner (cohesion) and the set as a
+ * whole overlaps (density).
+ */
+
+const NEUTRAL_AFFINITY = 60;   // Fewer than two ingredients in the graph: nothing to judge
+const COHESION_WEIGHT = 0.7;
+const FULL_AFFINITY = 0.75;    // Raw score at which a dish rates 100
+const MIN_GAIN = 1;            // Affinity points a suggestion must add
+
+// Suggestions accent a dish; they do not swap in another main or starch
+const ACCENT_CATEGORIES = ['fruit', 'vegetable', 'herb', 'spice', 'dairy', 'nut-seed', 'oil-fat', 'condiment', 'sweetener'];
+
+const graphIds = (names: string[]): string[] => {
+  const ids = names
+    .map(name => matchIngredient(name))
+    .filter(match => match && match.confidence >= 0.6)
+    .map(match => match!.entry.id)
+    .filter(hasFlavourProfile);
+  return Array.from(new Set(ids));
+};
+
+/**
+ * 0–100 affinity of a set of catalogue ids.
+ */
+export const scoreFlavourSet = (ids: string[]): number => {
+  if (ids.length < 2) return NEUTRAL_AFFINITY;
+  const best = ids.map(a => Math.max(...ids.map(b => pairingWeight(a, b))));
+  const cohesion = best.reduce((sum, w) => sum + w, 0) / ids.length;
+
+  let pairTotal = 0;
+  let pairs = 0;
+  ids.forEach((a, i) => ids.slice(i + 1).forEach(b => { pairTotal += pairingWeight(a, b); pairs++; }));
+  const density = pairTotal / pairs;
+
+  const raw = COHESION_WEIGHT * cohesion + (1 - COHESION_WEIGHT) * density;
+  return Math.round(100 * Math.min(1, raw / FULL_AFFINITY));
+};
+
+/**
+ * Affinity of a dish from its ingredient names (free text).
+ */
+export const flavourAffinity = (names: string[]): number => scoreFlavourSet(graphIds(names));
+
+/**
+ * The catalogue ingredients that would raise the dish's affinity most,
+ * each with the dish ingredient it pairs with best and why. A candidate must
+ * bring something its partner lacks: same-category stand-ins (lime for
+ * lemon) are skipped. `allow` screens candidates (diet, allergies).
+ */
+export const suggestPairings = (
+  names: string[],
+  allow: (entry: CatalogueEntry) => boolean = () => true,
+  limit: number = 2
+): PairingSuggestion[] => {
+  const ids = graphIds(names);
+  if (ids.length === 0) return [];
+  const current = scoreFlavourSet(ids);
+
+  return FLAVOUR_ENTRIES
+    .filter(entry => ACCENT_CATEGORIES.includes(entry.category) && !ids.includes(entry.id) && allow(entry))
+    .map(entry => {
+      const partner = FLAVOUR_ENTRIES.find(e => e.id === ids.reduce((best, id) => (pairingWeight(entry.id, id) > pairingWeight(entry.id, best) ? id : best)))!;
+      return { entry, partner, gain: scoreFlavourSet([...ids, entry.id]) - current, shared: sharedFamilies(entry.id, partner.id) };
+    })
+    .filter(c => c.gain >= MIN_GAIN && c.partner.category !== c.entry.category && c.shared.length > 0)
+    .sort((a, b) => b.gain - a.gain || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit)
+    .map(({ entry, partner, shared, gain }) => ({
+      name: entry.name,
+      partner: partner.name,
+      shared: shared.slice(0, 2).map(f => FLAVOUR_FAMILIES[f].label),
+      gain
+    }));
+};
+
+/**
+ * Fills `flavorNodes` from the catalogue entry behind each item. Items
+ * whose nodes are already current are returned as they are.
+ */
+export const annotateFlavours = (items: Ingredient[]): Ingredient[] =>
+  items.map(item => {
+    const entry = entryFor(item);
+    const nodes = entry ? dominantFamilies(entry.id).map(f => FLAVOUR_FAMILIES[f].label) : [];
+    if ((item.flavorNodes || []).join('|') === nodes.join('|')) return item;
+    return { ...item, flavorNodes: nodes };
+  });
@@ -4,12 +4,18 @@ import { Ingredient, NeuralProtocol, UserPreferences, RecallHypothesis } from ".
 import { fuseResults } from "../fusion/pipeline";
 import { synthesizeOfflineProtocol } from "./offlineService";
 import { STORAGE_KEYS, ERROR_MESSAGES } from "../constants";
+import { INGREDIENT_CATEGORIES } from "../knowledge/catalogue";
+import { isAtRisk, rankByUrgency } from "./prioritisationService";
+import { PROTOCOL_RESPONSE_SCHEMA, parseProtocolResponse, validateProtocol } from "./protocolSchema";
+import { checkCompliance, describeConstraints, ingredientConflict } from "../fusion/compliance";
 
 /**
  * Session-based failover state to prevent repeated failing cloud calls
  */
 let sessionForceOffline = false;
 
+const MAX_COMPLIANCE_ATTEMPTS = 2; // Protocols that cook with an excluded ingredient are regenerated once
+
 /**
  * Debug telemetry for offline mode transitions
  */
@@ -185,36 +191,66 @@ export const validateApiKey = async (key?: string): Promise<ValidationResult> =>
  * Protocol Synthesis with Deep Fallback.
  */
 export const synthesizeProtocol = async (ingredients: Ingredient[], preferences: UserPreferences): Promise<NeuralProtocol> => {
+  // Items the user cannot eat are never offered, online or offline
+  const allowed = ingredients.filter(i => !ingredientConflict(i.name, preferences));
+  if (allowed.length === 0) {
+    throw new Error(`${ERROR_MESSAGES.PREFERENCES_VIOLATED}: every inventory item is excluded by your diet or allergies`);
+  }
+
   if (!checkOnlineStatus()) {
-    return synthesizeOfflineProtocol(ingredients, preferences);
+    return synthesizeOfflineProtocol(allowed, preferences);
   }
 
   try {
     const ai = getAi();
-    const prompt = `Michelin-star recipe protocol. Inventory: ${ingredients.map(i => i.name).join('; ')}`;
-    const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
+    const ranked = rankByUrgency(allowed);
+    const useFirst = ranked.filter(isAtRisk).map(i => i.name);
+    const basePrompt = `Michelin-star recipe protocol. ${describeConstraints(preferences)} Inventory, most perishable first: ${ranked.map(i => `${i.name} (${i.mass_grams}g, expires in ${i.expires_in_days} days, vitality ${i.vitality_score}%)`).join('; ')}.${
+      useFirst.length ? ` Build the dish around the items that must be used first: ${useFirst.join(', ')}.` : ' Favour the items listed first.'
+    } List anything the dish needs beyond the inventory under missing_ingredients. State how many servings the dish makes, and give each step the grams of every ingredient it measures out.`;
+
+    let feedback = '';
+    for (let attempt = 1; ; attempt++) {
+      const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
+        model: 'gemini-3-pro-preview',
+        contents: basePrompt + feedback,
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: 'application/json',
+          responseSchema: PROTOCOL_RESPONSE_SCHEMA
+        }
+      }));
+
+      // Access text property (not a method)
+      const validated = validateProtocol(parseProtocolResponse(response.text), allowed);
+      const { protocol: rawProtocol, repairs, violations } = checkCompliance(validated.protocol, preferences);
+      const reasons = violations.map(v => `${v.ingredient} (${v.reason})`).join('; ');
+      if (violations.length > 0) {
+        if (attempt >= MAX_COMPLIANCE_ATTEMPTS) throw new Error(`${ERROR_MESSAGES.PREFERENCES_VIOLATED}: ${reasons}`);
+        console.warn(`[Synthesis] Protocol broke preferences, regenerating: ${reasons}`);
+        feedback = ` A previous attempt cooked with ${reasons}. Do not use these.`;
+        continue;
       }
-    }));
 
-    // Access text property (not a method)
-    const rawProtocol: NeuralProtocol = JSON.parse(response.text?.replace(/```json\n?|```/g, "") || "{}");
-    rawProtocol.id = Math.random().toString(36).substr(2, 9);
-    rawProtocol.isOffline = false;
-    
-    // Extract grounding sources from groundingChunks
-    const groundingSources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-      ?.map((chunk: any) => chunk.web?.uri)
-      .filter(Boolean) || [];
-    rawProtocol.groundingSources = groundingSources;
+      const allRepairs = [...validated.repairs, ...repairs];
+      if (allRepairs.length > 0) console.warn(`[Synthesis] Repaired protocol response: ${allRepairs.join('; ')}`);
+      rawProtocol.id = Math.random().toString(36).substr(2, 9);
+      rawProtocol.isOffline = false;
+
+      // Extract grounding sources from groundingChunks
+      const groundingSources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
+        ?.map((chunk: any) => chunk.web?.uri)
+        .filter(Boolean) || [];
+      rawProtocol.groundingSources = groundingSources;
 
-    return fuseResults(ingredients, rawProtocol);
+      return fuseResults(allowed, rawProtocol, preferences);
+    }
   } catch (err: any) {
+    // A response that came back but broke the contract is the user's to see, not the edge node's to hide
+    const message: string = err?.message || '';
+    if (message.includes(ERROR_MESSAGES.PROTOCOL_INVALID) || message.includes(ERROR_MESSAGES.PREFERENCES_VIOLATED)) throw err;
     console.warn("[Synthesis] Handshake Failed. Reverting to edge node compute.", err);
-    return synthesizeOfflineProtocol(ingredients, preferences);
+    return synthesizeOfflineProtocol(allowed, preferences);
   }
 };
 
@@ -227,7 +263,7 @@ export const auditRecall = async (ingredients: Ingredient[]): Promise<RecallHypo
     const ai = getAi();
     const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: `Based on the following inventory: ${ingredients.map(i => i.name).join(', ')}, predict what other common ingredients might be present but currently hidden or missing from the scan. Return as JSON array of objects with keys: name, justification, visualHint, confidence.`,
+      contents: `Based on the following inventory: ${ingredients.map(i => i.name).join(', ')}, predict what other common ingredients might be present but currently hidden or missing from the scan. Phrase visualHint as where in the photo to look, using positions (top, bottom, left, right, centre) or a nearby listed item (e.g. "bottom-left, near the milk"). Return as JSON array of objects with keys: name, justification, visualHint, confidence.`,
       config: {
         responseMimeType: 'application/json',
         responseSchema: {
@@ -262,7 +298,7 @@ export const refineManifestWithEnsemble = async (ingredients: Ingredient[]): Pro
     const ai = getAi();
     const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: `Perform a final refinement on this perceived material manifest: ${JSON.stringify(ingredients)}. Correct taxonomy errors and standardize naming. Return the refined list as JSON.`,
+      contents: `Perform a final refinement on this perceived material manifest: ${JSON.stringify(ingredients)}. Correct taxonomy errors, standardize naming and keep each category within the fixed taxonomy. Return the refined list as JSON.`,
       config: {
         responseMimeType: 'application/json',
         responseSchema: {
@@ -273,10 +309,11 @@ export const refineManifestWithEnsemble = async (ingredients: Ingredient[]): Pro
               id: { type: Type.STRING },
               name: { type: Type.STRING },
               scientificName: { type: Type.STRING },
-              category: { type: Type.STRING },
+              category: { type: Type.STRING, enum: INGREDIENT_CATEGORIES },
               mass_grams: { type: Type.NUMBER },
               vitality_score: { type: Type.NUMBER },
               expires_in_days: { type: Type.NUMBER },
+              vitality_note: { type: Type.STRING },
               confidence: { type: Type.NUMBER },
               molecularProfile: { type: Type.ARRAY, items: { type: Type.STRING } }
             },
@@ -285,8 +322,9 @@ export const refineManifestWithEnsemble = async (ingredients: Ingredient[]): Pro
         }
       }
     }));
-    // Access text property
-    return JSON.parse(response.text || "[]");
+    // Keep perception-only fields (mass range, frame evidence) the schema does not round-trip
+    const refined: Ingredient[] = JSON.parse(response.text || "[]");
+    return refined.map(item => ({ ...ingredients.find(i => i.id === item.id), ...item }));
   } catch (err) {
     console.error("Manifest Fusion Error:", err);
     return ingredients;
@@ -0,0 +1,51 @@
+/**
+ * Minimal promise wrapper around a single IndexedDB object store.
+ * Each feature owns its own database so schema upgrades never need coordinating.
+ */
+export interface IdbStore<T> {
+  get(key: string): Promise<T | undefined>;
+  getAll(): Promise<T[]>;
+  put(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const promisify = <R>(request: IDBRequest<R>): Promise<R> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIdbStore = <T>(dbName: string, storeName: string): IdbStore<T> => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB unavailable'));
+          return;
+        }
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <R>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+    const db = await open();
+    return promisify(fn(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    get: (key) => withStore('readonly', s => s.get(key) as IDBRequest<T | undefined>),
+    getAll: () => withStore('readonly', s => s.getAll() as IDBRequest<T[]>),
+    put: async (key, value) => { await withStore('readwrite', s => s.put(value, key)); },
+    delete: async (key) => { await withStore('readwrite', s => s.delete(key)); },
+    clear: async () => { await withStore('readwrite', s => s.clear()); }
+  };
+};
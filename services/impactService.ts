@@ -1,26 +1,43 @@
 
 import { Ingredient, ImpactMetrics } from '../types';
+import { entryFor } from '../knowledge/catalogue';
 
 /**
- * Approximate impact constants per kg of food category
- * Based on global averages for sustainability metrics.
+ * Approximate impact constants per kg of food category, used for items the
+ * catalogue does not know. Based on global averages for sustainability metrics.
  */
 const IMPACT_COEFFICIENTS: Record<string, { co2: number; water: number }> = {
   'fruit': { co2: 0.4, water: 960 },
   'vegetable': { co2: 0.5, water: 320 },
+  'herb': { co2: 1.0, water: 300 },
+  'meat': { co2: 30.0, water: 10000 },
+  'poultry': { co2: 6.1, water: 4300 },
+  'seafood': { co2: 8.0, water: 2000 },
   'protein': { co2: 12.0, water: 4300 }, // High-end average
   'dairy': { co2: 3.2, water: 1000 },
+  'egg': { co2: 4.5, water: 3265 },
+  'plant-protein': { co2: 2.5, water: 2500 },
+  'legume': { co2: 1.0, water: 4000 },
+  'grain': { co2: 1.6, water: 1800 },
+  'nut-seed': { co2: 2.3, water: 9000 },
   'default': { co2: 1.0, water: 500 }
 };
 
+/**
+ * Footprint of the given items. Synthesis passes only the items a protocol
+ * rescues, so the figures count food that would otherwise have been wasted.
+ */
 export const calculateEnvironmentalImpact = (ingredients: Ingredient[]): ImpactMetrics => {
   let co2 = 0;
   let water = 0;
   let totalMass = 0;
 
   ingredients.forEach(ing => {
+    const entry = entryFor(ing);
     const category = ing.category?.toLowerCase() || 'default';
-    const coefficients = IMPACT_COEFFICIENTS[category] || IMPACT_COEFFICIENTS['default'];
+    const coefficients = entry
+      ? { co2: entry.co2PerKg, water: entry.waterPerKg }
+      : IMPACT_COEFFICIENTS[category] || IMPACT_COEFFICIENTS['default'];
     const massKg = ing.mass_grams / 1000;
     
     co2 += coefficients.co2 * massKg;
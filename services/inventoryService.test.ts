@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Ingredient } from '../types';
+import { addScanned, findDuplicates, mergeInInventory } from './inventoryService';
+
+const item = (id: string, name: string, mass: number, extra: Partial<Ingredient> = {}): Ingredient => ({
+  id,
+  name,
+  scientificName: '',
+  category: 'vegetable',
+  mass_grams: mass,
+  vitality_score: 90,
+  expires_in_days: 5,
+  confidence: 0.8,
+  ...extra
+});
+
+describe('findDuplicates', () => {
+  it('groups active items that resolve to one ingredient', () => {
+    const inventory = [item('a', 'Tomato', 200), item('b', 'Onion', 90), item('c', 'tomatoes', 150), item('d', 'Tomato', 80, { verificationStatus: 'dismissed' })];
+    expect(findDuplicates(inventory).map(group => group.map(i => i.id))).toEqual([['a', 'c']]);
+  });
+});
+
+describe('mergeInInventory', () => {
+  it('adds masses and keeps the most perishable freshness at the first position', () => {
+    const inventory = [item('a', 'Tomato', 200), item('b', 'Onion', 90), item('c', 'Tomato', 150, { vitality_score: 60, expires_in_days: 2 })];
+    const next = mergeInInventory(inventory, ['a', 'c']);
+    expect(next.map(i => i.id)).toEqual(['a', 'b']);
+    expect(next[0]).toMatchObject({ mass_grams: 350, vitality_score: 60, expires_in_days: 2 });
+  });
+
+  it('leaves the inventory alone with fewer than two items', () => {
+    const inventory = [item('a', 'Tomato', 200)];
+    expect(mergeInInventory(inventory, ['a'])).toBe(inventory);
+  });
+});
+
+describe('addScanned', () => {
+  it('folds a scan into the pantry item with the same catalogue id', () => {
+    const pantry = [item('a', 'Tomato', 200, { catalogueId: 'tomato' })];
+    const next = addScanned(pantry, [item('b', 'Cherry tomatoes', 150, { catalogueId: 'tomato', expires_in_days: 2 })]);
+    expect(next).toHaveLength(1);
+    expect(next[0]).toMatchObject({ id: 'a', mass_grams: 350, expires_in_days: 2 });
+  });
+
+  it('keeps different ingredients and dismissed items apart', () => {
+    const pantry = [item('a', 'Tomato', 200, { catalogueId: 'tomato', verificationStatus: 'dismissed' })];
+    const next = addScanned(pantry, [item('b', 'Tomato', 150, { catalogueId: 'tomato' }), item('c', 'Onion', 90, { catalogueId: 'onion' })]);
+    expect(next.map(i => i.id)).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,128 @@
+import { Ingredient } from '../types';
+import { CatalogueEntry } from '../knowledge/catalogue';
+import { ingredientKey } from '../knowledge/matcher';
+
+/**
+ * inventoryService.ts
+ * Pure operations behind manual inventory edits on the Dashboard.
+ * Each returns new objects; App state stays the single source of truth.
+ */
+
+const DEFAULT_MANUAL_MASS = 100;
+const DEFAULT_MANUAL_VITALITY = 85; // Hand-entered items are assumed fresh but unassessed
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * What identifies an item across the pantry: its catalogue id, else its
+ * identity-matched (or normalised) name.
+ */
+export const inventoryKey = (item: Ingredient): string => item.catalogueId || ingredientKey(item.name);
+
+/**
+ * Re-points an item at another catalogue entry (name, taxonomy, category).
+ * Mass, freshness and verification are kept; the user has looked at the item.
+ */
+export const renameToEntry = (item: Ingredient, entry: CatalogueEntry): Ingredient => ({
+  ...item,
+  name: entry.name,
+  catalogueId: entry.id,
+  scientificName: entry.scientificName,
+  category: entry.category,
+  verificationStatus: item.verificationStatus === 'dismissed' ? 'dismissed' : 'confirmed'
+});
+
+/**
+ * Renames to free text the catalogue does not know.
+ */
+export const renameFreeText = (item: Ingredient, name: string): Ingredient => ({
+  ...item,
+  name: name.trim(),
+  catalogueId: undefined,
+  scientificName: 'Unknown Species',
+  category: 'uncatalogued',
+  verificationStatus: item.verificationStatus === 'dismissed' ? 'dismissed' : 'confirmed'
+});
+
+/**
+ * An item added by hand. Shelf life defaults to the catalogue's.
+ */
+export const createManualIngredient = (
+  entry: CatalogueEntry | null,
+  name: string,
+  mass: number = DEFAULT_MANUAL_MASS,
+  expiresInDays?: number
+): Ingredient => ({
+  id: newId(),
+  name: entry?.name || name.trim(),
+  catalogueId: entry?.id,
+  scientificName: entry?.scientificName || 'Unknown Species',
+  category: entry?.category || 'uncatalogued',
+  mass_grams: Math.max(1, Math.round(mass)),
+  vitality_score: DEFAULT_MANUAL_VITALITY,
+  expires_in_days: expiresInDays ?? entry?.shelfLifeDays ?? 7,
+  vitality_note: 'Added manually; freshness not assessed.',
+  confidence: 1,
+  molecularProfile: [],
+  verificationStatus: 'confirmed'
+});
+
+/**
+ * Groups of two or more active items that resolve to the same ingredient.
+ */
+export const findDuplicates = (inventory: Ingredient[]): Ingredient[][] => {
+  const groups = new Map<string, Ingredient[]>();
+  inventory
+    .filter(i => i.verificationStatus !== 'dismissed')
+    .forEach(i => {
+      const key = inventoryKey(i);
+      groups.set(key, [...(groups.get(key) || []), i]);
+    });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
+
+/**
+ * Folds several entries of one ingredient into the first.
+ * Masses add up; freshness and expiry take the most perishable entry so
+ * use-it-first advice stays conservative.
+ */
+export const mergeIngredients = (items: Ingredient[]): Ingredient => {
+  const [first] = items;
+  const worst = items.reduce((a, b) => (b.vitality_score < a.vitality_score ? b : a));
+  const ranges = items.map(i => i.mass_range_grams);
+  return {
+    ...first,
+    mass_grams: items.reduce((sum, i) => sum + i.mass_grams, 0),
+    mass_range_grams: ranges.every(Boolean)
+      ? [ranges.reduce((s, r) => s + r![0], 0), ranges.reduce((s, r) => s + r![1], 0)]
+      : undefined,
+    vitality_score: worst.vitality_score,
+    vitality_note: worst.vitality_note,
+    expires_in_days: Math.min(...items.map(i => i.expires_in_days)),
+    confidence: Math.max(...items.map(i => i.confidence)),
+    verificationStatus: items.some(i => i.verificationStatus === 'confirmed') ? 'confirmed' : first.verificationStatus
+  };
+};
+
+/**
+ * Replaces the given items with their merge, at the first item's position.
+ */
+export const mergeInInventory = (inventory: Ingredient[], ids: string[]): Ingredient[] => {
+  const items = inventory.filter(i => ids.includes(i.id));
+  if (items.length < 2) return inventory;
+  const merged = mergeIngredients(items);
+  return inventory.flatMap(i => (i.id === merged.id ? [merged] : ids.includes(i.id) ? [] : [i]));
+};
+
+/**
+ * Adds scanned items to the pantry, folding each into the active item (or
+ * earlier item of the same scan) it resolves to.
+ */
+export const addScanned = (inventory: Ingredient[], scanned: Ingredient[]): Ingredient[] =>
+  scanned.reduce((pantry, item) => {
+    const key = inventoryKey(item);
+    const existing = pantry.find(i => i.verificationStatus !== 'dismissed' && inventoryKey(i) === key);
+    if (!existing) return [...pantry, item];
+    const merged = mergeIngredients([existing, item]);
+    return pantry.map(i => (i.id === existing.id ? merged : i));
+  }, inventory);
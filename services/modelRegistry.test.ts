@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ModelType, OfflineModel } from '../types';
+import { registry } from './modelRegistry';
+
+// Artifact cache writes, by model id
+const cached = vi.hoisted(() => new Map<string, { version: string }>());
+vi.mock('./idbStore', () => ({
+  createIdbStore: () => ({
+    get: async () => undefined,
+    put: async (key: string, value: { version: string }) => { cached.set(key, value); }
+  })
+}));
+
+const artifactModel = (version: string): OfflineModel => ({
+  ...registry.getActiveModel(ModelType.DETECTION)!,
+  version,
+  artifact: { url: 'data:application/octet-stream;base64,AAEC', inputSize: 640, labels: [] }
+});
+
+describe('registry.swapModel', () => {
+  it('keeps the current model when the new one fails to load', async () => {
+    const before = registry.getActiveModel(ModelType.DETECTION)!;
+    registry.registerLoader(ModelType.DETECTION, async () => { throw new Error('corrupt artifact'); });
+
+    await expect(registry.swapModel(artifactModel('9.9.9'))).rejects.toThrow('corrupt artifact');
+    expect(registry.getActiveModel(ModelType.DETECTION)).toBe(before);
+    expect(registry.getHealth(before.id)).not.toBe('failed');
+  });
+
+  it('keeps the current model when a swap check fails', async () => {
+    const before = registry.getActiveModel(ModelType.DETECTION)!;
+    let released = false;
+    registry.registerLoader(ModelType.DETECTION, async () => ({ release: async () => { released = true; } }));
+    const remove = registry.addSwapCheck(async () => { throw new Error('worker rejected model'); });
+
+    await expect(registry.swapModel(artifactModel('9.9.8'))).rejects.toThrow('worker rejected model');
+    remove();
+    expect(registry.getActiveModel(ModelType.DETECTION)).toBe(before);
+    expect(released).toBe(true);
+    expect(cached.get(before.id)?.version).not.toBe('9.9.8');
+  });
+
+  it('activates the new model once it has loaded', async () => {
+    const runtime = { release: async () => undefined };
+    registry.registerLoader(ModelType.DETECTION, async () => runtime);
+
+    await registry.swapModel(artifactModel('9.9.10'));
+    expect(registry.getActiveModel(ModelType.DETECTION)!.version).toBe('9.9.10');
+    expect(cached.get(registry.getActiveModel(ModelType.DETECTION)!.id)?.version).toBe('9.9.10');
+    expect(registry.getHealth(registry.getActiveModel(ModelType.DETECTION)!.id)).toBe('loaded');
+    await expect(registry.getRuntime(ModelType.DETECTION)).resolves.toMatchObject({ runtime });
+  });
+
+  it('tells subscribers about the new active model', async () => {
+    registry.registerLoader(ModelType.DETECTION, async () => ({ release: async () => undefined }));
+    const changes: string[] = [];
+    const unsubscribe = registry.onModelChange((_, model) => changes.push(model.version));
+
+    await registry.swapModel(artifactModel('9.9.11'));
+    unsubscribe();
+    await registry.swapModel(artifactModel('9.9.12'));
+    expect(changes).toEqual(['9.9.11']);
+  });
+});
+
+describe('registry.getHealth', () => {
+  it('reports load state relayed from the worker until this thread loads the model', () => {
+    const model = registry.getActiveModel(ModelType.DETECTION)!;
+    registry.registerModel({ ...model, id: 'relayed', version: '1.0.0' });
+    expect(registry.getHealth('relayed')).toBe('unloaded');
+
+    registry.setRemoteHealth('relayed', 'loaded');
+    expect(registry.getHealth('relayed')).toBe('loaded');
+  });
+});
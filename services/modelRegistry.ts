@@ -1,27 +1,61 @@
+import * as ort from 'onnxruntime-web';
+import { OfflineModel, ModelType, ModelHealth, ModelManifest } from '../types';
+import { DETECTION_LABELS } from '../perception/class_map';
+import { createIdbStore } from './idbStore';
 
-import { OfflineModel, ModelType } from '../types';
+/**
+ * Turns raw artifact bytes into an executable runtime (e.g. an ONNX session).
+ */
+export type ModelLoader<T = unknown> = (bytes: ArrayBuffer, model: OfflineModel) => Promise<T>;
+
+interface CachedArtifact {
+  version: string;
+  sha256: string;
+  bytes: ArrayBuffer;
+  cachedAt: number;
+}
+
+interface ModelState {
+  health: ModelHealth;
+  runtime?: unknown;
+  loading?: Promise<unknown>;
+  error?: string;
+  download?: CachedArtifact; // Freshly fetched bytes, cached once the model is live
+}
+
+type HealthListener = (id: string, health: ModelHealth, error?: string) => void;
+
+const MANIFEST_URL = `${import.meta.env.BASE_URL}models/manifest.json`;
+
+const artifactCache = createIdbStore<CachedArtifact>('culinary_lens_models', 'artifacts');
+
+const onnxLoader: ModelLoader<ort.InferenceSession> = (bytes) => {
+  ort.env.wasm.numThreads = 1; // Avoids the cross-origin isolation requirement of threaded WASM
+  return ort.InferenceSession.create(new Uint8Array(bytes), { executionProviders: ['wasm'] });
+};
+
+const resolveUrl = (url: string) => /^(https?:|blob:|data:)/.test(url) ? url : `${import.meta.env.BASE_URL}${url.replace(/^\//, '')}`;
+
+const sha256Hex = async (bytes: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
 
 /**
  * Universal Model Registry for CulinaryLens.
- * Acts as the authority for what local intelligence capabilities are active.
+ * Acts as the authority for what local intelligence capabilities are active,
+ * and owns the lifecycle of their artifacts (fetch, verify, cache, load, swap).
  */
 class ModelRegistry {
   private models: OfflineModel[] = [
     {
-      id: 'yolo-v8x-culinary',
-      name: 'YOLOv8x Edge',
-      version: '4.2.0',
+      id: 'yolov8n_culinary',
+      name: 'YOLOv8n Edge',
+      version: '1.0.0',
       type: ModelType.DETECTION,
       accuracy: 0.94,
-      coverage: ['apple', 'pear', 'spinach', 'cheese', 'tomato', 'onion', 'garlic']
-    },
-    {
-      id: 'efficientnet-b7-food',
-      name: 'EfficientNet-B7',
-      version: '1.0.5',
-      type: ModelType.CLASSIFICATION,
-      accuracy: 0.98,
-      coverage: ['thyme', 'lemon', 'basil', 'rosemary', 'olive oil', 'mushrooms']
+      coverage: DETECTION_LABELS,
+      artifact: { url: 'models/yolov8n-culinary.onnx', inputSize: 640, labels: DETECTION_LABELS }
     },
     {
       id: 'culinary-logic-v2',
@@ -33,6 +67,22 @@ class ModelRegistry {
     }
   ];
 
+  private active = new Map<ModelType, string>([
+    [ModelType.DETECTION, 'yolov8n_culinary'],
+    [ModelType.REASONING, 'culinary-logic-v2']
+  ]);
+
+  private states = new Map<string, ModelState>();
+  // No classification model: perception/classifier.ts is a catalogue lookup until one is wired in
+  private loaders = new Map<ModelType, ModelLoader>([
+    [ModelType.DETECTION, onnxLoader]
+  ]);
+  private listeners = new Set<(type: ModelType, model: OfflineModel) => void>();
+  private swapChecks = new Set<(model: OfflineModel) => Promise<void>>();
+  private healthListeners = new Set<HealthListener>();
+  // Load state reported by another registry instance (the perception worker's)
+  private remoteStates = new Map<string, Pick<ModelState, 'health' | 'error'>>();
+
   /**
    * Retrieves all registered models of a specific type.
    */
@@ -40,6 +90,14 @@ class ModelRegistry {
     return this.models.filter(m => m.type === type);
   }
 
+  /**
+   * Retrieves the model currently serving a capability.
+   */
+  getActiveModel(type: ModelType): OfflineModel | undefined {
+    const id = this.active.get(type);
+    return this.models.find(m => m.id === id) || this.getModelsByType(type)[0];
+  }
+
   /**
    * Retrieves the aggregate coverage for a specific capability.
    */
@@ -53,25 +111,229 @@ class ModelRegistry {
 
   /**
    * Dynamically adds a new model to the edge environment.
+   * Re-registering an id replaces its metadata and drops any loaded runtime.
    */
   registerModel(model: OfflineModel) {
-    if (!this.models.find(m => m.id === model.id)) {
+    const index = this.models.findIndex(m => m.id === model.id);
+    if (index >= 0) {
+      this.models[index] = model;
+      this.unload(model.id);
+    } else {
       this.models.push(model);
-      console.info(`[ModelRegistry] Augmented system with ${model.name} (${model.version})`);
     }
+    console.info(`[ModelRegistry] Augmented system with ${model.name} (${model.version})`);
+  }
+
+  /**
+   * Overrides how artifacts of a capability are turned into runtimes.
+   */
+  registerLoader(type: ModelType, loader: ModelLoader) {
+    this.loaders.set(type, loader);
+  }
+
+  /**
+   * Fetches a manifest and registers every model it lists.
+   * A missing manifest is not an error: the built-in defaults stay active.
+   */
+  async loadManifest(url: string = MANIFEST_URL): Promise<boolean> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) return false;
+      const manifest: ModelManifest = await response.json();
+      manifest.models.forEach(m => this.registerModel({ ...m, coverage: m.coverage || m.artifact?.labels || [] }));
+      Object.entries(manifest.active || {}).forEach(([type, id]) => {
+        if (id) this.active.set(type as ModelType, id);
+      });
+      return true;
+    } catch (err) {
+      console.warn('[ModelRegistry] Manifest unavailable, keeping built-in models.', err);
+      return false;
+    }
+  }
+
+  /**
+   * Resolves the executable runtime of the active model for a capability,
+   * loading and caching its artifact on first use.
+   */
+  async getRuntime<T>(type: ModelType): Promise<{ model: OfflineModel; runtime: T }> {
+    const model = this.getActiveModel(type);
+    if (!model) throw new Error(`No ${type} model registered`);
+    const runtime = await this.load(model);
+    return { model, runtime: runtime as T };
+  }
+
+  /**
+   * Hot-swaps the model serving a capability without a reload.
+   * The new model is fully loaded, and every swap check has passed, before it
+   * becomes active; it loads under a staging key, so a failed swap leaves the
+   * current metadata and runtime be.
+   */
+  async swapModel(model: OfflineModel): Promise<void> {
+    const staging = `${model.id}@${model.version}:staging`;
+    try {
+      await this.load(model, staging);
+      await Promise.all(Array.from(this.swapChecks, check => check(model)));
+    } catch (err) {
+      this.unload(staging);
+      throw err;
+    }
+    const staged = this.states.get(staging);
+    this.states.delete(staging);
+
+    this.registerModel(model);
+    if (staged) {
+      this.setState(model.id, staged);
+      this.commitDownload(model.id);
+    }
+    const previous = this.active.get(model.type);
+    this.active.set(model.type, model.id);
+    if (previous && previous !== model.id) this.unload(previous);
+    this.listeners.forEach(listener => listener(model.type, model));
+  }
+
+  /**
+   * Adds a step every hot swap must pass before the new model goes live
+   * (e.g. loading it in the perception worker). Returns an unsubscribe function.
+   */
+  addSwapCheck(check: (model: OfflineModel) => Promise<void>): () => void {
+    this.swapChecks.add(check);
+    return () => this.swapChecks.delete(check);
+  }
+
+  /**
+   * Subscribes to active-model changes. Returns an unsubscribe function.
+   */
+  onModelChange(listener: (type: ModelType, model: OfflineModel) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Subscribes to load-state changes of active (not staged) models.
+   * Returns an unsubscribe function.
+   */
+  onHealthChange(listener: HealthListener): () => void {
+    this.healthListeners.add(listener);
+    return () => this.healthListeners.delete(listener);
+  }
+
+  /**
+   * Records the load state of a model held by another registry instance
+   * (the perception worker loads the runtimes when it is in use), reported
+   * while this instance has not loaded the model itself.
+   */
+  setRemoteHealth(id: string, health: ModelHealth, error?: string) {
+    this.remoteStates.set(id, { health, error });
+  }
+
+  getHealth(id: string): ModelHealth {
+    const model = this.models.find(m => m.id === id);
+    if (model && !model.artifact) return 'loaded';
+    return this.stateOf(id)?.health || 'unloaded';
   }
 
   /**
    * Returns a report of current edge intelligence capacity.
    */
   getStats() {
+    const healths = this.models.map(m => this.getHealth(m.id));
+    const health = healths.some(h => h === 'failed' || h === 'stale')
+      ? 'DEGRADED'
+      : healths.every(h => h === 'loaded') ? 'OPTIMAL' : 'STANDBY';
+
     return {
       totalModels: this.models.length,
+      loadedModels: healths.filter(h => h === 'loaded' || h === 'stale').length,
       detectionClasses: this.getAggregateCoverage(ModelType.DETECTION).length,
       classificationClasses: this.getAggregateCoverage(ModelType.CLASSIFICATION).length,
-      health: 'OPTIMAL'
+      models: this.models.map(m => ({ id: m.id, version: m.version, health: this.getHealth(m.id), error: this.stateOf(m.id)?.error })),
+      health
     };
   }
+
+  private stateOf(id: string): Pick<ModelState, 'health' | 'error'> | undefined {
+    return this.states.get(id) || this.remoteStates.get(id);
+  }
+
+  private setState(key: string, state: ModelState) {
+    this.states.set(key, state);
+    if (this.models.some(m => m.id === key)) this.healthListeners.forEach(listener => listener(key, state.health, state.error));
+  }
+
+  /**
+   * Writes a freshly downloaded artifact to the cache once its model is live,
+   * so a failed or rejected swap never replaces the cached copy.
+   */
+  private commitDownload(id: string) {
+    const state = this.states.get(id);
+    if (!state?.download) return;
+    artifactCache.put(id, state.download).catch(() => undefined);
+    delete state.download;
+  }
+
+  private load(model: OfflineModel, key: string = model.id): Promise<unknown> {
+    const state = this.states.get(key);
+    if (state?.runtime) return Promise.resolve(state.runtime);
+    if (state?.loading) return state.loading;
+    if (!model.artifact) return Promise.resolve(null);
+
+    const loader = this.loaders.get(model.type);
+    if (!loader) return Promise.reject(new Error(`No loader registered for ${model.type} models`));
+
+    const loading = (async () => {
+      const { bytes, stale, download } = await this.fetchArtifact(model);
+      const runtime = await loader(bytes, model);
+      this.setState(key, { health: stale ? 'stale' : 'loaded', runtime, download });
+      if (key === model.id) this.commitDownload(key);
+      return runtime;
+    })().catch(err => {
+      const error = err?.message || String(err);
+      this.setState(key, { health: 'failed', error });
+      console.error(`[ModelRegistry] Failed to load ${model.id}:`, error);
+      throw new Error(`Model ${model.id} unavailable: ${error}`);
+    });
+
+    this.setState(key, { health: 'loading', loading });
+    return loading;
+  }
+
+  /**
+   * Cache-first artifact fetch with checksum verification.
+   * A cached copy whose checksum no longer matches the manifest is only used
+   * (and reported as stale) when the fresh download fails. Fresh downloads are
+   * returned as `download` for the caller to cache once the model is live.
+   */
+  private async fetchArtifact(model: OfflineModel): Promise<{ bytes: ArrayBuffer; stale: boolean; download?: CachedArtifact }> {
+    const artifact = model.artifact!;
+    const cached = await artifactCache.get(model.id).catch(() => undefined);
+    const cacheValid = cached && cached.version === model.version && (!artifact.sha256 || cached.sha256 === artifact.sha256);
+    if (cacheValid) return { bytes: cached.bytes, stale: false };
+
+    try {
+      const response = await fetch(resolveUrl(artifact.url));
+      if (!response.ok) throw new Error(`HTTP ${response.status} for ${artifact.url}`);
+      const bytes = await response.arrayBuffer();
+      const sha256 = await sha256Hex(bytes);
+      if (artifact.sha256 && sha256 !== artifact.sha256) {
+        throw new Error(`Checksum mismatch for ${artifact.url}`);
+      }
+      return { bytes, stale: false, download: { version: model.version, sha256, bytes, cachedAt: Date.now() } };
+    } catch (err) {
+      if (cached) {
+        console.warn(`[ModelRegistry] Falling back to stale cached ${model.id} (${cached.version}).`, err);
+        return { bytes: cached.bytes, stale: true };
+      }
+      throw err;
+    }
+  }
+
+  private unload(id: string) {
+    const runtime = this.states.get(id)?.runtime as { release?: () => Promise<void> } | undefined;
+    runtime?.release?.().catch(() => undefined);
+    if (this.states.delete(id) && this.models.some(m => m.id === id)) {
+      this.healthListeners.forEach(listener => listener(id, 'unloaded'));
+    }
+  }
 }
 
 export const registry = new ModelRegistry();
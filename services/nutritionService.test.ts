@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Ingredient } from '../types';
+import { calculateNutrition } from './nutritionService';
+
+const owned = (name: string, category: string, mass_grams: number): Ingredient => ({
+  id: name, name, scientificName: '', category, mass_grams,
+  vitality_score: 80, expires_in_days: 4, confidence: 0.9
+});
+
+describe('calculateNutrition', () => {
+  it('counts catalogued items at their weighed mass', () => {
+    const nutrition = calculateNutrition(['Milk'], [owned('Milk', 'dairy', 400)], 1);
+    expect(nutrition.calories).toBeGreaterThan(200);
+    expect(nutrition.calories).toBeLessThan(300);
+    expect(nutrition.estimated).toEqual([]);
+  });
+
+  it('divides the dish between servings', () => {
+    const whole = calculateNutrition(['Milk'], [owned('Milk', 'dairy', 400)], 1);
+    const half = calculateNutrition(['Milk'], [owned('Milk', 'dairy', 400)], 2);
+    expect(half.calories).toBe(whole.calories);
+    expect(half.perServing.calories).toBeCloseTo(whole.perServing.calories / 2, 0);
+    expect(half.servings).toBe(2);
+  });
+
+  it('lists uncatalogued ingredients as estimated', () => {
+    const nutrition = calculateNutrition(['dragonfruit'], [owned('dragonfruit', 'unknown', 200)], 1);
+    expect(nutrition.estimated).toEqual(['dragonfruit']);
+  });
+
+  it('does not borrow the composition of a partly matching entry', () => {
+    const names = ['almond milk', 'butter beans', 'coconut water', 'peanut oil'];
+    for (const name of names) {
+      const nutrition = calculateNutrition([name], [owned(name, 'unknown', 400)], 1);
+      expect(nutrition.calories, name).toBeLessThanOrEqual(400); // Default composition, 100 kcal per 100 g
+      expect(nutrition.estimated, name).toEqual([name]);
+    }
+  });
+});
@@ -0,0 +1,139 @@
+import { Ingredient, NutrientTotals, ProtocolNutrition, StepQuantity, UserPreferences } from '../types';
+import { CatalogueEntry, INGREDIENT_CATEGORIES, IngredientCategory, entryFor } from '../knowledge/catalogue';
+import { IDENTITY_CONFIDENCE, ingredientKey, matchIngredient } from '../knowledge/matcher';
+import {
+  CATEGORY_COMPOSITION, COMPOSITION, DAILY_VALUES, DEFAULT_COMPOSITION,
+  NUTRIENT_KEYS, NUTRIENT_LABELS, PORTION_GRAMS, PORTION_OVERRIDES
+} from '../knowledge/nutrients';
+
+/**
+ * nutritionService.ts
+ * Dish nutrition from the composition table in knowledge/nutrients. Items
+ * count at the amount the steps measure out, else at their weighed pantry
+ * mass, else at a typical amount for their category. Names that only partly
+ * match the catalogue use category or default figures and are listed as
+ * estimated. Totals are split into servings and compared against the user's
+ * daily targets.
+ */
+
+const SERVING_GRAMS = 350; // Raw weight of one main-course plate
+
+// Servings a protocol may declare, estimate or be scaled to
+export const MIN_SERVINGS = 1;
+export const MAX_SERVINGS = 12;
+
+export interface NutrientProgress {
+  key: keyof NutrientTotals;
+  label: string;
+  unit: string;
+  amount: number;
+  target: number;
+  percent: number; // Of the daily target, uncapped
+}
+
+const emptyTotals = (): NutrientTotals =>
+  Object.fromEntries(NUTRIENT_KEYS.map(key => [key, 0])) as unknown as NutrientTotals;
+
+// Whole units, except iron and fibre which are small enough to need a decimal
+const roundTotals = (totals: NutrientTotals): NutrientTotals =>
+  Object.fromEntries(NUTRIENT_KEYS.map(key => [
+    key,
+    key === 'iron' || key === 'fibre' ? Math.round(totals[key] * 10) / 10 : Math.round(totals[key])
+  ])) as unknown as NutrientTotals;
+
+// Only a sure match borrows an entry's composition: "almond milk" merely looks like milk
+const resolveEntry = (item: Pick<Ingredient, 'name'> & { catalogueId?: string }): CatalogueEntry | undefined => {
+  const entry = entryFor(item);
+  if (entry) return entry;
+  const match = matchIngredient(item.name);
+  return match && match.confidence >= IDENTITY_CONFIDENCE ? match.entry : undefined;
+};
+
+const knownCategory = (category?: string): IngredientCategory | undefined =>
+  INGREDIENT_CATEGORIES.find(c => c === (category || '').toLowerCase());
+
+const portionGrams = (entry?: CatalogueEntry, category?: IngredientCategory): number =>
+  (entry && PORTION_OVERRIDES[entry.id]) || PORTION_GRAMS[category || 'default'];
+
+/**
+ * Typical amount (g) a dish uses of an ingredient nobody has weighed.
+ */
+export const typicalGrams = (name: string): number => {
+  const entry = resolveEntry({ name });
+  return portionGrams(entry, entry?.category);
+};
+
+/**
+ * A whole serving count within the supported range.
+ */
+export const clampServings = (servings: number): number =>
+  Math.min(MAX_SERVINGS, Math.max(MIN_SERVINGS, Math.round(servings)));
+
+/**
+ * Serving count for a dish of the given raw weight.
+ */
+export const estimateServings = (grams: number): number => clampServings(grams / SERVING_GRAMS);
+
+/**
+ * Nutrition of a dish from its ingredient names (used and missing alike).
+ * `servings` defaults to an estimate from the dish's weight; `measured` are
+ * the step quantities, when the protocol has them.
+ */
+export const calculateNutrition = (
+  names: string[],
+  inventory: Ingredient[],
+  servings?: number,
+  measured: StepQuantity[] = []
+): ProtocolNutrition => {
+  const totals = emptyTotals();
+  const estimated: string[] = [];
+  let grams = 0;
+
+  Array.from(new Set(names)).forEach(name => {
+    const key = ingredientKey(name);
+    const owned = inventory.find(item => item.verificationStatus !== 'dismissed' && ingredientKey(item.name) === key);
+    const entry = resolveEntry(owned || { name });
+    const category = entry?.category || knownCategory(owned?.category);
+    const composition = entry ? COMPOSITION[entry.id] : category ? CATEGORY_COMPOSITION[category] : DEFAULT_COMPOSITION;
+    const steps = measured.filter(q => ingredientKey(q.ingredient) === key).reduce((sum, q) => sum + q.grams, 0);
+    const mass = steps || (owned ? owned.mass_grams : portionGrams(entry, category));
+    if (!entry || !(steps || owned)) estimated.push(name);
+
+    NUTRIENT_KEYS.forEach(key => { totals[key] += composition[key] * mass / 100; });
+    grams += mass;
+  });
+
+  const count = servings ?? estimateServings(grams);
+  const perServing = Object.fromEntries(NUTRIENT_KEYS.map(key => [key, totals[key] / count])) as unknown as NutrientTotals;
+  return { ...roundTotals(totals), servings: count, perServing: roundTotals(perServing), estimated };
+};
+
+/**
+ * The same dish for a different number of servings: totals scale, the
+ * per-serving figures stay.
+ */
+export const scaleNutrition = (nutrition: ProtocolNutrition, servings: number): ProtocolNutrition => {
+  const factor = servings / nutrition.servings;
+  const totals = Object.fromEntries(NUTRIENT_KEYS.map(key => [key, nutrition[key] * factor])) as unknown as NutrientTotals;
+  return { ...nutrition, ...roundTotals(totals), servings };
+};
+
+/**
+ * The user's daily targets, reference daily values filling the gaps.
+ */
+export const dailyTargets = (preferences?: UserPreferences): NutrientTotals => {
+  const custom = Object.entries(preferences?.dailyTargets || {}).filter(([, value]) => typeof value === 'number' && value > 0);
+  return { ...DAILY_VALUES, ...Object.fromEntries(custom) };
+};
+
+/**
+ * How much of each daily target one serving covers.
+ */
+export const dailyProgress = (perServing: NutrientTotals, targets: NutrientTotals): NutrientProgress[] =>
+  NUTRIENT_KEYS.map(key => ({
+    key,
+    ...NUTRIENT_LABELS[key],
+    amount: perServing[key],
+    target: targets[key],
+    percent: Math.round((100 * perServing[key]) / targets[key])
+  }));
@@ -0,0 +1,160 @@
+import { Ingredient, NeuralProtocol, PantrySession } from '../types';
+import { createIdbStore } from './idbStore';
+import { ingredientKey } from '../knowledge/matcher';
+import { measuredByIngredient } from './scalingService';
+import { inventoryKey } from './inventoryService';
+
+/**
+ * pantryService.ts
+ * Persistent pantry. Items live in IndexedDB with the time they were scanned
+ * and an absolute expiry, so `expires_in_days` keeps counting down across
+ * reloads. Scans and cooked protocols are appended to a session history.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SESSIONS = 200;
+
+const itemStore = createIdbStore<Ingredient>('culinary_lens_pantry', 'items');
+const sessionStore = createIdbStore<PantrySession>('culinary_lens_pantry_history', 'sessions');
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const daysLeft = (expiresAt: number, now: number) => Math.max(0, Math.ceil((expiresAt - now) / DAY_MS));
+
+/**
+ * Anchors each item's relative expiry to the clock. Items without an
+ * absolute expiry, or whose `expires_in_days` was edited since, are
+ * (re)anchored at `now`; untouched items are returned as they are.
+ */
+export const trackExpiry = (items: Ingredient[], now: number = Date.now()): Ingredient[] =>
+  items.map(item => {
+    if (item.expiresAt !== undefined && daysLeft(item.expiresAt, now) === item.expires_in_days) return item;
+    return {
+      ...item,
+      scannedAt: item.scannedAt ?? now,
+      expiresAt: now + item.expires_in_days * DAY_MS
+    };
+  });
+
+/**
+ * Recomputes `expires_in_days` from the absolute expiry. Returns the same
+ * array when nothing changed, so a periodic tick does not trigger saves.
+ */
+export const refreshExpiry = (items: Ingredient[], now: number = Date.now()): Ingredient[] => {
+  let changed = false;
+  const next = items.map(item => {
+    if (item.expiresAt === undefined) return item;
+    const days = daysLeft(item.expiresAt, now);
+    if (days === item.expires_in_days) return item;
+    changed = true;
+    return { ...item, expires_in_days: days };
+  });
+  return changed ? next : items;
+};
+
+export const loadPantry = async (): Promise<Ingredient[]> => {
+  try {
+    const items = await itemStore.getAll();
+    return refreshExpiry(items.sort((a, b) => (a.scannedAt ?? 0) - (b.scannedAt ?? 0)));
+  } catch (err) {
+    console.warn('[Pantry] Stored pantry unavailable; starting empty.', err);
+    return [];
+  }
+};
+
+let pendingSave: Promise<void> = Promise.resolve();
+
+const writePantry = async (items: Ingredient[]): Promise<void> => {
+  try {
+    const stored = await itemStore.getAll();
+    const ids = new Set(items.map(i => i.id));
+    await Promise.all([
+      ...stored.filter(i => !ids.has(i.id)).map(i => itemStore.delete(i.id)),
+      ...items.map(i => itemStore.put(i.id, i))
+    ]);
+  } catch (err) {
+    console.warn('[Pantry] Could not persist pantry.', err);
+  }
+};
+
+/**
+ * Writes the pantry as it is now: upserts every item, deletes the rest.
+ * Saves are queued so an older snapshot never lands after a newer one.
+ */
+export const savePantry = (items: Ingredient[]): Promise<void> =>
+  (pendingSave = pendingSave.then(() => writePantry(items)));
+
+const appendSession = async (session: PantrySession): Promise<void> => {
+  try {
+    await sessionStore.put(session.id, session);
+    const sessions = await sessionStore.getAll();
+    const excess = sessions.sort((a, b) => b.at - a.at).slice(MAX_SESSIONS);
+    await Promise.all(excess.map(s => sessionStore.delete(s.id)));
+  } catch (err) {
+    console.warn('[Pantry] Could not record pantry history.', err);
+  }
+};
+
+const summarise = (items: Ingredient[]): PantrySession['items'] =>
+  items.map(i => ({ name: i.name, catalogueId: i.catalogueId, mass_grams: i.mass_grams }));
+
+/**
+ * Appends a scan or cook to the history and returns the stored session.
+ */
+export const recordPantrySession = async (
+  kind: PantrySession['kind'],
+  items: Ingredient[],
+  title?: string
+): Promise<PantrySession> => {
+  const session: PantrySession = { id: newId(), kind, at: Date.now(), title, items: summarise(items) };
+  await appendSession(session);
+  return session;
+};
+
+/**
+ * Newest first.
+ */
+export const loadPantryHistory = async (): Promise<PantrySession[]> => {
+  try {
+    return (await sessionStore.getAll()).sort((a, b) => b.at - a.at);
+  } catch (err) {
+    console.warn('[Pantry] Stored history unavailable.', err);
+    return [];
+  }
+};
+
+/**
+ * Splits the pantry into what a finished protocol used and what is left.
+ * Items the steps measure out lose only the measured grams (the rest stays,
+ * without its now stale mass range); unmeasured used items are consumed
+ * whole. Dismissed items are never matched.
+ */
+export const consumeForProtocol = (
+  inventory: Ingredient[],
+  protocol: NeuralProtocol
+): { remaining: Ingredient[]; consumed: Ingredient[] } => {
+  const used = new Set(protocol.ingredients_used.map(name => ingredientKey(name)));
+  const measured = measuredByIngredient(protocol);
+  const remaining: Ingredient[] = [];
+  const consumed: Ingredient[] = [];
+
+  inventory.forEach(item => {
+    const key = inventoryKey(item);
+    if (item.verificationStatus === 'dismissed' || !used.has(key)) {
+      remaining.push(item);
+      return;
+    }
+    const left = measured.get(key);
+    if (left === undefined || left >= item.mass_grams) {
+      consumed.push(item);
+      if (left !== undefined) measured.set(key, left - item.mass_grams);
+      return;
+    }
+    if (left > 0) consumed.push({ ...item, mass_grams: left });
+    const { mass_range_grams, ...rest } = item;
+    remaining.push(left > 0 ? { ...rest, mass_grams: item.mass_grams - left } : item);
+    measured.set(key, 0);
+  });
+
+  return { remaining, consumed };
+};
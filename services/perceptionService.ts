@@ -1,16 +1,312 @@
+import {
+  Detection, Ingredient, PerceptionBatchResult, PerceptionOptions, PerceptionRegion, PerceptionResult,
+  RecallHypothesis, RescanResult, VolumeCalibration
+} from '../types';
+import { run_perception_pipeline, run_targeted_rescan } from '../perception/pipeline';
+import { detectObjects } from '../perception/detector';
+import { toImageData } from '../perception/image';
+import { mergeFrames } from '../perception/merge';
+import { PerceptionWorkerRequest, PerceptionWorkerResponse } from '../perception/protocol';
+import { registry } from './modelRegistry';
+import { onCalibrationChange } from './calibrationService';
 
-import { Ingredient } from '../types';
-import { run_perception_pipeline } from '../perception/pipeline';
+/**
+ * An image as handed over by the UI: a File/Blob from an input, or a base64 payload.
+ */
+export type PerceptionInput = Blob | string;
 
-export const runPerceptionPipeline = async (imageData: string): Promise<Ingredient[]> => {
+interface PendingJob {
+  onEvent?: PerceptionOptions['onEvent'];
+  fallback: () => Promise<unknown>; // Same work on the main thread, if the worker dies
+  resolve: (value: unknown) => void; // dispatch<T> narrows to the job's result type
+  reject: (err: unknown) => void;
+}
+
+// Requests as built by callers; the client assigns ids
+type JobRequest =
+  | Omit<Extract<PerceptionWorkerRequest, { type: 'run' }>, 'id'>
+  | Omit<Extract<PerceptionWorkerRequest, { type: 'detect' }>, 'id'>
+  | Omit<Extract<PerceptionWorkerRequest, { type: 'rescan' }>, 'id'>
+  | Omit<Extract<PerceptionWorkerRequest, { type: 'swap' }>, 'id'>;
+
+let worker: Worker | null = null;
+let workerBroken = false;
+let nextJobId = 1;
+const jobs = new Map<number, PendingJob>();
+
+const supportsWorker = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+const abortError = () => new DOMException('Perception cancelled', 'AbortError');
+
+const toBlob = (input: PerceptionInput): Blob => {
+  if (typeof input !== 'string') return input;
+  const binary = atob(input);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes]);
+};
+
+const runOnMainThread = async (input: PerceptionInput, options: PerceptionOptions): Promise<PerceptionResult> => {
+  const image = typeof input === 'string' ? input : await createImageBitmap(input);
+  return run_perception_pipeline(image, options);
+};
+
+/**
+ * Re-runs every in-flight job on the main thread once the worker is unusable.
+ */
+const failOver = (reason: unknown) => {
+  console.warn('[Perception] Worker unavailable, falling back to main thread.', reason);
+  workerBroken = true;
+  worker?.terminate();
+  worker = null;
+  const pending = Array.from(jobs.values());
+  jobs.clear();
+  pending.forEach(job => job.fallback().then(job.resolve, job.reject));
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || workerBroken || !supportsWorker()) return worker;
   try {
-    return await run_perception_pipeline(imageData);
+    worker = new Worker(new URL('../perception/worker.ts', import.meta.url), { type: 'module' });
   } catch (err) {
-    console.error("Perception Layer Error:", err);
+    failOver(err);
+    return null;
+  }
+
+  worker.onmessage = (e: MessageEvent<PerceptionWorkerResponse>) => {
+    const message = e.data;
+    if (message.type === 'health') {
+      registry.setRemoteHealth(message.model, message.health, message.error);
+      return;
+    }
+    const job = jobs.get(message.id);
+    if (!job) return; // Cancelled on this side already
+    switch (message.type) {
+      case 'event':
+        job.onEvent?.(message.event);
+        break;
+      case 'result':
+        jobs.delete(message.id);
+        job.resolve(message.result);
+        break;
+      case 'detections':
+        jobs.delete(message.id);
+        job.resolve(message.detections);
+        break;
+      case 'rescanned':
+        jobs.delete(message.id);
+        job.resolve(message.result);
+        break;
+      case 'swapped':
+        jobs.delete(message.id);
+        job.resolve(undefined);
+        break;
+      case 'error': {
+        jobs.delete(message.id);
+        const err = message.name === 'AbortError' ? abortError() : new Error(message.message);
+        job.reject(err);
+        break;
+      }
+    }
+  };
+  worker.onerror = (e) => {
+    e.preventDefault();
+    failOver(e.message);
+  };
+
+  // Keep the worker in step with calibration learnt from verifications
+  onCalibrationChange(() => {
+    const request: PerceptionWorkerRequest = { type: 'calibration' };
+    worker?.postMessage(request);
+  });
+
+  return worker;
+};
+
+/**
+ * Posts a job to the worker, transferring its bitmap, and settles with the
+ * worker's answer. Aborting `signal` cancels the job on both sides.
+ */
+const dispatch = <T>(target: Worker, request: JobRequest, job: Omit<PendingJob, 'resolve' | 'reject'>, signal?: AbortSignal): Promise<T> => {
+  const id = nextJobId++;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      if (!jobs.delete(id)) return;
+      const abort: PerceptionWorkerRequest = { type: 'abort', id };
+      worker?.postMessage(abort);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const settle = <V>(fn: (value: V) => void) => (value: V) => {
+      signal?.removeEventListener('abort', onAbort);
+      fn(value);
+    };
+
+    jobs.set(id, { ...job, resolve: settle((value: unknown) => resolve(value as T)), reject: settle(reject) });
+    target.postMessage({ ...request, id }, 'image' in request ? [request.image] : []);
+  });
+};
+
+// A hot swap made on the main thread only goes live once the worker's registry has taken it too
+registry.addSwapCheck(model => {
+  const target = getWorker();
+  if (!target) return Promise.resolve();
+  return dispatch<void>(target, { type: 'swap', model }, { fallback: () => Promise.resolve() });
+});
+
+/**
+ * Runs the perception pipeline, in a dedicated worker where supported.
+ * The image is decoded to an ImageBitmap here and transferred (not copied);
+ * progress events and the typed result are relayed back to the caller.
+ * Falls back to the main thread when workers or OffscreenCanvas are unavailable.
+ */
+export const runPerceptionPipeline = async (input: PerceptionInput, options: PerceptionOptions = {}): Promise<PerceptionResult> => {
+  try {
+    const target = getWorker();
+    if (!target) return await runOnMainThread(input, options);
+
+    const { signal, budgets, calibration } = options;
+    if (signal?.aborted) throw abortError();
+    const image = await createImageBitmap(toBlob(input));
+    return await dispatch<PerceptionResult>(
+      target,
+      { type: 'run', image, budgets, calibration },
+      { onEvent: options.onEvent, fallback: () => runOnMainThread(input, options) },
+      signal
+    );
+  } catch (err: any) {
+    if (err?.name !== 'AbortError') console.error("Perception Layer Error:", err);
     throw err; // Allow fallback logic to handle
   }
 };
 
+/**
+ * Detection only (no segmentation, freshness or volume) for live previews.
+ * Takes a still grabbed from a camera stream; the bitmap is consumed.
+ */
+export const runLiveDetection = async (frame: ImageBitmap, threshold: number = 0.3, signal?: AbortSignal): Promise<Detection[]> => {
+  if (signal?.aborted) {
+    frame.close();
+    throw abortError();
+  }
+  const target = getWorker();
+  if (!target) {
+    try {
+      return await detectObjects(await toImageData(frame), threshold);
+    } finally {
+      frame.close();
+    }
+  }
+
+  // Keep a main-thread copy only for the fail-over path; the original is transferred
+  const copy = await createImageBitmap(frame);
+  return dispatch<Detection[]>(
+    target,
+    { type: 'detect', image: frame, threshold },
+    { fallback: () => toImageData(copy).then(pixels => detectObjects(pixels, threshold)) },
+    signal
+  ).finally(() => copy.close());
+};
+
+/**
+ * Re-examines one frame for recall hypotheses (see `run_targeted_rescan`),
+ * in the worker where supported.
+ */
+export const runTargetedRescan = async (
+  input: PerceptionInput,
+  hypotheses: RecallHypothesis[],
+  options: { regions?: PerceptionRegion[]; calibration?: VolumeCalibration; signal?: AbortSignal } = {}
+): Promise<RescanResult> => {
+  const { regions = [], calibration, signal } = options;
+  const runLocally = async () => run_targeted_rescan(typeof input === 'string' ? input : await createImageBitmap(input), hypotheses, options);
+  if (hypotheses.length === 0) return { confirmed: [], rejected: [], regions: [] };
+
+  const target = getWorker();
+  if (!target) return runLocally();
+  if (signal?.aborted) throw abortError();
+
+  const image = await createImageBitmap(toBlob(input));
+  return dispatch<RescanResult>(target, { type: 'rescan', image, hypotheses, regions, calibration }, { fallback: runLocally }, signal);
+};
+
+/**
+ * Scans several frames one after another and merges them into a single
+ * deduplicated manifest. Progress is rescaled so `percent` spans the whole batch;
+ * a calibration applies only to the frame it was marked on.
+ */
+export const runBatchPerception = async (inputs: PerceptionInput[], options: PerceptionOptions = {}): Promise<PerceptionBatchResult> => {
+  const { onEvent, calibration } = options;
+  const results: PerceptionResult[] = [];
+
+  for (let i = 0; i < inputs.length; i++) {
+    results.push(await runPerceptionPipeline(inputs[i], {
+      ...options,
+      calibration: (calibration?.frame ?? 0) === i ? calibration : undefined,
+      onEvent: event => onEvent?.({
+        ...event,
+        percent: Math.round((i * 100 + event.percent) / inputs.length),
+        message: inputs.length > 1 ? `Frame ${i + 1}/${inputs.length} · ${event.message}` : event.message
+      })
+    }));
+  }
+
+  return mergeFrames(results);
+};
+
+/**
+ * Samples `count` evenly spaced stills from a short video clip as JPEG blobs.
+ */
+export const sampleVideoFrames = async (video: Blob, count: number = 6): Promise<Blob[]> => {
+  const url = URL.createObjectURL(video);
+  const element = document.createElement('video');
+  element.muted = true;
+  element.playsInline = true;
+  element.preload = 'auto';
+
+  // Whichever of `event` and 'error' fires first removes the other listener
+  const once = (event: string) => new Promise<void>((resolve, reject) => {
+    const listeners = new AbortController();
+    element.addEventListener(event, () => { listeners.abort(); resolve(); }, { signal: listeners.signal });
+    element.addEventListener('error', () => { listeners.abort(); reject(new Error('Video could not be decoded')); }, { signal: listeners.signal });
+  });
+
+  try {
+    const loaded = once('loadeddata');
+    element.src = url;
+    await loaded;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = element.videoWidth;
+    canvas.height = element.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D canvas context unavailable');
+
+    // MediaRecorder webm clips report an Infinity duration until their end has been seeked to
+    if (!Number.isFinite(element.duration)) {
+      const seeked = once('seeked');
+      element.currentTime = Number.MAX_SAFE_INTEGER;
+      await seeked;
+    }
+    const duration = Number.isFinite(element.duration) ? element.duration : element.currentTime;
+    const frames: Blob[] = [];
+    // Without a usable duration every sample would be the same still
+    const samples = duration > 0 ? count : 1;
+    for (let i = 0; i < samples; i++) {
+      // Sample frame centres so the first and last (often blurred) frames are skipped
+      const seeked = once('seeked');
+      element.currentTime = (duration * (i + 0.5)) / samples;
+      await seeked;
+      ctx.drawImage(element, 0, 0);
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+      if (blob) frames.push(blob);
+    }
+    return frames;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
 export const prepareGeminiInput = (perceptionOutput: Ingredient[], userConfig: any) => {
   return {
     ingredients: perceptionOutput,
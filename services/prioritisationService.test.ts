@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { Ingredient } from '../types';
+import { findRescuedItems, rankByUrgency } from './prioritisationService';
+
+const expiring = (name: string, catalogueId?: string, extra: Partial<Ingredient> = {}): Ingredient => ({
+  id: name,
+  name,
+  catalogueId,
+  scientificName: '',
+  category: 'vegetable',
+  mass_grams: 100,
+  vitality_score: 40,
+  expires_in_days: 1,
+  confidence: 0.8,
+  ...extra
+});
+
+describe('rankByUrgency', () => {
+  it('puts the soonest expiry first and breaks ties on vitality', () => {
+    const ranked = rankByUrgency([
+      expiring('Rice', undefined, { expires_in_days: 200, vitality_score: 100 }),
+      expiring('Spinach', undefined, { expires_in_days: 1, vitality_score: 70 }),
+      expiring('Basil', undefined, { expires_in_days: 1, vitality_score: 30 })
+    ]);
+    expect(ranked.map(i => i.name)).toEqual(['Basil', 'Spinach', 'Rice']);
+  });
+});
+
+describe('findRescuedItems', () => {
+  it('reports at-risk items the protocol uses', () => {
+    const inventory = [expiring('Tomato'), expiring('Onion'), expiring('Rice', undefined, { expires_in_days: 200, vitality_score: 100 })];
+    const rescued = findRescuedItems(inventory, ['tomatoes', 'Rice']);
+    expect(rescued.map(i => i.name)).toEqual(['Tomato']);
+  });
+
+  it('matches inventory items by catalogue id, whatever they are called', () => {
+    const rescued = findRescuedItems([expiring('Heirloom Beauties', 'tomato'), expiring('Onion', 'onion')], ['tomatoes']);
+    expect(rescued.map(i => i.name)).toEqual(['Heirloom Beauties']);
+  });
+});
@@ -0,0 +1,45 @@
+import { Ingredient } from '../types';
+import { ingredientKey } from '../knowledge/matcher';
+import { inventoryKey } from './inventoryService';
+
+/**
+ * prioritisationService.ts
+ * "Use it first" ranking. Synthesis (cloud and offline) builds protocols
+ * around the most perishable items, and protocols report which of the items
+ * they use were at risk of being thrown out.
+ */
+
+const AT_RISK_DAYS = 3;       // Expiring within this many days counts as at risk
+const AT_RISK_VITALITY = 50;  // As does freshness below this score
+const EXPIRY_WEIGHT = 0.7;
+const EXPIRY_DECAY_DAYS = 3;  // Urgency from expiry halves roughly every two days
+
+/**
+ * 0–1; higher means the item should be used sooner. Expiry dominates,
+ * low vitality breaks ties and flags produce that is wilting early.
+ */
+export const urgencyScore = (item: Ingredient): number => {
+  const expiry = Math.exp(-Math.max(0, item.expires_in_days) / EXPIRY_DECAY_DAYS);
+  const decay = 1 - Math.max(0, Math.min(100, item.vitality_score)) / 100;
+  return EXPIRY_WEIGHT * expiry + (1 - EXPIRY_WEIGHT) * decay;
+};
+
+export const isAtRisk = (item: Ingredient): boolean =>
+  item.expires_in_days <= AT_RISK_DAYS || item.vitality_score < AT_RISK_VITALITY;
+
+/**
+ * Most urgent first. Equal scores keep their inventory order.
+ */
+export const rankByUrgency = (items: Ingredient[]): Ingredient[] =>
+  items
+    .map((item, index) => ({ item, index, score: urgencyScore(item) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item }) => item);
+
+/**
+ * Inventory items a protocol uses that would otherwise likely be wasted.
+ */
+export const findRescuedItems = (inventory: Ingredient[], ingredientsUsed: string[]): Ingredient[] => {
+  const used = new Set(ingredientsUsed.map(name => ingredientKey(name)));
+  return inventory.filter(i => i.verificationStatus !== 'dismissed' && isAtRisk(i) && used.has(inventoryKey(i)));
+};
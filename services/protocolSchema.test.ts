@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseProtocolResponse, validateProtocol } from './protocolSchema';
+import { MAX_SERVINGS } from './nutritionService';
+
+const response = (servings: unknown) => ({
+  title: 'Tomato Soup',
+  ingredients_used: ['Tomato', 'Onion'],
+  instructions: [{ order: 1, instruction: 'Simmer the tomato and onion', technique: 'Simmering', timer_seconds: 900 }],
+  servings
+});
+
+describe('parseProtocolResponse', () => {
+  it('reads JSON wrapped in a code fence', () => {
+    expect(parseProtocolResponse('```json\n{"title":"Soup"}\n```')).toEqual({ title: 'Soup' });
+  });
+
+  it('rejects a body that is not JSON', () => {
+    expect(() => parseProtocolResponse('Here is your recipe')).toThrow('not valid JSON');
+  });
+});
+
+describe('validateProtocol', () => {
+  it('rejects a response without usable steps', () => {
+    const raw = { title: 'Tomato Soup', ingredients_used: ['Tomato'], instructions: [{ order: 1 }] };
+    expect(() => validateProtocol(raw, [])).toThrow('no usable steps');
+  });
+
+  it('repairs steps and fills in what is missing', () => {
+    const raw = {
+      title: 'Tomato Soup',
+      ingredients_used: ['Tomato', 'Onion'],
+      instructions: [
+        { order: 1, instruction: '' },
+        { order: 2, instruction: 'Simmer the tomato and onion', timer_seconds: '900', target_temp: 95 }
+      ]
+    };
+    const { protocol, repairs } = validateProtocol(raw, []);
+    expect(protocol.instructions).toEqual([
+      { order: 1, instruction: 'Simmer the tomato and onion', technique: 'Preparation', timer_seconds: 900, target_temp: '95°C' }
+    ]);
+    expect(protocol.complexity).toBe('Medium');
+    expect(protocol.duration_minutes).toBe(15);
+    expect(repairs).toEqual(expect.arrayContaining([
+      'dropped step 1 without an instruction',
+      'step 1 had no technique',
+      'duration estimated from steps'
+    ]));
+  });
+});
+
+describe('validateProtocol servings', () => {
+  it('keeps a declared count within range', () => {
+    expect(validateProtocol(response(4), []).protocol.servings).toBe(4);
+  });
+
+  it('clamps a declared count above the limit and says so', () => {
+    const { protocol, repairs } = validateProtocol(response(20), []);
+    expect(protocol.servings).toBe(MAX_SERVINGS);
+    expect(protocol.nutrition.servings).toBe(MAX_SERVINGS);
+    expect(repairs).toContain(`servings clamped to ${MAX_SERVINGS}`);
+  });
+
+  it('estimates servings when none are declared', () => {
+    const { protocol, repairs } = validateProtocol(response(undefined), []);
+    expect(protocol.servings).toBeGreaterThanOrEqual(1);
+    expect(protocol.servings).toBeLessThanOrEqual(MAX_SERVINGS);
+    expect(repairs).toContain('servings estimated from dish weight');
+  });
+});
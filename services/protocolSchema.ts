@@ -0,0 +1,214 @@
+import { Type } from "@google/genai";
+import { Ingredient, NeuralProtocol, ProtocolStep, StepQuantity, UserPreferences } from "../types";
+import { calculateNutrition, clampServings } from "./nutritionService";
+import { ERROR_MESSAGES } from "../constants";
+
+/**
+ * protocolSchema.ts
+ * Structured output contract for protocol synthesis: the response schema
+ * Gemini is held to, and a runtime validator for what actually comes back.
+ * Small gaps are repaired (and listed); responses missing the essentials are
+ * rejected with the reasons, so the user sees why instead of a silent fallback.
+ */
+
+const COMPLEXITIES: NeuralProtocol['complexity'][] = ['Low', 'Medium', 'High'];
+const DIETS: UserPreferences['dietary'][] = ['None', 'Vegan', 'Vegetarian', 'Keto', 'Paleo'];
+
+export const PROTOCOL_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    complexity: { type: Type.STRING, enum: COMPLEXITIES },
+    duration_minutes: { type: Type.NUMBER },
+    servings: { type: Type.NUMBER },
+    cuisine: { type: Type.STRING },
+    dietary: { type: Type.STRING, enum: DIETS },
+    allergens_avoided: { type: Type.ARRAY, items: { type: Type.STRING } },
+    ingredients_used: { type: Type.ARRAY, items: { type: Type.STRING } },
+    missing_ingredients: { type: Type.ARRAY, items: { type: Type.STRING } },
+    instructions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          order: { type: Type.NUMBER },
+          instruction: { type: Type.STRING },
+          technique: { type: Type.STRING },
+          target_temp: { type: Type.STRING, description: 'e.g. "180°C"' },
+          timer_seconds: { type: Type.NUMBER },
+          arHint: { type: Type.STRING },
+          quantities: {
+            type: Type.ARRAY,
+            description: 'Ingredients measured out at this step',
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                ingredient: { type: Type.STRING },
+                grams: { type: Type.NUMBER }
+              },
+              required: ['ingredient', 'grams']
+            }
+          }
+        },
+        required: ['order', 'instruction', 'technique']
+      }
+    },
+    platingTips: { type: Type.ARRAY, items: { type: Type.STRING } },
+    drinkPairing: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING },
+        description: { type: Type.STRING }
+      },
+      required: ['name', 'description']
+    }
+  },
+  required: ['title', 'description', 'complexity', 'duration_minutes', 'servings', 'cuisine', 'dietary', 'ingredients_used', 'instructions', 'platingTips', 'drinkPairing']
+};
+
+export interface ProtocolValidation {
+  protocol: NeuralProtocol;
+  repairs: string[]; // What was filled in or dropped, for logging
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const finiteNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(text).filter(Boolean) : [];
+
+/**
+ * Parses a raw model response, tolerating code fences around the JSON.
+ */
+export const parseProtocolResponse = (raw: string | undefined): unknown => {
+  const body = (raw || '').replace(/```json\n?|```/g, '').trim();
+  if (!body) throw new Error(`${ERROR_MESSAGES.PROTOCOL_INVALID}: empty response`);
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new Error(`${ERROR_MESSAGES.PROTOCOL_INVALID}: response is not valid JSON`);
+  }
+};
+
+const validateSteps = (value: unknown, repairs: string[]): ProtocolStep[] => {
+  if (!Array.isArray(value)) return [];
+  const steps: ProtocolStep[] = [];
+  value.forEach((raw, index) => {
+    if (!isRecord(raw) || !text(raw.instruction)) {
+      repairs.push(`dropped step ${index + 1} without an instruction`);
+      return;
+    }
+    const step: ProtocolStep = {
+      order: steps.length + 1,
+      instruction: text(raw.instruction),
+      technique: text(raw.technique) || 'Preparation'
+    };
+    if (!text(raw.technique)) repairs.push(`step ${step.order} had no technique`);
+
+    const timer = finiteNumber(raw.timer_seconds);
+    if (timer !== undefined && timer > 0) step.timer_seconds = Math.round(timer);
+    else if (raw.timer_seconds !== undefined && timer !== 0) repairs.push(`step ${step.order} timer was not a duration`);
+
+    // Bare numbers are read as Celsius
+    const temp = finiteNumber(raw.target_temp);
+    if (temp !== undefined) step.target_temp = `${temp}°C`;
+    else if (text(raw.target_temp)) step.target_temp = text(raw.target_temp);
+    if (text(raw.arHint)) step.arHint = text(raw.arHint);
+
+    const quantities = (Array.isArray(raw.quantities) ? raw.quantities : [])
+      .filter(isRecord)
+      .map(q => ({ ingredient: text(q.ingredient), grams: finiteNumber(q.grams) }))
+      .filter((q): q is StepQuantity => !!q.ingredient && q.grams !== undefined && q.grams > 0)
+      .map(q => ({ ...q, grams: Math.round(q.grams) }));
+    if (Array.isArray(raw.quantities) && quantities.length < raw.quantities.length) repairs.push(`step ${step.order} had unusable quantities`);
+    if (quantities.length) step.quantities = quantities;
+    steps.push(step);
+  });
+  return steps;
+};
+
+/**
+ * Checks a parsed response against the protocol contract.
+ * Throws (message prefixed with ERROR_MESSAGES.PROTOCOL_INVALID) when the
+ * title, ingredients or steps are unusable; repairs everything else.
+ */
+export const validateProtocol = (raw: unknown, inventory: Ingredient[]): ProtocolValidation => {
+  if (!isRecord(raw)) throw new Error(`${ERROR_MESSAGES.PROTOCOL_INVALID}: response is not an object`);
+
+  const repairs: string[] = [];
+  const errors: string[] = [];
+
+  const title = text(raw.title);
+  if (!title) errors.push('missing title');
+
+  const ingredientsUsed = stringList(raw.ingredients_used);
+  if (ingredientsUsed.length === 0) errors.push('no ingredients used');
+
+  const instructions = validateSteps(raw.instructions, repairs);
+  if (instructions.length === 0) errors.push('no usable steps');
+
+  if (errors.length > 0) throw new Error(`${ERROR_MESSAGES.PROTOCOL_INVALID}: ${errors.join('; ')}`);
+
+  const description = text(raw.description);
+  if (!description) repairs.push('description missing');
+
+  const complexityText = text(raw.complexity).toLowerCase();
+  const complexity = COMPLEXITIES.find(c => c.toLowerCase() === complexityText);
+  if (!complexity) repairs.push(`complexity "${text(raw.complexity)}" replaced with Medium`);
+
+  const timedMinutes = Math.round(instructions.reduce((sum, s) => sum + (s.timer_seconds || 0), 0) / 60);
+  let duration = finiteNumber(raw.duration_minutes);
+  if (duration === undefined || duration <= 0) {
+    duration = Math.max(timedMinutes, 5 * instructions.length);
+    repairs.push('duration estimated from steps');
+  }
+
+  const drink = isRecord(raw.drinkPairing) ? raw.drinkPairing : {};
+  if (!text(drink.name)) repairs.push('drink pairing missing');
+
+  const declared = finiteNumber(raw.servings);
+  const servings = declared !== undefined && declared >= 1 ? clampServings(declared) : undefined;
+  if (servings === undefined) repairs.push('servings estimated from dish weight');
+  else if (servings !== Math.round(declared!)) repairs.push(`servings clamped to ${servings}`);
+
+  // Computed from the composition table rather than taken from the model
+  const nutrition = calculateNutrition(
+    [...ingredientsUsed, ...stringList(raw.missing_ingredients)],
+    inventory,
+    servings,
+    instructions.flatMap(step => step.quantities || [])
+  );
+
+  const protocol: NeuralProtocol = {
+    id: '',
+    title,
+    description,
+    complexity: complexity || 'Medium',
+    duration_minutes: Math.round(duration),
+    servings: nutrition.servings,
+    cuisine: text(raw.cuisine) || undefined,
+    dietary: DIETS.find(d => d === text(raw.dietary)),
+    allergensAvoided: stringList(raw.allergens_avoided),
+    ingredients_used: ingredientsUsed,
+    missing_ingredients: stringList(raw.missing_ingredients),
+    molecularAffinity: 0,
+    instructions,
+    platingTips: stringList(raw.platingTips),
+    drinkPairing: {
+      name: text(drink.name) || 'Still Water',
+      description: text(drink.description)
+    },
+    nutrition,
+    groundingSources: []
+  };
+
+  return { protocol, repairs };
+};
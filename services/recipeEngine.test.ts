@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Ingredient, UserPreferences } from '../types';
+import { planRecipe } from './recipeEngine';
+
+const item = (name: string, category: string): Ingredient => ({
+  id: name, name, scientificName: '', category, mass_grams: 300,
+  vitality_score: 80, expires_in_days: 4, confidence: 0.9
+});
+
+const prefs = (cuisinePreference: string, dietary = 'None'): UserPreferences =>
+  ({ dietary, allergies: [], cuisinePreference } as unknown as UserPreferences);
+
+describe('planRecipe', () => {
+  const pantry = [item('Chicken', 'poultry'), item('Onion', 'vegetable'), item('Tomato', 'vegetable')];
+
+  it("picks the cuisine's first-choice method when patterns tie", () => {
+    expect(planRecipe(pantry, prefs('Indian'))?.pattern.method).toBe('curry');
+  });
+
+  it('is deterministic', () => {
+    expect(planRecipe(pantry, prefs('Indian'))?.title).toBe(planRecipe(pantry, prefs('Indian'))?.title);
+  });
+
+  it('renders numbered steps that cook with the pantry', () => {
+    const plan = planRecipe(pantry, prefs('Italian'))!;
+    expect(plan.steps.map(s => s.order)).toEqual(plan.steps.map((_, i) => i + 1));
+    expect(plan.used.map(i => i.name)).toContain('Tomato');
+    expect(plan.duration_minutes).toBeGreaterThan(0);
+  });
+
+  it('leaves out items the diet rules out', () => {
+    const plan = planRecipe(pantry, prefs('Italian', 'Vegan'))!;
+    expect(plan.used.map(i => i.name)).not.toContain('Chicken');
+  });
+
+  it('returns null for an empty pantry', () => {
+    expect(planRecipe([], prefs('Italian'))).toBeNull();
+  });
+});
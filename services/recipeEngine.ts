@@ -0,0 +1,204 @@
+import { Ingredient, ProtocolStep, UserPreferences } from '../types';
+import { CatalogueEntry, entryFor, getEntry } from '../knowledge/catalogue';
+import {
+  CORE_TEMPS, CUISINE_PROFILES, CookTimes, CuisineProfile, DEFAULT_CUISINE,
+  RECIPE_PATTERNS, RecipePattern, RecipeRole, RecipeStepPattern, RoleKey
+} from '../knowledge/recipes';
+import { ingredientConflict } from '../fusion/compliance';
+import { rankByUrgency, urgencyScore } from './prioritisationService';
+
+/**
+ * recipeEngine.ts
+ * Deterministic offline recipe engine. Pantry items (most perishable first)
+ * are cast into the roles of every pattern in knowledge/recipes; the pattern
+ * that puts the most urgent items to use, nudged by the cuisine, is rendered
+ * into concrete steps with timers and temperatures. The same pantry and
+ * preferences always give the same recipe.
+ */
+
+const CUISINE_BONUS = 1.5;   // Score for the cuisine's favourite method; later favourites get less
+const URGENCY_WEIGHT = 2;    // Extra score per used item, scaled by how soon it must go
+
+/**
+ * What fills a role: pantry items, or a fallback the user needs to buy.
+ */
+interface RoleFill {
+  items: Ingredient[];
+  fallback?: CatalogueEntry;
+}
+
+export interface RecipePlan {
+  pattern: RecipePattern;
+  cuisine: CuisineProfile;
+  title: string;
+  steps: ProtocolStep[];
+  used: Ingredient[];          // Pantry items the recipe cooks with
+  missing: string[];           // Fallbacks and cuisine seasonings the pantry lacks
+  duration_minutes: number;
+  score: number;
+}
+
+export const joinNames = (names: string[]): string =>
+  names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+const titleCase = (text: string) =>
+  text.replace(/(^|[\s-])(\p{L}+)/gu, (_, sep, word) => sep + (word === 'and' ? word : word[0].toUpperCase() + word.slice(1)));
+
+/**
+ * The profile a free-text cuisine ("Italian", "Greek island") selects.
+ */
+export const resolveCuisine = (cuisine?: string): CuisineProfile => {
+  const wanted = (cuisine || '').toLowerCase();
+  return CUISINE_PROFILES.find(p => p.name.toLowerCase() === wanted)
+    || CUISINE_PROFILES.find(p => p.aliases.some(alias => wanted.includes(alias)))
+    || DEFAULT_CUISINE;
+};
+
+const takes = (role: RecipeRole, item: Ingredient): boolean => {
+  const entry = entryFor(item);
+  if (!entry) return (role.categories || []).includes((item.category || '').toLowerCase());
+  if (role.ids?.includes(entry.id)) return true;
+  return (role.categories || []).includes(entry.category) && !(role.exclude || []).includes(entry.id);
+};
+
+const cookMinutes = (item: Ingredient, times: CookTimes): number => {
+  const entry = entryFor(item);
+  if (!entry) return times[(item.category || '').toLowerCase()] ?? times.default;
+  return times[entry.id] ?? (entry.tags.includes('starchy') ? times.starchy : undefined) ?? times[entry.category] ?? times.default;
+};
+
+const coreTemp = (items: Ingredient[]): number | undefined => {
+  const temps = items.map(i => CORE_TEMPS[entryFor(i)?.category || '']).filter((t): t is number => t !== undefined);
+  return temps.length ? Math.max(...temps) : undefined;
+};
+
+/**
+ * Casts the ranked pantry into the pattern's roles. Null when a required
+ * role is left empty.
+ */
+const castRoles = (
+  pattern: RecipePattern,
+  ranked: Ingredient[],
+  cuisine: CuisineProfile,
+  preferences: UserPreferences
+): Map<RoleKey, RoleFill> | null => {
+  const fills = new Map<RoleKey, RoleFill>(pattern.roles.map(role => [role.key, { items: [] }]));
+  ranked.forEach(item => {
+    const role = pattern.roles.find(r => fills.get(r.key)!.items.length < r.max && takes(r, item));
+    if (role) fills.get(role.key)!.items.push(item);
+  });
+
+  for (const role of pattern.roles) {
+    const fill = fills.get(role.key)!;
+    if (fill.items.length === 0 && role.fallbacks) {
+      fill.fallback = role.fallbacks
+        .map(f => getEntry(typeof f === 'function' ? f(cuisine) : f))
+        .find((entry): entry is CatalogueEntry => !!entry && !ingredientConflict(entry.name, preferences));
+    }
+    if (role.required && fill.items.length === 0 && !fill.fallback) return null;
+  }
+  return fills;
+};
+
+const render = (text: string, names: Record<string, string>): string | null => {
+  const filled = (segment: string) => Array.from(segment.matchAll(/\{(\w+)\}/g)).every(([, key]) => !!names[key]);
+  const substitute = (segment: string) => segment.replace(/\{(\w+)\}/g, (_, key) => names[key]);
+  const kept = text.replace(/\[([^\]]*)\]/g, (_, clause) => (filled(clause) ? clause : ''));
+  return filled(kept) ? substitute(kept).replace(/\s+([,.;])/g, '$1').trim() : null;
+};
+
+const renderStep = (
+  step: RecipeStepPattern,
+  names: Record<string, string>,
+  fills: Map<RoleKey, RoleFill>
+): { step: Omit<ProtocolStep, 'order'>; minutes: number } | null => {
+  let instruction = render(step.text, names);
+  if (!instruction) return null;
+
+  const timed = step.timing
+    ? step.timing.roles.flatMap(key => fills.get(key)?.items || []).map(item => cookMinutes(item, step.timing!.times))
+    : [];
+  const minutes = timed.length ? Math.max(...timed) : step.timing?.times.default ?? step.minutes ?? 0;
+
+  let targetTemp = step.temp;
+  const core = step.doneness ? coreTemp(fills.get(step.doneness)?.items || []) : undefined;
+  if (core !== undefined) {
+    instruction += ` Check the thickest piece of ${names[step.doneness!]} reaches ${core}°C in the centre.`;
+    targetTemp = targetTemp || `${core}°C`;
+  }
+
+  return {
+    step: {
+      instruction,
+      technique: step.technique,
+      ...(targetTemp && { target_temp: targetTemp }),
+      ...((step.timing || step.timer) && minutes > 0 && { timer_seconds: minutes * 60 })
+    },
+    minutes: step.parallel ? 0 : minutes
+  };
+};
+
+const planPattern = (
+  pattern: RecipePattern,
+  ranked: Ingredient[],
+  cuisine: CuisineProfile,
+  preferences: UserPreferences
+): RecipePlan | null => {
+  const fills = castRoles(pattern, ranked, cuisine, preferences);
+  if (!fills) return null;
+
+  const cooked = ranked.filter(item => Array.from(fills.values()).some(f => f.items.includes(item)));
+  const used = [...cooked];
+  const usedIds = new Set(cooked.map(i => entryFor(i)?.id).filter(Boolean));
+  const missing = Array.from(fills.values()).flatMap(f => (f.fallback ? [f.fallback.name] : []));
+
+  // Seasonings the recipe already cooks with are not named twice; pantry ones are used, the rest bought
+  const seasonings = cuisine.seasonings
+    .map(id => getEntry(id))
+    .filter((entry): entry is CatalogueEntry => !!entry && !usedIds.has(entry.id) && !ingredientConflict(entry.name, preferences));
+  seasonings.forEach(entry => {
+    const owned = ranked.find(i => entryFor(i)?.id === entry.id);
+    if (owned) used.push(owned);
+    else missing.push(entry.name);
+  });
+
+  const names: Record<string, string> = { seasoning: joinNames(seasonings.map(e => e.name.toLowerCase())) };
+  fills.forEach((fill, key) => {
+    names[key] = fill.fallback ? fill.fallback.name.toLowerCase() : joinNames(fill.items.map(i => i.name.toLowerCase()));
+  });
+
+  const rendered = pattern.steps
+    .map(step => renderStep(step, names, fills))
+    .filter((r): r is NonNullable<ReturnType<typeof renderStep>> => r !== null);
+  const titleNames = Object.fromEntries(
+    Array.from(fills.entries()).map(([key, fill]) => [key, titleCase(joinNames(fill.items.slice(0, 2).map(i => i.name.toLowerCase())))])
+  );
+
+  const preference = cuisine.prefers.indexOf(pattern.method);
+  const score = cooked.reduce((sum, item) => sum + 1 + URGENCY_WEIGHT * urgencyScore(item), 0)
+    + (preference >= 0 ? CUISINE_BONUS * (cuisine.prefers.length - preference) / cuisine.prefers.length : 0);
+
+  return {
+    pattern,
+    cuisine,
+    title: render(pattern.title, titleNames) || titleCase(pattern.label),
+    steps: rendered.map((r, i) => ({ order: i + 1, ...r.step })),
+    used,
+    missing,
+    duration_minutes: rendered.reduce((sum, r) => sum + r.minutes, 0),
+    score
+  };
+};
+
+/**
+ * The best recipe the pantry supports under the user's diet, allergies and
+ * cuisine, or null when no pattern can be filled. Ties go to the pattern
+ * listed first in the corpus.
+ */
+export const planRecipe = (inventory: Ingredient[], preferences: UserPreferences): RecipePlan | null => {
+  const ranked = rankByUrgency(inventory.filter(i => i.verificationStatus !== 'dismissed' && !ingredientConflict(i.name, preferences)));
+  const cuisine = resolveCuisine(preferences.cuisinePreference);
+  return RECIPE_PATTERNS
+    .map(pattern => planPattern(pattern, ranked, cuisine, preferences))
+    .reduce<RecipePlan | null>((best, plan) => (plan && (!best || plan.score > best.score) ? plan : best), null);
+};
@@ -0,0 +1,135 @@
+import { Ingredient, NeuralProtocol, ProtocolStep, StepQuantity } from '../types';
+import { findMentions, ingredientKey } from '../knowledge/matcher';
+import { calculateEnvironmentalImpact } from './impactService';
+import { clampServings, scaleNutrition } from './nutritionService';
+import { inventoryKey } from './inventoryService';
+
+/**
+ * scalingService.ts
+ * Servings and batch scaling. Step quantities scale linearly; timers only
+ * for steps whose time depends on the volume in the pot (bringing to the
+ * boil, simmering, reducing), and then with the cube root of the factor,
+ * since heat has to travel through a pot whose depth grows that way.
+ * Searing, roasting and resting are per piece and keep their timers.
+ */
+
+const VOLUME_TECHNIQUES = ['boil', 'simmer', 'reduce', 'braise', 'stew', 'poach', 'steam', 'soup'];
+const TIMER_STEP_SECONDS = 30;
+
+export interface PantryShortfall {
+  ingredient: string;
+  needed: number;     // Grams the scaled protocol measures out
+  available: number;  // Grams in the pantry
+}
+
+export interface ScaledProtocol {
+  protocol: NeuralProtocol;
+  shortfalls: PantryShortfall[];
+}
+
+const mentionsIngredient = (step: ProtocolStep, name: string): boolean => {
+  const key = ingredientKey(name);
+  return step.instruction.toLowerCase().includes(name.toLowerCase()) || findMentions(step.instruction).some(entry => entry.id === key);
+};
+
+/**
+ * Every step quantity in the protocol.
+ */
+export const measuredQuantities = (protocol: NeuralProtocol): StepQuantity[] =>
+  protocol.instructions.flatMap(step => step.quantities || []);
+
+/**
+ * Grams the protocol measures out per ingredient, keyed by ingredientKey.
+ */
+export const measuredByIngredient = (protocol: NeuralProtocol): Map<string, number> => {
+  const totals = new Map<string, number>();
+  measuredQuantities(protocol).forEach(q => {
+    const key = ingredientKey(q.ingredient);
+    totals.set(key, (totals.get(key) || 0) + q.grams);
+  });
+  return totals;
+};
+
+/**
+ * Attaches each amount to the first step that mentions its ingredient (the
+ * first step when none does). Ingredients a step already measures are
+ * left alone.
+ */
+export const assignQuantities = (steps: ProtocolStep[], amounts: StepQuantity[]): ProtocolStep[] => {
+  const measured = new Set(steps.flatMap(s => (s.quantities || []).map(q => ingredientKey(q.ingredient))));
+  const assigned = steps.map(step => ({ ...step, quantities: [...(step.quantities || [])] }));
+  amounts.forEach(amount => {
+    const key = ingredientKey(amount.ingredient);
+    if (measured.has(key) || amount.grams <= 0 || assigned.length === 0) return;
+    measured.add(key);
+    const target = assigned.find(step => mentionsIngredient(step, amount.ingredient)) || assigned[0];
+    target.quantities.push({ ingredient: amount.ingredient, grams: Math.round(amount.grams) });
+  });
+  return assigned.map(({ quantities, ...step }) => (quantities.length ? { ...step, quantities } : step));
+};
+
+const scalesWithVolume = (step: ProtocolStep): boolean => {
+  const text = `${step.technique} ${step.instruction}`.toLowerCase();
+  return VOLUME_TECHNIQUES.some(word => text.includes(word));
+};
+
+const scaleStep = (step: ProtocolStep, factor: number): ProtocolStep => {
+  const scaled: ProtocolStep = { ...step };
+  if (step.quantities) {
+    scaled.quantities = step.quantities.map(q => ({ ...q, grams: Math.max(1, Math.round(q.grams * factor)) }));
+  }
+  if (step.timer_seconds && scalesWithVolume(step)) {
+    const seconds = step.timer_seconds * Math.cbrt(factor);
+    scaled.timer_seconds = Math.max(TIMER_STEP_SECONDS, Math.round(seconds / TIMER_STEP_SECONDS) * TIMER_STEP_SECONDS);
+  }
+  return scaled;
+};
+
+/**
+ * Pantry items the measured amounts exceed.
+ */
+export const findShortfalls = (protocol: NeuralProtocol, inventory: Ingredient[]): PantryShortfall[] => {
+  const active = inventory.filter(i => i.verificationStatus !== 'dismissed');
+  return Array.from(measuredByIngredient(protocol).entries()).flatMap(([key, needed]) => {
+    const owned = active.filter(i => inventoryKey(i) === key);
+    if (owned.length === 0) return []; // Not a pantry item: it is on the shopping list already
+    const available = owned.reduce((sum, i) => sum + i.mass_grams, 0);
+    return needed > available ? [{ ingredient: owned[0].name, needed, available }] : [];
+  });
+};
+
+/**
+ * The protocol for a different number of servings: quantities, nutrition,
+ * volume-bound timers and duration scale, impact is recounted for the
+ * rescued amounts actually used, and amounts beyond the pantry are reported.
+ */
+export const scaleProtocol = (protocol: NeuralProtocol, servings: number, inventory: Ingredient[]): ScaledProtocol => {
+  const target = clampServings(servings);
+  if (target === protocol.servings) return { protocol, shortfalls: findShortfalls(protocol, inventory) };
+
+  const factor = target / protocol.servings;
+  const instructions = protocol.instructions.map(step => scaleStep(step, factor));
+  const addedSeconds = instructions.reduce((sum, step, i) => sum + (step.timer_seconds || 0) - (protocol.instructions[i].timer_seconds || 0), 0);
+
+  const scaled: NeuralProtocol = {
+    ...protocol,
+    servings: target,
+    instructions,
+    duration_minutes: Math.max(1, Math.round(protocol.duration_minutes + addedSeconds / 60)),
+    nutrition: scaleNutrition(protocol.nutrition, target)
+  };
+
+  // A rescue only counts for what the scaled dish uses of the item
+  if (protocol.impactMetrics) {
+    const measured = measuredByIngredient(scaled);
+    const rescued = (protocol.rescuedItems || []).flatMap(name => {
+      const item = inventory.find(i => i.verificationStatus !== 'dismissed' && i.name === name);
+      if (!item) return [];
+      const used = measured.get(inventoryKey(item));
+      return [{ ...item, mass_grams: used === undefined ? item.mass_grams : Math.min(used, item.mass_grams) }];
+    });
+    scaled.impactMetrics = calculateEnvironmentalImpact(rescued);
+  }
+
+  return { protocol: scaled, shortfalls: findShortfalls(scaled, inventory) };
+};
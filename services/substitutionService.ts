@@ -0,0 +1,120 @@
+import { Ingredient, UserPreferences } from '../types';
+import { CATALOGUE, CatalogueEntry, entryFor, getEntry } from '../knowledge/catalogue';
+import { matchIngredient } from '../knowledge/matcher';
+import { findAllergens } from '../knowledge/allergens';
+import {
+  CATEGORY_ROLES, FunctionalRole, INGREDIENT_ROLES, ROLE_CUES, ROLE_LABELS,
+  STAND_INS, SUBSTITUTION_RULES, SubstitutionRule
+} from '../knowledge/substitutions';
+import { ingredientConflict } from '../fusion/compliance';
+
+/**
+ * substitutionService.ts
+ * Context-aware swaps. The step an ingredient is used in decides the role it
+ * plays (an egg binds a batter but is the protein of a scramble) and rules
+ * out swaps that fail at that technique; the user's diet and allergies
+ * screen every candidate, and pantry items are offered first.
+ */
+
+const DEFAULT_LIMIT = 4;
+
+export interface Substitution {
+  original: string;        // Catalogue name of the ingredient being replaced
+  name: string;
+  role: FunctionalRole;    // The job the substitute takes over
+  ratio: number;           // Grams of substitute per gram of the original
+  amount?: number;         // Grams, when the amount of the original is known
+  note: string;
+  inPantry: boolean;
+}
+
+export interface SubstitutionContext {
+  step?: string;                 // Instruction the ingredient is used in
+  inventory?: Ingredient[];
+  preferences?: UserPreferences;
+  grams?: number;                // Amount of the original
+  limit?: number;
+}
+
+const mentions = (text: string, words: string[]): boolean => {
+  const lower = text.toLowerCase();
+  return words.some(word => lower.includes(word));
+};
+
+/**
+ * Every role an entry can play; the first is the default.
+ */
+export const rolesOf = (entry: CatalogueEntry): FunctionalRole[] => {
+  if (INGREDIENT_ROLES[entry.id]) return INGREDIENT_ROLES[entry.id];
+  const role = CATEGORY_ROLES[entry.category];
+  return role ? [role] : [];
+};
+
+/**
+ * The role an entry plays in a step: the first whose cues the step uses,
+ * else the default. Null for entries without a role (salt, spices).
+ */
+export const roleIn = (entry: CatalogueEntry, step?: string): FunctionalRole | null => {
+  const roles = rolesOf(entry);
+  if (roles.length === 0) return null;
+  return (step && roles.find(role => mentions(step, ROLE_CUES[role] || []))) || roles[0];
+};
+
+const standInConflict = (key: string, preferences: UserPreferences): boolean =>
+  STAND_INS[key].madeFrom.some(id => !!ingredientConflict(getEntry(id)!.name, preferences))
+  || findAllergens(STAND_INS[key].name, preferences.allergies).length > 0;
+
+const candidateName = (to: string): string | null => STAND_INS[to]?.name || getEntry(to)?.name || null;
+
+const inPantry = (to: string, name: string, inventory: Ingredient[]): boolean =>
+  inventory.some(item => item.verificationStatus !== 'dismissed' && (entryFor(item)?.id === to || item.name.toLowerCase() === name.toLowerCase()));
+
+/**
+ * Other catalogue entries in the same role and category, for ingredients
+ * the rules do not cover (one herb for another).
+ */
+const sameRoleRules = (entry: CatalogueEntry, role: FunctionalRole): SubstitutionRule[] =>
+  CATALOGUE
+    .filter(other => other.id !== entry.id && other.category === entry.category && rolesOf(other).includes(role))
+    .map(other => ({ to: other.id, ratio: 1, note: `Same ${ROLE_LABELS[role].toLowerCase()} role, different flavour; add gradually and taste` }));
+
+/**
+ * Swaps for one ingredient (free text), best first: anything already in the
+ * pantry, then the rest in rule order.
+ */
+export const findSubstitutions = (ingredient: string, context: SubstitutionContext = {}): Substitution[] => {
+  const match = matchIngredient(ingredient);
+  if (!match || match.confidence < 0.6) return [];
+  const entry = match.entry;
+  const role = roleIn(entry, context.step);
+  if (!role) return [];
+
+  const inventory = context.inventory || [];
+  // With a step the swap must cover the role it plays there; without one, any role it can play
+  const playable = context.step ? [role] : rolesOf(entry);
+  const rules = (SUBSTITUTION_RULES[entry.id] || sameRoleRules(entry, role))
+    .filter(rule => !rule.roles || rule.roles.some(r => playable.includes(r)))
+    .filter(rule => !(context.step && rule.avoid && mentions(context.step, rule.avoid)));
+
+  const suggestions = rules.flatMap(rule => {
+    const name = candidateName(rule.to);
+    if (!name) return [];
+    const prefs = context.preferences;
+    if (prefs && (STAND_INS[rule.to] ? standInConflict(rule.to, prefs) : ingredientConflict(name, prefs))) return [];
+    const covers = rule.roles?.find(r => playable.includes(r)) || role;
+    return [{
+      original: entry.name,
+      name,
+      role: covers,
+      ratio: rule.ratio,
+      ...(context.grams !== undefined && { amount: Math.round(context.grams * rule.ratio) }),
+      note: rule.note,
+      inPantry: inPantry(rule.to, name, inventory)
+    }];
+  });
+
+  // Stable sort: rule order survives within pantry and non-pantry swaps
+  return suggestions
+    .sort((a, b) => Number(b.inPantry) - Number(a.inPantry))
+    .slice(0, context.limit ?? DEFAULT_LIMIT);
+};
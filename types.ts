@@ -16,6 +16,15 @@ export enum ModelType {
   REASONING = 'REASONING'
 }
 
+export interface ModelArtifact {
+  url: string; // Absolute, or relative to the app base URL
+  sha256?: string;
+  inputSize: number;
+  labels: string[]; // Output index -> class label
+}
+
+export type ModelHealth = 'unloaded' | 'loading' | 'loaded' | 'failed' | 'stale';
+
 export interface OfflineModel {
   id: string;
   name: string;
@@ -23,20 +32,80 @@ export interface OfflineModel {
   type: ModelType;
   accuracy: number;
   coverage: string[];
+  artifact?: ModelArtifact; // Absent for rule-based engines
+}
+
+export interface ModelManifest {
+  models: OfflineModel[];
+  active?: Partial<Record<ModelType, string>>;
 }
 
 export interface Ingredient {
   id: string;
   name: string;
+  catalogueId?: string; // Canonical id in knowledge/catalogue, when the item is catalogued
   scientificName: string;
   category: string;
   mass_grams: number;
+  mass_range_grams?: [number, number]; // Estimation uncertainty (low, high)
   vitality_score: number; // 0-100 (freshness)
   expires_in_days: number;
+  vitality_note?: string; // Why the freshness estimate is what it is
   confidence: number;
   molecularProfile?: string[];
-  flavorNodes?: string[];
+  flavorNodes?: string[]; // Dominant flavour-compound families, from knowledge/flavours
   verificationStatus?: 'unverified' | 'confirmed' | 'dismissed';
+  seenInFrames?: number; // Batch scans: how many frames the item was matched in
+  sourceModel?: string; // Registry id of the detector that produced the item
+  sourceModelVersion?: string; // Its version at the time
+  detectorLabel?: string; // Class the detector assigned
+  detectorScore?: number; // Raw (uncalibrated) detector score
+  scannedAt?: number; // Epoch ms the item entered the pantry
+  expiresAt?: number; // Epoch ms; expires_in_days is derived from it as time passes
+}
+
+export interface PantrySession {
+  id: string;
+  kind: 'scan' | 'cooked'; // Items added by a scan, or consumed by a finished protocol
+  at: number;
+  title?: string; // Protocol title, for cooked sessions
+  items: { name: string; catalogueId?: string; mass_grams: number }[];
+}
+
+export interface RescuedItemImpact {
+  name: string;
+  category: string;
+  mass_grams: number;
+  co2Kg: number;
+  waterLitres: number;
+}
+
+export interface ProtocolLogEntry {
+  id: string;
+  protocolId: string;
+  title: string;
+  completedAt: number;
+  impact: ImpactMetrics; // Totals over `rescued`
+  rescued: RescuedItemImpact[];
+}
+
+export interface Detection {
+  label: string;
+  bbox: [number, number, number, number]; // x1, y1, x2, y2 in source pixels
+  confidence: number; // Calibrated against user verifications when available
+  rawConfidence?: number; // Detector score before calibration
+  model: string;
+  modelVersion: string; // Calibration is learnt per version of a model
+}
+
+/**
+ * A user-marked object of known size used to convert pixels to centimetres.
+ */
+export interface VolumeCalibration {
+  kind: 'card' | 'plate';
+  bbox: [number, number, number, number]; // x1, y1, x2, y2 in source pixels
+  sizeCm?: number; // Overrides the default long edge (card 8.56 cm, plate 27 cm)
+  frame?: number; // Batch scans: index of the frame the reference was marked on
 }
 
 export interface RecallHypothesis {
@@ -46,6 +115,16 @@ export interface RecallHypothesis {
   confidence: number;
 }
 
+/**
+ * Outcome of the targeted rescan: hypotheses with visual evidence become
+ * ingredients; the rest are reported as suggested but not seen.
+ */
+export interface RescanResult {
+  confirmed: Ingredient[];
+  rejected: RecallHypothesis[];
+  regions: PerceptionRegion[]; // Where each confirmed item was found
+}
+
 export interface AnalysisStep {
   id: string;
   label: string;
@@ -76,26 +155,69 @@ export interface NeuralProtocol {
   description: string;
   complexity: 'Low' | 'Medium' | 'High';
   duration_minutes: number;
+  servings: number;
   ingredients_used: string[];
   missing_ingredients?: string[];
-  molecularAffinity: number; // 0-100
+  rescuedItems?: string[]; // Used items that were close to expiry or past their best
+  cuisine?: string;
+  dietary?: UserPreferences['dietary']; // Diet the protocol was checked against
+  allergensAvoided?: string[]; // Allergies the protocol was checked against
+  molecularAffinity: number; // 0-100, flavour-graph affinity of the whole dish
+  confidence?: number; // 0-100, composite confidence score of a fused protocol
+  pairingSuggestions?: PairingSuggestion[];
   instructions: ProtocolStep[];
   platingTips: string[];
   drinkPairing: DrinkPairing;
-  nutrition: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-  };
+  nutrition: ProtocolNutrition;
   visualUrl?: string;
   schematicUrl?: string;
   groundingSources: string[];
   impactMetrics?: ImpactMetrics;
-  substitutionRisk?: 'SAFE' | 'EXPERIMENTAL' | 'RISKY';
+  substitutionRisk?: 'SAFE' | 'EXPERIMENTAL' | 'RISKY' | 'BLOCKED'; // BLOCKED: touches a user allergen
+  allergenWarnings?: AllergenWarning[];
   isOffline?: boolean;
 }
 
+/**
+ * Amounts of each tracked nutrient. Energy in kcal; macros and fibre in g;
+ * sodium, potassium, calcium, iron and vitamin C in mg.
+ */
+export interface NutrientTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fibre: number;
+  sodium: number;
+  potassium: number;
+  calcium: number;
+  iron: number;
+  vitaminC: number;
+}
+
+/**
+ * Whole-dish totals, computed from the food composition table for the
+ * amounts the protocol uses.
+ */
+export interface ProtocolNutrition extends NutrientTotals {
+  servings: number;
+  perServing: NutrientTotals;
+  estimated: string[]; // Ingredients valued from category means or a typical amount
+}
+
+export interface PairingSuggestion {
+  name: string;      // Catalogue ingredient to add
+  partner: string;   // Dish ingredient it pairs with best
+  shared: string[];  // Flavour families the two share
+  gain: number;      // Affinity points it adds
+}
+
+export interface AllergenWarning {
+  allergen: string; // Allergen group, or the allergy as the user wrote it
+  source: string;   // Ingredient or preparation that carries it
+  step?: number;    // Step order, when a step uses it
+}
+
 export interface ProtocolStep {
   order: number;
   instruction: string;
@@ -103,6 +225,12 @@ export interface ProtocolStep {
   target_temp?: string;
   timer_seconds?: number;
   arHint?: string;
+  quantities?: StepQuantity[]; // Amounts measured out at this step
+}
+
+export interface StepQuantity {
+  ingredient: string;
+  grams: number;
 }
 
 export interface UserPreferences {
@@ -113,8 +241,60 @@ export interface UserPreferences {
   highFidelityVisuals: boolean;
   confidenceMemory?: Record<string, number>; 
   outcomeFeedback?: Record<string, 'success' | 'neutral' | 'improvement'>;
+  dailyTargets?: Partial<NutrientTotals>; // Unset nutrients fall back to the reference daily values
+}
+
+export interface SegmentationMask {
+  area: number; // Foreground area in source pixels
+  polygon: [number, number][]; // Outline in source pixels
+}
+
+/**
+ * Where an ingredient was seen, for overlaying on the scanned image.
+ */
+export interface PerceptionRegion {
+  ingredientId: string;
+  label: string;
+  bbox: [number, number, number, number];
+  mask?: SegmentationMask;
+  appearance?: number[]; // Colour signature used to match the item across frames
+  frame?: number; // Batch scans: index into PerceptionBatchResult.frames
+}
+
+export type PerceptionStageId = 'detect' | 'segment' | 'classify' | 'freshness' | 'volume';
+
+/**
+ * Structured progress emitted by the perception pipeline.
+ * `status` shares the AnalysisStep vocabulary so step lists can bind to it directly.
+ */
+export interface PerceptionEvent {
+  stage: PerceptionStageId;
+  status: 'active' | 'complete' | 'failed';
+  percent: number; // Overall pipeline progress, 0-100
+  elapsedMs: number; // Time spent in this stage so far
+  message: string;
+  detections?: Detection[]; // Intermediate boxes once detection has finished
+}
+
+export interface PerceptionOptions {
+  signal?: AbortSignal;
+  onEvent?: (event: PerceptionEvent) => void;
+  budgets?: Partial<Record<PerceptionStageId, number>>; // Per-stage time budget (ms)
+  calibration?: VolumeCalibration;
 }
 
 export interface PerceptionResult {
   ingredients: Ingredient[];
-}
\ No newline at end of file
+  regions: PerceptionRegion[];
+  imageSize: { width: number; height: number };
+  timings: Partial<Record<PerceptionStageId, number>>;
+}
+/**
+ * Several frames (photos or sampled video) merged into one deduplicated manifest.
+ */
+export interface PerceptionBatchResult {
+  ingredients: Ingredient[];
+  regions: PerceptionRegion[]; // Every observation, tagged with its frame
+  frames: { width: number; height: number }[];
+  timings: Partial<Record<PerceptionStageId, number>>; // Summed over frames
+}